@@ -1,130 +1,55 @@
-import crypto from 'crypto';
-import type { RealtimeAsrParams } from '@/types/asr';
+import { resolveAsrEngine } from '@/utils/asr';
+import { getAsrAdapter } from '@/lib/asr';
+import { createAsrSessionToken } from '@/lib/asr/session';
+import { ASR_STREAM_PATH, ensureAsrProxyServer } from '@/lib/asr/proxy';
 
-/**
- * 腾讯云实时语音识别 WebSocket 签名生成
- * @see https://cloud.tencent.com/document/product/1093/48982
- */
-
-/** URL 有效期（秒） */
-const URL_EXPIRY_SECONDS = 86400; // 24小时
-
-/**
- * 生成 HMAC-SHA1 签名
- */
-function generateSignature(secretKey: string, signStr: string): string {
-  const hmac = crypto.createHmac('sha1', secretKey);
-  hmac.update(signStr);
-  return hmac.digest('base64');
-}
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
 
 /**
- * 生成实时 ASR WebSocket URL
+ * GET /api/asr/realtime?language=en&engine=auto
+ * 创建实时 ASR 会话：返回同源 WebSocket 代理地址（带一次性令牌）
+ * 浏览器不再直接拿到腾讯云签名 URL，上游连接由服务端代理建立（见 lib/asr/proxy.ts）
+ *
+ * 查询参数：
+ * - language: 界面语言（zh / en），engine 为 auto 时据此选择引擎
+ * - engine: auto（默认）或具体引擎，如 16k_en、16k_zh_dialect、16k_yue
+ *
+ * 返回：{ url: '/api/asr/stream?token=...', engine }，url 为相对路径，前端按页面协议拼接 ws(s)://
  */
-function generateRealtimeAsrUrl(
-  appId: string,
-  secretId: string,
-  secretKey: string,
-  params: RealtimeAsrParams
-): string {
-  const timestamp = Math.floor(Date.now() / 1000);
-  const expired = timestamp + URL_EXPIRY_SECONDS;
-
-  // 构建必需参数
-  const queryParams: Record<string, string | number> = {
-    secretid: secretId,
-    timestamp,
-    expired,
-    nonce: Math.floor(Math.random() * 100000),
-    engine_model_type: params.engine_model_type,
-    voice_id: crypto.randomUUID(),
-    voice_format: params.voice_format,
-    needvad: params.needvad,
-    vad_silence_time: params.vad_silence_time,
-  };
-
-  // 添加可选参数
-  if (params.hotword_id) {
-    queryParams.hotword_id = params.hotword_id;
-  }
-  if (params.filter_dirty !== undefined) {
-    queryParams.filter_dirty = params.filter_dirty;
-  }
-  if (params.filter_modal !== undefined) {
-    queryParams.filter_modal = params.filter_modal;
-  }
-  if (params.filter_punc !== undefined) {
-    queryParams.filter_punc = params.filter_punc;
-  }
-  if (params.convert_num_mode !== undefined) {
-    queryParams.convert_num_mode = params.convert_num_mode;
-  }
-  if (params.word_info !== undefined) {
-    queryParams.word_info = params.word_info;
-  }
-
-  // 按字典序排序参数
-  const sortedKeys = Object.keys(queryParams).sort();
-  const queryString = sortedKeys
-    .map(key => `${key}=${queryParams[key]}`)
-    .join('&');
-
-  // 生成签名原文
-  const signStr = `asr.cloud.tencent.com/asr/v2/${appId}?${queryString}`;
-  
-  // 计算签名
-  const signature = generateSignature(secretKey, signStr);
-  const encodedSignature = encodeURIComponent(signature);
-
-  // 生成最终 URL
-  return `wss://asr.cloud.tencent.com/asr/v2/${appId}?${queryString}&signature=${encodedSignature}`;
-}
-
-/**
- * 默认 ASR 配置
- */
-const DEFAULT_ASR_CONFIG: RealtimeAsrParams = {
-  engine_model_type: '16k_zh',  // 16k 中文模型
-  voice_format: 1,              // PCM 格式
-  needvad: 1,                   // 开启 VAD
-  vad_silence_time: 1000,       // 静音检测 1 秒
-  filter_dirty: 1,              // 过滤脏词
-  filter_modal: 2,              // 严格过滤语气词
-  filter_punc: 0,               // 保留标点
-  convert_num_mode: 1,          // 智能转换数字
-  word_info: 0,                 // 不需要词级别时间戳
-};
-
-/**
- * GET /api/asr/realtime
- * 获取腾讯云实时 ASR WebSocket URL
- */
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const appId = process.env.TENCENT_APP_ID;
-    const secretId = process.env.TENCENT_SECRET_ID;
-    const secretKey = process.env.TENCENT_SECRET_KEY;
+    const { searchParams } = new URL(request.url);
+    const engine = resolveAsrEngine(searchParams.get('language'), searchParams.get('engine'));
 
-    if (!appId || !secretId || !secretKey) {
+    if (!engine) {
       return Response.json(
-        { error: '腾讯云凭证未配置' },
+        { error: '不支持的识别引擎' },
+        { status: 400 }
+      );
+    }
+
+    const adapter = getAsrAdapter();
+    if (!adapter.isConfigured()) {
+      console.error(`ASR: ${adapter.name} 未配置`);
+      return Response.json(
+        { error: '语音识别服务未配置' },
         { status: 500 }
       );
     }
 
-    const wsUrl = generateRealtimeAsrUrl(
-      appId,
-      secretId,
-      secretKey,
-      DEFAULT_ASR_CONFIG
-    );
+    await ensureAsrProxyServer();
+
+    const token = createAsrSessionToken(engine);
+    const url = `${ASR_STREAM_PATH}?token=${encodeURIComponent(token)}`;
 
-    return Response.json({ url: wsUrl });
+    return Response.json({ url, engine });
 
   } catch (error) {
-    console.error('生成实时 ASR URL 失败:', error);
+    console.error('创建实时 ASR 会话失败:', error);
+    const message = error instanceof Error ? error.message : '未知错误';
     return Response.json(
-      { error: '生成 ASR URL 失败' },
+      { error: '创建 ASR 会话失败', details: message },
       { status: 500 }
     );
   }
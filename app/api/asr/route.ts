@@ -1,10 +1,14 @@
 import * as tencentcloud from 'tencentcloud-sdk-nodejs';
+import { resolveAsrEngine } from '@/utils/asr';
+import { isMockAsr, nextMockTranscript } from '@/lib/asr/mock';
 
 const AsrClient = tencentcloud.asr.v20190614.Client;
 
 /**
  * POST /api/asr
  * 语音识别 - 将音频转换为文字
+ *
+ * 接收：FormData { audio: File, language?: 'zh' | 'en', engine?: 'auto' | 引擎类型 }
  */
 export async function POST(request: Request) {
   try {
@@ -18,6 +22,20 @@ export async function POST(request: Request) {
       );
     }
 
+    const language = formData.get('language');
+    const engineSetting = formData.get('engine');
+    const engine = resolveAsrEngine(
+      typeof language === 'string' ? language : null,
+      typeof engineSetting === 'string' ? engineSetting : null
+    );
+
+    if (!engine) {
+      return Response.json(
+        { error: '不支持的识别引擎' },
+        { status: 400 }
+      );
+    }
+
     // 将 File 转换为 Buffer (Base64)
     const arrayBuffer = await audioFile.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
@@ -33,7 +51,12 @@ export async function POST(request: Request) {
     
     // 前端已统一转为 WAV 格式 (16kHz 单声道)
     const voiceFormat = 'wav';
-    console.log(`ASR: 收到 ${buffer.length} 字节, 格式: ${voiceFormat}`);
+    console.log(`ASR: 收到 ${buffer.length} 字节, 格式: ${voiceFormat}, 引擎: ${engine}`);
+
+    // mock 模式：返回脚本中的下一句
+    if (isMockAsr()) {
+      return Response.json({ text: nextMockTranscript(engine) });
+    }
 
     // 验证环境变量
     const secretId = process.env.TENCENT_SECRET_ID;
@@ -66,7 +89,7 @@ export async function POST(request: Request) {
     const result = await client.SentenceRecognition({
       ProjectId: 0,
       SubServiceType: 2,
-      EngSerViceType: '16k_zh',
+      EngSerViceType: engine,
       SourceType: 1,
       VoiceFormat: voiceFormat,
       UsrAudioKey: Date.now().toString(),
@@ -0,0 +1,87 @@
+import { requireAdminToken } from '@/lib/auth/admin';
+import { AvatarManifestError, isAvatarId, loadAvatarManifest } from '@/lib/avatars/manifest';
+import { avatarErrorResponse, deleteAvatar, readUploadForm, toAvatarDetail, updateAvatar } from '@/lib/avatars/upload';
+import type { AvatarManifestEntry, AvatarSaveResponse } from '@/types/avatar';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * 查找形象（包含停用的形象）
+ * @throws 形象不存在时抛出 AvatarManifestError（404）
+ */
+function findAvatar(id: string): AvatarManifestEntry {
+  const avatar = isAvatarId(id) ? loadAvatarManifest().avatars.find((item) => item.id === id) : undefined;
+  if (!avatar) throw new AvatarManifestError(`形象 ${id} 不存在`, 404);
+  return avatar;
+}
+
+function errorResponse(error: unknown, message: string): Response {
+  const response = avatarErrorResponse(error);
+  if (response) return response;
+  console.error(`${message}:`, error);
+  return Response.json(
+    { error: message, details: error instanceof Error ? error.message : String(error) },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/avatars/:id
+ * 获取单个形象（包含停用的形象、启用状态和人设），需要管理令牌
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const denied = requireAdminToken(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  try {
+    return Response.json(toAvatarDetail(findAvatar(id)));
+  } catch (error) {
+    return errorResponse(error, '获取形象失败');
+  }
+}
+
+/**
+ * PUT /api/avatars/:id
+ * 更新形象（multipart/form-data，只修改提供的字段和素材，字段见 lib/avatars/upload.ts），需要管理令牌
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const denied = requireAdminToken(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  if (!(request.headers.get('content-type') || '').includes('multipart/form-data')) {
+    return Response.json({ error: '请使用 multipart/form-data 上传素材' }, { status: 400 });
+  }
+
+  try {
+    const body: AvatarSaveResponse = await updateAvatar(id, findAvatar(id), await readUploadForm(request));
+    return Response.json(body);
+  } catch (error) {
+    return errorResponse(error, '更新形象失败');
+  }
+}
+
+/**
+ * DELETE /api/avatars/:id
+ * 删除形象及其上传的素材，需要管理令牌
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const denied = requireAdminToken(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  if (!isAvatarId(id)) {
+    return Response.json({ error: `形象 ${id} 不存在` }, { status: 404 });
+  }
+
+  try {
+    await deleteAvatar(id);
+    return Response.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, '删除形象失败');
+  }
+}
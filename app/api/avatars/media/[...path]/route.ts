@@ -0,0 +1,68 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { NextRequest } from 'next/server';
+import { resolveAvatarMediaPath } from '@/lib/avatars/media';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+};
+
+/**
+ * GET /api/avatars/media/:avatarId/:file
+ * 读取上传的形象素材（AVATAR_MEDIA_DIR），支持 Range 请求（视频拖动 / Safari 播放需要）
+ * 替换素材时地址会带上新的版本号，因此可以长期缓存
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { path: segments } = await params;
+  const filePath = resolveAvatarMediaPath(segments);
+  const contentType = filePath ? CONTENT_TYPES[path.extname(filePath)] : undefined;
+  if (!filePath || !contentType) {
+    return Response.json({ error: '素材不存在' }, { status: 404 });
+  }
+
+  let size: number;
+  try {
+    const stat = await fs.promises.stat(filePath);
+    if (!stat.isFile()) throw new Error('not a file');
+    size = stat.size;
+  } catch {
+    return Response.json({ error: '素材不存在' }, { status: 404 });
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': contentType,
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'public, max-age=31536000, immutable',
+  };
+
+  const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('range') || '');
+  if (!range || (!range[1] && !range[2])) {
+    const stream = Readable.toWeb(fs.createReadStream(filePath)) as ReadableStream;
+    return new Response(stream, { headers: { ...headers, 'Content-Length': String(size) } });
+  }
+
+  // bytes=start-end / bytes=start- / bytes=-suffix
+  const start = range[1] ? Number(range[1]) : Math.max(size - Number(range[2]), 0);
+  const end = range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+  if (start >= size || start > end) {
+    return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${size}` } });
+  }
+
+  const stream = Readable.toWeb(fs.createReadStream(filePath, { start, end })) as ReadableStream;
+  return new Response(stream, {
+    status: 206,
+    headers: {
+      ...headers,
+      'Content-Length': String(end - start + 1),
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+    },
+  });
+}
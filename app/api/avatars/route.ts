@@ -0,0 +1,58 @@
+import { requireAdminToken } from '@/lib/auth/admin';
+import { AvatarManifestError, loadAvatarManifest, toAvatarModel } from '@/lib/avatars/manifest';
+import { avatarErrorResponse, createAvatar, readUploadForm } from '@/lib/avatars/upload';
+import type { AvatarListResponse, AvatarSaveResponse } from '@/types/avatar';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/avatars
+ * 获取启用的形象列表（来自形象清单，见 lib/avatars/manifest.ts）
+ */
+export async function GET() {
+  try {
+    const manifest = loadAvatarManifest();
+    const body: AvatarListResponse = {
+      avatars: manifest.avatars.filter((avatar) => avatar.enabled).map(toAvatarModel),
+      defaultAvatarId: manifest.defaultAvatarId,
+    };
+    return Response.json(body);
+  } catch (error) {
+    if (error instanceof AvatarManifestError) {
+      return Response.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * POST /api/avatars
+ * 创建形象（multipart/form-data，字段见 lib/avatars/upload.ts）
+ * 素材保存到 AVATAR_MEDIA_DIR 并写入形象清单，talk 视频会预注册到 Wav2Lip
+ * 需要管理令牌（Authorization: Bearer <ADMIN_TOKEN>）
+ */
+export async function POST(request: Request) {
+  const denied = requireAdminToken(request);
+  if (denied) return denied;
+
+  if (!(request.headers.get('content-type') || '').includes('multipart/form-data')) {
+    return Response.json({ error: '请使用 multipart/form-data 上传素材' }, { status: 400 });
+  }
+
+  try {
+    const body: AvatarSaveResponse = await createAvatar(await readUploadForm(request));
+    return Response.json(body, { status: 201 });
+  } catch (error) {
+    const response = avatarErrorResponse(error);
+    if (response) return response;
+    console.error('创建形象失败:', error);
+    return Response.json(
+      { error: '创建形象失败', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
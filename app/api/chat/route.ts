@@ -1,14 +1,40 @@
-import { CozeAPI, ChatEventType, RoleType, COZE_COM_BASE_URL } from '@coze/api';
+import {
+  getChatProvider,
+  buildSystemPrompt,
+  getChatSession,
+  recordChatTurn,
+  setProviderConversationId,
+  ChatProviderError,
+  isAbortError,
+  classifyGesture,
+  createGestureMarkerParser,
+} from '@/lib/chat';
+import { getAvatarGestureClips, getAvatarPersona, isAvatarId } from '@/lib/avatars/manifest';
+import type { AvatarGesture } from '@/types/avatar';
 
 export const runtime = 'nodejs';
 
+/** 会话 ID 最大长度 */
+const MAX_CONVERSATION_ID_LENGTH = 64;
+
+/** 未携带会话 ID 时使用的访客标识（单轮对话） */
+const ANONYMOUS_USER_ID = 'x-mozi';
+
 /**
  * POST /api/chat
  * 流式聊天 - 与 AI 进行对话
+ * 上游由 CHAT_PROVIDER 选择（coze / openai），返回的 SSE 格式与 Provider 无关
+ *
+ * 携带 conversationId 时为多轮对话：Coze 复用 conversation_id，其他 Provider 回放历史轮次
+ * 系统提示词由服务端按 language 生成（见 lib/chat/prompts.ts），前端不可覆盖；
+ * 携带 avatarId 且形象清单中配置了 persona 时，使用该形象的人设
+ *
+ * 形象配置了动作片段时，回复中会多一个 { gesture } 事件（每轮最多一个，见 lib/chat/gestures.ts）：
+ * 模型输出标记或用户消息命中关键词时在回答内容之前下发，按回答内容分类时在回答结束后下发
  */
 export async function POST(request: Request) {
   try {
-    const { message, language, systemPrompt } = await request.json();
+    const { message, language, conversationId, avatarId } = await request.json();
 
     if (!message || typeof message !== 'string') {
       return Response.json(
@@ -17,63 +43,107 @@ export async function POST(request: Request) {
       );
     }
 
-    // 验证环境变量
-    const apiKey = process.env.COZE_API_KEY;
-    const botId = process.env.COZE_BOT_ID;
+    if (
+      conversationId !== undefined &&
+      (typeof conversationId !== 'string' ||
+        !conversationId ||
+        conversationId.length > MAX_CONVERSATION_ID_LENGTH)
+    ) {
+      return Response.json(
+        { error: '无效的会话 ID' },
+        { status: 400 }
+      );
+    }
 
-    if (!apiKey || !botId) {
-      console.error('Chat: Coze 凭证未配置');
+    if (avatarId !== undefined && !isAvatarId(avatarId)) {
       return Response.json(
-        { error: '服务配置错误' },
-        { status: 500 }
+        { error: '无效的形象 ID' },
+        { status: 400 }
       );
     }
 
-    // 初始化 Coze Client
-    const client = new CozeAPI({
-      token: apiKey,
-      baseURL: COZE_COM_BASE_URL,
-      allowPersonalAccessTokenInBrowser: false,
-    });
+    const provider = getChatProvider();
+    const chatLanguage = typeof language === 'string' ? language : undefined;
+    const persona = avatarId ? getAvatarPersona(avatarId, chatLanguage) : undefined;
+    const gestures = avatarId ? getAvatarGestureClips(avatarId) : [];
 
-    const userId = 'x-mozi';
-    const isEnglish = language === 'en';
-    const prompt = systemPrompt || 'Please respond in English.';
-    const finalMessage = isEnglish ? `${prompt}\n\n${message}` : message;
-
-    // 使用 chat.stream 接口发起对话
-    const stream = await client.chat.stream({
-      bot_id: botId,
-      user_id: userId,
-      additional_messages: [
-        {
-          role: RoleType.User,
-          content: finalMessage,
-          content_type: 'text',
-        },
-      ],
-      auto_save_history: true,
-    });
+    const session = conversationId ? getChatSession(conversationId) : null;
+
+    const iterator = provider
+      .stream({
+        message,
+        systemPrompt: buildSystemPrompt(chatLanguage, persona, gestures),
+        userId: session?.id ?? ANONYMOUS_USER_ID,
+        conversationId: session?.providerConversationId,
+        history: session ? [...session.history] : [],
+        signal: request.signal,
+      })
+      [Symbol.asyncIterator]();
+
+    // 先取首个分片：在响应头发出前出错时，可以返回对应的 HTTP 状态码
+    const first = await iterator.next();
+
+    const encoder = new TextEncoder();
+    const toSse = (content: string) =>
+      encoder.encode(`data: ${JSON.stringify({ content })}\n\n`);
+    const markers = createGestureMarkerParser(gestures);
 
     // 创建 ReadableStream 返回给前端
     const readableStream = new ReadableStream({
       async start(controller) {
+        let reply = '';
+        let gesture: AvatarGesture | null = null;
+        let hasContent = false;
+        const sendGesture = (value: AvatarGesture | null | undefined) => {
+          if (!value || gesture) return;
+          gesture = value;
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ gesture })}\n\n`));
+        };
+        const sendContent = ({ content, gesture: marked }: { content: string; gesture?: AvatarGesture }) => {
+          sendGesture(marked);
+          if (!content) return;
+          // 没有标记时按用户消息分类，仍在回答内容之前下发
+          if (!hasContent && gestures.length > 0) {
+            sendGesture(classifyGesture('message', message, gestures));
+          }
+          hasContent = true;
+          reply += content;
+          controller.enqueue(toSse(content));
+        };
+
         try {
-          for await (const part of stream) {
-            if (part.event === ChatEventType.CONVERSATION_MESSAGE_DELTA) {
-              const content = part.data.content;
-              controller.enqueue(
-                new TextEncoder().encode(`data: ${JSON.stringify({ content })}\n\n`)
-              );
+          let part = first;
+          while (!part.done) {
+            const event = part.value;
+            if (event.type === 'delta') {
+              sendContent(markers.push(event.content));
+            } else if (session) {
+              setProviderConversationId(session.id, event.id);
             }
+            part = await iterator.next();
           }
-          controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
+          sendContent(markers.flush());
+          if (gestures.length > 0) {
+            sendGesture(classifyGesture('reply', reply, gestures));
+          }
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
           controller.close();
         } catch (error) {
-          console.error('Coze 流式响应错误:', error);
-          controller.error(error);
+          if (!isAbortError(error)) {
+            console.error(`${provider.name} 流式响应错误:`, error);
+            controller.error(error);
+          }
+        } finally {
+          // 被打断时也记录已生成的部分，保证下一轮上下文连贯
+          if (session && reply) {
+            recordChatTurn(session.id, message, reply);
+          }
         }
       },
+
+      cancel() {
+        iterator.return?.();
+      },
     });
 
     return new Response(readableStream, {
@@ -85,6 +155,13 @@ export async function POST(request: Request) {
     });
 
   } catch (error) {
+    if (error instanceof ChatProviderError) {
+      console.error('Chat 错误:', error.message, error.details ?? '');
+      return Response.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
     console.error('Chat 错误:', error);
     const errorMessage = error instanceof Error ? error.message : '未知错误';
     return Response.json(
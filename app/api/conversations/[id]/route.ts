@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server';
+import { requireAdminToken } from '@/lib/auth/admin';
+import { getConversationStore, CONVERSATION_STORE_DISABLED } from '@/lib/conversations/store';
+import { transcriptResponse } from '@/lib/conversations/transcript';
+import { formatTranscript, isConversationId } from '@/utils/conversation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/conversations/:id
+ * 获取单个会话
+ *
+ * 查询参数：format: json | markdown（可选）下载对话记录
+ * 需要管理令牌
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const denied = requireAdminToken(request);
+  if (denied) return denied;
+
+  const store = getConversationStore();
+  if (!store) {
+    return Response.json(CONVERSATION_STORE_DISABLED, { status: 503 });
+  }
+
+  const { id } = await params;
+  const format = request.nextUrl.searchParams.get('format');
+  if (format !== null && format !== 'json' && format !== 'markdown') {
+    return Response.json(
+      { error: 'format 参数错误', details: '支持 json、markdown' },
+      { status: 400 }
+    );
+  }
+
+  const record = isConversationId(id) ? await store.get(id) : null;
+  if (!record) {
+    return Response.json({ error: '会话不存在' }, { status: 404 });
+  }
+
+  if (format) {
+    return transcriptResponse(formatTranscript([record], format), format, record.id);
+  }
+  return Response.json(record);
+}
+
+/**
+ * DELETE /api/conversations/:id
+ * 删除会话（需要管理令牌）
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const denied = requireAdminToken(request);
+  if (denied) return denied;
+
+  const store = getConversationStore();
+  if (!store) {
+    return Response.json(CONVERSATION_STORE_DISABLED, { status: 503 });
+  }
+
+  const { id } = await params;
+  if (!isConversationId(id) || !(await store.delete(id))) {
+    return Response.json({ error: '会话不存在' }, { status: 404 });
+  }
+  return Response.json({ success: true });
+}
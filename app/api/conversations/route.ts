@@ -0,0 +1,150 @@
+import { NextRequest } from 'next/server';
+import { requireAdminToken } from '@/lib/auth/admin';
+import { isSameOriginRequest } from '@/lib/auth/origin';
+import { getConversationStore, CONVERSATION_STORE_DISABLED } from '@/lib/conversations/store';
+import { transcriptResponse } from '@/lib/conversations/transcript';
+import { formatTranscript, parseConversationRecord, summarizeConversation } from '@/utils/conversation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** 保存请求体的最大字节数 */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+/** 写入密钥请求头 */
+const WRITE_KEY_HEADER = 'x-conversation-key';
+/** 写入密钥长度范围 */
+const WRITE_KEY_LENGTH = { min: 16, max: 128 };
+
+/**
+ * 读取请求体文本，超过 maxBytes 时中止读取并返回 null
+ * 分块传输的请求没有 Content-Length，只能按实际读到的字节数判断
+ */
+async function readBodyText(request: Request, maxBytes: number): Promise<string | null> {
+  if (!request.body) return '';
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * GET /api/conversations
+ * 列出服务端保存的会话（最近更新的在前）
+ *
+ * 查询参数：
+ * - format: json | markdown（可选）导出全部会话的对话记录
+ * - since: 时间戳（毫秒，可选）只包含该时间之后更新的会话
+ *
+ * 需要管理令牌（Authorization: Bearer <ADMIN_TOKEN>）
+ */
+export async function GET(request: NextRequest) {
+  const denied = requireAdminToken(request);
+  if (denied) return denied;
+
+  const store = getConversationStore();
+  if (!store) {
+    return Response.json(CONVERSATION_STORE_DISABLED, { status: 503 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const since = Number(searchParams.get('since')) || 0;
+  const format = searchParams.get('format');
+  if (format !== null && format !== 'json' && format !== 'markdown') {
+    return Response.json(
+      { error: 'format 参数错误', details: '支持 json、markdown' },
+      { status: 400 }
+    );
+  }
+
+  const records = (await store.list()).filter((record) => record.updatedAt >= since);
+  if (format) {
+    // 导出时按开始时间正序排列，便于阅读
+    const ordered = [...records].sort((a, b) => a.startedAt - b.startedAt);
+    return transcriptResponse(formatTranscript(ordered, format), format, 'conversations');
+  }
+
+  return Response.json({ conversations: records.map(summarizeConversation) });
+}
+
+/**
+ * POST /api/conversations
+ * 保存会话（前端同步 IndexedDB 中的会话记录，已存在则覆盖）
+ *
+ * 请求头：X-Conversation-Key 前端为每个会话生成的写入密钥，覆盖已有会话时必须与首次保存时一致
+ * 请求体：ConversationRecord
+ *
+ * 只接受页面同源请求；请求体超过 4MB 时返回 413
+ */
+export async function POST(request: Request) {
+  const store = getConversationStore();
+  if (!store) {
+    return Response.json(CONVERSATION_STORE_DISABLED, { status: 503 });
+  }
+
+  if (!isSameOriginRequest(request)) {
+    return Response.json({ error: '只接受同源请求' }, { status: 403 });
+  }
+
+  const writeKey = request.headers.get(WRITE_KEY_HEADER) ?? '';
+  if (writeKey.length < WRITE_KEY_LENGTH.min || writeKey.length > WRITE_KEY_LENGTH.max) {
+    return Response.json(
+      { error: '缺少写入密钥', details: `请求头 ${WRITE_KEY_HEADER} 长度需为 ${WRITE_KEY_LENGTH.min} ~ ${WRITE_KEY_LENGTH.max}` },
+      { status: 400 }
+    );
+  }
+
+  const tooLarge = () => Response.json(
+    { error: '会话记录过大', details: `最大 ${MAX_BODY_BYTES / 1024 / 1024}MB` },
+    { status: 413 }
+  );
+  if (Number(request.headers.get('content-length')) > MAX_BODY_BYTES) {
+    return tooLarge();
+  }
+
+  let body: unknown;
+  try {
+    const text = await readBodyText(request, MAX_BODY_BYTES);
+    if (text === null) return tooLarge();
+    body = JSON.parse(text);
+  } catch {
+    return Response.json(
+      { error: '请求体不是合法的 JSON' },
+      { status: 400 }
+    );
+  }
+
+  const record = parseConversationRecord(body);
+  if (!record) {
+    return Response.json(
+      { error: '会话记录格式错误' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!(await store.save(record, writeKey))) {
+      return Response.json(
+        { error: '写入密钥不匹配', details: '会话已由其他终端保存' },
+        { status: 403 }
+      );
+    }
+    return Response.json({ success: true });
+  } catch (error) {
+    console.error('会话保存失败:', error);
+    return Response.json(
+      { error: '会话保存失败', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,10 @@
 import { NextRequest } from 'next/server';
+import { forgetFaceFile } from '@/lib/lipsync/faces';
+import {
+  LIPSYNC_BINARY_CONTENT_TYPE,
+  encodeEventMessage,
+  encodeFrameMessage,
+} from '@/utils/lipsyncFrames';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -9,8 +15,10 @@ const WAV2LIP_BASE_URL = process.env.WAV2LIP_BASE_URL || 'http://localhost:8000'
  * 流式生成对口型帧
  * POST /api/lipsync/generate
  * 
- * 接收：FormData { face_file_id: string, audio_file_id: string, ... }
- * 返回：SSE 流，包含帧数据
+ * 接收：FormData { face_file_id: string, audio_file_id: string, transport?: 'sse' | 'binary', ... }
+ * 返回：
+ * - transport=sse（默认）：SSE 流，帧为 base64 JPEG
+ * - transport=binary：长度前缀的二进制流（见 utils/lipsyncFrames.ts），帧为原始 JPEG 字节
  */
 export async function POST(request: NextRequest) {
   try {
@@ -18,6 +26,7 @@ export async function POST(request: NextRequest) {
     
     const faceFileId = formData.get('face_file_id');
     const audioFileId = formData.get('audio_file_id');
+    const transport = formData.get('transport') === 'binary' ? 'binary' : 'sse';
     
     if (!faceFileId || !audioFileId) {
       return new Response(
@@ -51,6 +60,8 @@ export async function POST(request: NextRequest) {
     if (!response.ok) {
       const errorText = await response.text();
       console.error('Wav2Lip generate 失败:', errorText);
+      // 后端重启或清理后找不到文件，清除缓存的 file_id，下次加载形象时重新上传
+      if (response.status === 404) forgetFaceFile(faceFileId.toString());
       return new Response(
         JSON.stringify({ error: 'Wav2Lip 生成失败', details: errorText }),
         { status: response.status, headers: { 'Content-Type': 'application/json' } }
@@ -64,6 +75,16 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    if (transport === 'binary') {
+      return new Response(toBinaryStream(response.body), {
+        headers: {
+          'Content-Type': LIPSYNC_BINARY_CONTENT_TYPE,
+          'Cache-Control': 'no-cache, no-transform',
+          'X-Accel-Buffering': 'no',
+        },
+      });
+    }
+    
     // 直接转发 SSE 流
     const reader = response.body.getReader();
     
@@ -114,3 +135,64 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * 将 Wav2Lip 的 SSE 流转换为二进制帧流
+ * 帧的 base64 在服务端解码一次，浏览器直接拿到 JPEG 字节
+ */
+function toBinaryStream(body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  
+  const handleLine = (line: string, controller: ReadableStreamDefaultController<Uint8Array>) => {
+    if (!line.startsWith('data: ')) return;
+    const jsonStr = line.slice(6).trim();
+    if (!jsonStr || jsonStr === '[DONE]') return;
+    
+    try {
+      const event = JSON.parse(jsonStr);
+      if (event.type === 'frame') {
+        const jpeg = Buffer.from(event.data, 'base64');
+        controller.enqueue(encodeFrameMessage(event.index, event.progress ?? 0, jpeg));
+      } else {
+        controller.enqueue(encodeEventMessage(event));
+      }
+    } catch (e) {
+      console.error('解析 Wav2Lip 事件失败:', e);
+    }
+  };
+  
+  return new ReadableStream({
+    async start(controller) {
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          
+          if (done) {
+            if (buffer) handleLine(buffer, controller);
+            controller.close();
+            break;
+          }
+          
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          
+          for (const line of lines) {
+            handleLine(line, controller);
+          }
+        }
+      } catch (error) {
+        console.error('二进制流转换错误:', error);
+        const errorMessage = error instanceof Error ? error.message : '流式转发失败';
+        controller.enqueue(encodeEventMessage({ type: 'error', message: errorMessage }));
+        controller.close();
+      }
+    },
+    
+    cancel() {
+      reader.cancel();
+    }
+  });
+}
@@ -1,16 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { uploadFaceToWav2Lip, Wav2LipError } from '@/lib/lipsync/wav2lip';
+import { readFaceSource, registerFace } from '@/lib/lipsync/faces';
+import { isAvatarId, loadAvatarManifest } from '@/lib/avatars/manifest';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-const WAV2LIP_BASE_URL = process.env.WAV2LIP_BASE_URL || 'http://localhost:8000';
-
 /**
  * 上传人脸全身照到 Wav2Lip 后端
  * POST /api/lipsync/upload-face
  * 
- * 接收：FormData { file: File } 或 { imageUrl: string }
- * 返回：{ file_id: string }
+ * 接收：
+ * - { avatarId: string }                  注册形象清单中该形象的对口型源（服务端读取文件）
+ * - FormData { file: File, avatarId? }    上传文件；带 avatarId 时同样按形象缓存
+ * - { imageUrl: string }                  下载图片后上传（不缓存）
+ * 返回：{ file_id: string, cached?: boolean }
+ *
+ * 带 avatarId 时按「形象 ID + 内容哈希」缓存 file_id（见 lib/lipsync/faces.ts），
+ * 后端仍保留该文件时直接返回，cached 为 true
  */
 export async function POST(request: NextRequest) {
   try {
@@ -37,10 +44,36 @@ export async function POST(request: NextRequest) {
       fileName = file instanceof File ? file.name : 'avatar.mp4';
       
       console.log(`接收到文件: ${fileName}, 大小: ${fileBlob.size} bytes, 类型: ${fileBlob.type}`);
+
+      const avatarId = formData.get('avatarId');
+      if (isAvatarId(avatarId)) {
+        const { fileId, cached } = await registerFace(avatarId, {
+          bytes: new Uint8Array(arrayBuffer),
+          fileName,
+          type: fileBlob.type,
+        });
+        return NextResponse.json({ file_id: fileId, cached });
+      }
       
     } else if (contentType.includes('application/json')) {
       // 接收图片 URL，需要先下载
       const body = await request.json();
+
+      // 按形象注册：对口型源由服务端从形象清单读取
+      if (body.avatarId !== undefined) {
+        const avatar = isAvatarId(body.avatarId)
+          ? loadAvatarManifest().avatars.find((item) => item.id === body.avatarId && item.enabled)
+          : undefined;
+        if (!avatar) {
+          return NextResponse.json(
+            { error: '形象不存在或已停用' },
+            { status: 404 }
+          );
+        }
+        const { fileId, cached } = await registerFace(avatar.id, await readFaceSource(avatar.lipsyncSource));
+        return NextResponse.json({ file_id: fileId, cached });
+      }
+
       const imageUrl = body.imageUrl;
       
       if (!imageUrl) {
@@ -72,31 +105,16 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // 构建新的 FormData 转发到 Wav2Lip 后端
-    const forwardFormData = new FormData();
-    forwardFormData.append('file', fileBlob, fileName);
-    
-    console.log(`转发到 Wav2Lip: ${WAV2LIP_BASE_URL}/api/upload/face`);
-    
-    const response = await fetch(`${WAV2LIP_BASE_URL}/api/upload/face`, {
-      method: 'POST',
-      body: forwardFormData,
-    });
+    const data = await uploadFaceToWav2Lip(fileBlob, fileName);
+    return NextResponse.json(data);
     
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Wav2Lip upload-face 失败:', errorText);
+  } catch (error) {
+    if (error instanceof Wav2LipError) {
       return NextResponse.json(
-        { error: 'Wav2Lip 上传失败', details: errorText },
-        { status: response.status }
+        { error: error.message, details: error.details },
+        { status: error.status }
       );
     }
-    
-    const data = await response.json();
-    console.log('Wav2Lip 上传成功:', data);
-    return NextResponse.json(data);
-    
-  } catch (error) {
     console.error('upload-face 路由错误:', error);
     const message = error instanceof Error ? error.message : '未知错误';
     return NextResponse.json(
@@ -0,0 +1,60 @@
+import { isSameOriginRequest } from '@/lib/auth/origin';
+import {
+  allowTurnMetricsReport,
+  getTurnMetricsSnapshot,
+  parseTurnMetricsReport,
+  recordTurnMetrics,
+} from '@/lib/metrics/turns';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/metrics
+ * 上报一个轮次的延迟计时
+ *
+ * 请求体：{ outcome: 'completed' | 'interrupted' | 'error', marks: { asrFinal?: 320, chatFirstToken?: 900, ... } }
+ * marks 为相对轮次开始的毫秒数
+ * 只接受页面同源请求，并按客户端 IP 限流
+ */
+export async function POST(request: Request) {
+  if (!isSameOriginRequest(request)) {
+    return Response.json({ error: '只接受同源请求' }, { status: 403 });
+  }
+
+  const clientKey = request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+    || request.headers.get('x-real-ip')
+    || 'unknown';
+  if (!allowTurnMetricsReport(clientKey)) {
+    return Response.json({ error: '上报过于频繁' }, { status: 429 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { error: '请求体不是合法的 JSON' },
+      { status: 400 }
+    );
+  }
+
+  const report = parseTurnMetricsReport(body);
+  if (!report) {
+    return Response.json(
+      { error: '指标格式错误', details: 'outcome 或 marks 无效' },
+      { status: 400 }
+    );
+  }
+
+  recordTurnMetrics(report);
+  return Response.json({ success: true });
+}
+
+/**
+ * GET /api/metrics
+ * 查看各计时点的延迟统计（次数、均值、p50/p90/p95/p99、最大值）
+ */
+export async function GET() {
+  return Response.json(getTurnMetricsSnapshot());
+}
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  generateMockFrames,
+  getMockFile,
+  isWav2LipMockEnabled,
+  storeMockFile,
+  MockWav2LipError,
+  MAX_MOCK_UPLOAD_BYTES,
+} from '@/lib/lipsync/mock';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+/**
+ * Wav2Lip mock 后端
+ * 开发时设置 WAV2LIP_BASE_URL=http://localhost:3000/api/mock/wav2lip 即可替代 Python 服务
+ *
+ * - POST /api/mock/wav2lip/api/upload/face      FormData { file } → { file_id }
+ * - POST /api/mock/wav2lip/api/upload/audio     FormData { file } → { file_id }
+ * - POST /api/mock/wav2lip/api/generate/frames  FormData { face_file_id, audio_file_id, output_fps?, resize_factor? } → SSE
+ * - GET  /api/mock/wav2lip/api/audio/:fileId    已上传的音频
+ * - HEAD /api/mock/wav2lip/api/files/face/:fileId 人脸文件是否存在（200 / 404）
+ *
+ * 生成速度可通过 WAV2LIP_MOCK_SPEED 调整（相对实时的倍数，默认 2，0 表示不等待）
+ * 生产环境（NODE_ENV=production）默认关闭，所有请求返回 404，需要时设置 WAV2LIP_MOCK_ENABLED=true
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  if (!isWav2LipMockEnabled()) return notFound();
+  const route = (await params).path.join('/');
+
+  try {
+    switch (route) {
+      case 'api/upload/face':
+        return await handleUpload(request, 'face');
+      case 'api/upload/audio':
+        return await handleUpload(request, 'audio');
+      case 'api/generate/frames':
+        return await handleGenerate(request);
+      default:
+        return notFound();
+    }
+  } catch (error) {
+    console.error('Wav2Lip mock 错误:', error);
+    const message = error instanceof Error ? error.message : '未知错误';
+    return NextResponse.json({ detail: message }, { status: 500 });
+  }
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  if (!isWav2LipMockEnabled()) return notFound();
+  const [prefix, resource, fileId] = (await params).path;
+  const file = prefix === 'api' && resource === 'audio' && fileId ? getMockFile(fileId) : undefined;
+
+  if (!file || file.kind !== 'audio') {
+    return notFound();
+  }
+
+  return new Response(new Uint8Array(file.bytes), {
+    headers: { 'Content-Type': file.type },
+  });
+}
+
+export async function HEAD(_request: NextRequest, { params }: RouteContext) {
+  if (!isWav2LipMockEnabled()) return new Response(null, { status: 404 });
+  const [prefix, resource, kind, fileId] = (await params).path;
+  const file = prefix === 'api' && resource === 'files' && kind === 'face' && fileId ? getMockFile(fileId) : undefined;
+  return new Response(null, { status: file?.kind === 'face' ? 200 : 404 });
+}
+
+function notFound() {
+  return NextResponse.json({ detail: 'Not Found' }, { status: 404 });
+}
+
+/**
+ * 保存上传的人脸 / 音频文件
+ * 先按 Content-Length 拒绝超限请求，避免读取整个请求体
+ */
+async function handleUpload(request: NextRequest, kind: 'face' | 'audio') {
+  const maxBytes = MAX_MOCK_UPLOAD_BYTES[kind];
+  // multipart 边界和字段头另占少量字节
+  if (Number(request.headers.get('content-length')) > maxBytes + 64 * 1024) {
+    return NextResponse.json({ detail: `file too large (max ${maxBytes} bytes)` }, { status: 413 });
+  }
+
+  const formData = await request.formData();
+  const file = formData.get('file');
+
+  if (!file || !(file instanceof Blob)) {
+    return NextResponse.json({ detail: 'file is required' }, { status: 422 });
+  }
+  if (file.size > maxBytes) {
+    return NextResponse.json({ detail: `file too large (max ${maxBytes} bytes)` }, { status: 413 });
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const name = file instanceof File ? file.name : kind;
+  const fileId = storeMockFile(kind, name, file.type || 'application/octet-stream', bytes);
+
+  console.log(`🧪 Wav2Lip mock 收到${kind === 'face' ? '人脸' : '音频'}: ${name}, ${bytes.length} bytes → ${fileId}`);
+  return NextResponse.json({ file_id: fileId });
+}
+
+/**
+ * 生成合成帧（SSE）
+ */
+async function handleGenerate(request: NextRequest) {
+  const formData = await request.formData();
+  const faceFileId = formData.get('face_file_id')?.toString();
+  const audioFileId = formData.get('audio_file_id')?.toString();
+
+  if (!faceFileId || !audioFileId) {
+    return NextResponse.json({ detail: 'face_file_id and audio_file_id are required' }, { status: 422 });
+  }
+
+  const outputFps = Number(formData.get('output_fps')) || undefined;
+  const resizeFactor = Number(formData.get('resize_factor')) || undefined;
+  const speed = process.env.WAV2LIP_MOCK_SPEED !== undefined
+    ? Number(process.env.WAV2LIP_MOCK_SPEED)
+    : undefined;
+
+  const iterator = generateMockFrames({
+    faceFileId,
+    audioFileId,
+    outputFps,
+    resizeFactor,
+    speed,
+    signal: request.signal,
+  })[Symbol.asyncIterator]();
+
+  // 先取首个事件：文件不存在等错误以 HTTP 状态码返回，与真实服务一致
+  let first: IteratorResult<Record<string, unknown>>;
+  try {
+    first = await iterator.next();
+  } catch (error) {
+    if (error instanceof MockWav2LipError) {
+      return NextResponse.json({ detail: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        let part = first;
+        while (!part.done) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(part.value)}\n\n`));
+          part = await iterator.next();
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : '生成失败';
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'error', message })}\n\n`));
+      }
+      controller.close();
+    },
+
+    cancel() {
+      iterator.return?.(undefined);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import { requireAdminToken } from '@/lib/auth/admin';
+import { getTtsCache } from '@/lib/tts/cache';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/tts/cache
+ * 查看 TTS 缓存统计（命中率、条目数、占用空间）
+ */
+export async function GET() {
+  const stats = await getTtsCache().stats();
+  const lookups = stats.hits + stats.misses;
+
+  return Response.json({
+    ...stats,
+    hitRate: lookups ? stats.hits / lookups : 0,
+  });
+}
+
+/**
+ * DELETE /api/tts/cache
+ * 清空 TTS 缓存（更换音色配置后使用），需要管理令牌
+ */
+export async function DELETE(request: Request) {
+  const denied = requireAdminToken(request);
+  if (denied) return denied;
+
+  await getTtsCache().clear();
+  return Response.json({ success: true });
+}
@@ -0,0 +1,117 @@
+import { requireAdminToken } from '@/lib/auth/admin';
+import { parseVoiceParams } from '@/lib/tts/voice';
+import { cleanMarkdown, splitText } from '@/lib/tts/text';
+import { createTtsClient, synthesizeWithCache } from '@/lib/tts/synthesize';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** 单次预热的最大语句数 */
+const MAX_WARM_PHRASES = 100;
+/** 单条语句的最大字符数 */
+const MAX_PHRASE_CHARS = 500;
+/** 单次预热的最大总字符数（与 /api/tts/stream 单次请求上限一致） */
+const MAX_WARM_CHARS = 8000;
+
+/**
+ * POST /api/tts/cache/warm
+ * 预热 TTS 缓存 - 提前合成问候语、常见问题回答等固定语句
+ *
+ * 接收：{ phrases: string[], voiceType?: number, speed?: number, volume?: number, sampleRate?: number }
+ * 分段方式与 /api/tts/stream 一致，预热后流式合成可直接命中缓存
+ * 需要管理令牌（Authorization: Bearer <ADMIN_TOKEN>）
+ */
+export async function POST(request: Request) {
+  const denied = requireAdminToken(request);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ error: '请求体必须是 JSON 对象' }, { status: 400 });
+    }
+    const { phrases } = body;
+    const sampleRate = typeof body.sampleRate === 'number' ? body.sampleRate : 16000;
+    const codec = typeof body.codec === 'string' ? body.codec : 'mp3';
+
+    if (
+      !Array.isArray(phrases) ||
+      !phrases.length ||
+      !phrases.every((phrase) => typeof phrase === 'string')
+    ) {
+      return Response.json({ error: '请提供需要预热的语句列表' }, { status: 400 });
+    }
+
+    if (phrases.length > MAX_WARM_PHRASES) {
+      return Response.json(
+        { error: `语句数量超过限制 (最大 ${MAX_WARM_PHRASES} 条)` },
+        { status: 400 }
+      );
+    }
+
+    if (phrases.some((phrase: string) => phrase.length > MAX_PHRASE_CHARS)) {
+      return Response.json(
+        { error: `单条语句长度超过限制 (最大 ${MAX_PHRASE_CHARS} 字符)` },
+        { status: 400 }
+      );
+    }
+
+    const totalChars = phrases.reduce((sum: number, phrase: string) => sum + phrase.length, 0);
+    if (totalChars > MAX_WARM_CHARS) {
+      return Response.json(
+        { error: `语句总长度超过限制 (最大 ${MAX_WARM_CHARS} 字符)` },
+        { status: 400 }
+      );
+    }
+
+    const voiceParams = parseVoiceParams(body);
+    if (!voiceParams.ok) {
+      return Response.json({ error: voiceParams.error }, { status: 400 });
+    }
+    const { voiceType, speed, volume } = voiceParams.voice;
+
+    const client = createTtsClient();
+    if (!client) {
+      console.error('TTS 缓存预热: 腾讯云凭证未配置');
+      return Response.json({ error: '服务配置错误' }, { status: 500 });
+    }
+
+    let synthesized = 0;
+    let cached = 0;
+    const failed: string[] = [];
+
+    for (const phrase of phrases as string[]) {
+      const cleanedText = cleanMarkdown(phrase);
+      if (!cleanedText.trim()) continue;
+
+      try {
+        for (const chunk of splitText(cleanedText)) {
+          const result = await synthesizeWithCache(client, {
+            text: chunk,
+            voiceType,
+            speed,
+            volume,
+            codec,
+            sampleRate,
+          });
+          if (result.cached) {
+            cached++;
+          } else {
+            synthesized++;
+          }
+        }
+      } catch (error) {
+        console.error('TTS 缓存预热失败:', phrase, error);
+        failed.push(phrase);
+      }
+    }
+
+    console.log(`🔥 TTS 缓存预热完成: 新合成 ${synthesized} 段，已缓存 ${cached} 段，失败 ${failed.length} 条`);
+
+    return Response.json({ synthesized, cached, failed });
+  } catch (error) {
+    console.error('TTS 缓存预热错误:', error);
+    const message = error instanceof Error ? error.message : '未知错误';
+    return Response.json({ error: '缓存预热失败', details: message }, { status: 500 });
+  }
+}
@@ -1,4 +1,7 @@
 import * as tencentcloud from 'tencentcloud-sdk-nodejs';
+import { parseVoiceParams } from '@/lib/tts/voice';
+import { isMockTts, synthesizeWithCache, type TtsClientInstance } from '@/lib/tts/synthesize';
+import { createMockTtsClient } from '@/lib/tts/mock';
 
 const TtsClient = tencentcloud.tts.v20190823.Client;
 
@@ -8,10 +11,16 @@ const MAX_TEXT_LENGTH = 5000;
 /**
  * POST /api/tts
  * 文字转语音 - 将文本转换为音频
+ *
+ * 接收：{ text: string, voiceType?: number, speed?: number, volume?: number }
  */
 export async function POST(request: Request) {
   try {
-    const { text } = await request.json();
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ error: '请求体必须是 JSON 对象' }, { status: 400 });
+    }
+    const { text } = body;
 
     if (!text || typeof text !== 'string') {
       return Response.json(
@@ -27,11 +36,17 @@ export async function POST(request: Request) {
       );
     }
 
-    // 验证环境变量
-    const secretId = process.env.TENCENT_SECRET_ID;
-    const secretKey = process.env.TENCENT_SECRET_KEY;
+    const voiceParams = parseVoiceParams(body);
+    if (!voiceParams.ok) {
+      return Response.json(
+        { error: voiceParams.error },
+        { status: 400 }
+      );
+    }
+    const { voiceType, speed, volume } = voiceParams.voice;
 
-    if (!secretId || !secretKey) {
+    const client = isMockTts() ? createMockTtsClient() : createGuangzhouClient();
+    if (!client) {
       console.error('TTS: 腾讯云凭证未配置');
       return Response.json(
         { error: '服务配置错误' },
@@ -39,38 +54,16 @@ export async function POST(request: Request) {
       );
     }
 
-    const client = new TtsClient({
-      credential: {
-        secretId,
-        secretKey,
-      },
-      region: 'ap-guangzhou',
-      profile: {
-        signMethod: 'TC3-HMAC-SHA256',
-        httpProfile: {
-          reqMethod: 'POST',
-          reqTimeout: 30,
-          ...(process.env.TENCENT_PROXY && { proxy: process.env.TENCENT_PROXY }),
-        },
-      },
-    });
-
-    const result = await client.TextToVoice({
-      Text: text,
-      SessionId: Date.now().toString(),
-      ModelType: 1,
-      VoiceType: 101013,
-      Volume: 0,
-      Speed: 0,
-      ProjectId: 0,
-      Codec: 'mp3',
+    const { audio } = await synthesizeWithCache(client, {
+      text,
+      voiceType,
+      speed,
+      volume,
+      codec: 'mp3',
+      sampleRate: 16000,
     });
 
-    if (!result.Audio) {
-      throw new Error('未收到音频数据');
-    }
-
-    return Response.json({ audio: result.Audio });
+    return Response.json({ audio });
 
   } catch (error) {
     console.error('TTS 错误:', error);
@@ -81,3 +74,29 @@ export async function POST(request: Request) {
     );
   }
 }
+
+/**
+ * 创建腾讯云 TTS 客户端（广州地域，支持 TENCENT_PROXY），未配置凭证时返回 null
+ */
+function createGuangzhouClient(): TtsClientInstance | null {
+  const secretId = process.env.TENCENT_SECRET_ID;
+  const secretKey = process.env.TENCENT_SECRET_KEY;
+
+  if (!secretId || !secretKey) return null;
+
+  return new TtsClient({
+    credential: {
+      secretId,
+      secretKey,
+    },
+    region: 'ap-guangzhou',
+    profile: {
+      signMethod: 'TC3-HMAC-SHA256',
+      httpProfile: {
+        reqMethod: 'POST',
+        reqTimeout: 30,
+        ...(process.env.TENCENT_PROXY && { proxy: process.env.TENCENT_PROXY }),
+      },
+    },
+  });
+}
@@ -1,14 +1,10 @@
-import * as tencentcloud from 'tencentcloud-sdk-nodejs';
-import { randomUUID } from 'crypto';
-import type { TextToVoiceRequest } from 'tencentcloud-sdk-nodejs/tencentcloud/services/tts/v20190823/tts_models';
+import { parseVoiceParams } from '@/lib/tts/voice';
+import { cleanMarkdown, splitText } from '@/lib/tts/text';
+import { createTtsClient, synthesizeWithCache } from '@/lib/tts/synthesize';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-const TtsClient = tencentcloud.tts.v20190823.Client;
-
-/** 单段最大字符（SDK TextToVoice 中文上限约 150） */
-const MAX_STREAM_CHARS = 150;
 /** 请求总长限制（官方单会话 10000，这里 8000 预留） */
 const MAX_REQUEST_CHARS = 8000;
 
@@ -19,92 +15,17 @@ type StreamEvent =
   | { event: 'error'; message: string }
   | { event: 'end' };
 
-/**
- * 清理 Markdown 格式，提取纯文本用于语音合成
- * - 移除代码块、行内代码、HTML 标签
- * - 标题/列表/引用仅去掉标记，保留文本
- * - 移除 **粗体**、*斜体* 标记
- * - 移除 [链接](url) 格式，保留链接文字
- * - 图片保留 alt 文本
- * - 移除 --- 分隔线
- */
-function cleanMarkdown(text: string): string {
-  return text
-    // 移除代码块 ```...```
-    .replace(/```[\s\S]*?```/g, '')
-    // 移除行内代码 `code`
-    .replace(/`([^`]+)`/g, '$1')
-    // 移除 HTML 标签
-    .replace(/<\/?[^>]+>/g, '')
-    // 标题：移除 # 标记，保留标题文本
-    .replace(/^#{1,6}\s+/gm, '')
-    // Setext 标题下划线
-    .replace(/^\s*(=+|-+)\s*$/gm, '')
-    // 引用与列表标记
-    .replace(/^\s*>\s?/gm, '')
-    .replace(/^\s*([-*+]|(\d+\.))\s+/gm, '')
-    // 移除粗体标记 **text** 或 __text__，保留内容
-    .replace(/(\*\*|__)(.+?)\1/g, '$2')
-    // 移除斜体标记 *text* 或 _text_，保留内容（尽量避开单词内下划线）
-    .replace(/(^|[\s(])\*(?!\s)([^*\n]+?)(?<!\s)\*(?=[\s).,!?;:]|$)/g, '$1$2')
-    .replace(/(^|[\s(])_(?!\s)([^_\n]+?)(?<!\s)_(?=[\s).,!?;:]|$)/g, '$1$2')
-    // 移除图片 ![alt](url)，保留 alt 文本
-    .replace(/!\[([^\]]*)\]\([^)]+\)/g, '$1')
-    // 移除链接 [text](url)，保留链接文字
-    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
-    // 移除裸露链接
-    .replace(/https?:\/\/[^\s\]\)]+/g, '')
-    // 处理表格分隔符 |
-    .replace(/\|/g, ' ')
-    // 移除分隔线 ---
-    .replace(/^-{3,}$/gm, '')
-    // 移除多余空行（连续多个换行变成单个）
-    .replace(/\n{3,}/g, '\n\n')
-    .trim();
-}
-
-function splitText(text: string): string[] {
-  const trimmed = text.trim();
-  if (trimmed.length <= MAX_STREAM_CHARS) return [trimmed];
-
-  const sentences = trimmed.split(/(?<=[。？！!?；;])/);
-  const chunks: string[] = [];
-  let current = '';
-
-  for (const sentence of sentences) {
-    const s = sentence.trim();
-    if (!s) continue;
-
-    if (s.length > MAX_STREAM_CHARS) {
-      for (let i = 0; i < s.length; i += MAX_STREAM_CHARS) {
-        chunks.push(s.slice(i, i + MAX_STREAM_CHARS));
-      }
-      continue;
-    }
-
-    if ((current + s).length <= MAX_STREAM_CHARS) {
-      current += s;
-    } else {
-      if (current) chunks.push(current);
-      current = s;
-    }
-  }
-
-  if (current) chunks.push(current);
-  return chunks;
-}
-
 function toSse(payload: StreamEvent): string {
   return `data: ${JSON.stringify(payload)}\n\n`;
 }
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json().catch(() => ({}));
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ error: '请求体必须是 JSON 对象' }, { status: 400 });
+    }
     const text = typeof body.text === 'string' ? body.text : '';
-    const voiceType = typeof body.voiceType === 'number' ? body.voiceType : 101013;
-    const speed = typeof body.speed === 'number' ? body.speed : 0;
-    const volume = typeof body.volume === 'number' ? body.volume : 0;
     const sampleRate = typeof body.sampleRate === 'number' ? body.sampleRate : 16000;
     const codec = typeof body.codec === 'string' ? body.codec : 'mp3';
 
@@ -119,25 +40,18 @@ export async function POST(request: Request) {
       );
     }
 
-    const secretId = process.env.TENCENT_SECRET_ID;
-    const secretKey = process.env.TENCENT_SECRET_KEY;
-    const region = process.env.TENCENT_REGION || 'ap-beijing';
+    const voiceParams = parseVoiceParams(body);
+    if (!voiceParams.ok) {
+      return Response.json({ error: voiceParams.error }, { status: 400 });
+    }
+    const { voiceType, speed, volume } = voiceParams.voice;
 
-    if (!secretId || !secretKey) {
+    const client = createTtsClient();
+    if (!client) {
       console.error('TTS Streaming: 腾讯云凭证未配置');
       return Response.json({ error: '服务配置错误' }, { status: 500 });
     }
 
-    const client = new TtsClient({
-      credential: { secretId, secretKey },
-      region,
-      profile: {
-        httpProfile: {
-          endpoint: 'tts.tencentcloudapi.com',
-        },
-      },
-    });
-
     const encoder = new TextEncoder();
 
     const stream = new ReadableStream<Uint8Array>({
@@ -161,29 +75,18 @@ export async function POST(request: Request) {
             }
             const chunks = splitText(cleanedText);
 
+            // 逐段合成，常用语句命中缓存时不再调用腾讯云
             for (const chunk of chunks) {
-              const params: TextToVoiceRequest = {
-                Text: chunk,
-                SessionId: randomUUID(),
-                ModelType: 1,
-                VoiceType: voiceType,
-                Volume: volume,
-                Speed: speed,
-                ProjectId: 0,
-                Codec: codec,
-                SampleRate: sampleRate,
-              };
-
-              const result = await client.TextToVoice(params);
-
-              if (!result?.Audio) {
-                sendError('未收到音频数据');
-                return;
-              }
-
-              controller.enqueue(
-                encoder.encode(toSse({ event: 'audio', data: result.Audio as string }))
-              );
+              const { audio } = await synthesizeWithCache(client, {
+                text: chunk,
+                voiceType,
+                speed,
+                volume,
+                codec,
+                sampleRate,
+              });
+
+              controller.enqueue(encoder.encode(toSse({ event: 'audio', data: audio })));
             }
 
             controller.enqueue(encoder.encode(toSse({ event: 'end' })));
@@ -0,0 +1,24 @@
+import { DEFAULT_VOICE_TYPE, TTS_SPEED_RANGE, TTS_VOLUME_RANGE, VOICE_CATALOG } from '@/constants/tts';
+
+/**
+ * GET /api/tts/voices?language=en
+ * 获取支持的音色列表
+ *
+ * 查询参数：
+ * - language: 可选，只返回该语言的音色（zh / en）
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const language = searchParams.get('language');
+
+  const voices = language
+    ? VOICE_CATALOG.filter((voice) => voice.language === language)
+    : VOICE_CATALOG;
+
+  return Response.json({
+    voices,
+    defaultVoiceType: DEFAULT_VOICE_TYPE,
+    speedRange: TTS_SPEED_RANGE,
+    volumeRange: TTS_VOLUME_RANGE,
+  });
+}
@@ -5,16 +5,28 @@ import Image from "next/image";
 import dynamic from "next/dynamic";
 import { AvatarVideo } from "@/components/AvatarVideo";
 import { ChatPanel } from "@/components/ChatPanel";
+import { MetricsOverlay } from "@/components/MetricsOverlay";
+import { Subtitles } from "@/components/Subtitles";
 import { useVoiceInteraction } from "@/hooks/useVoiceInteraction";
 import { useWakeWord } from "@/hooks/useWakeWord";
 import { useCameraWake } from "@/hooks/useCameraWake";
+import { useBargeIn } from "@/hooks/useBargeIn";
+import { useChatHistory } from "@/hooks/useChatHistory";
 import { useAvatarStore } from "@/store/avatarStore";
 import { useChatStore } from "@/store/chatStore";
 import { useLanguageStore } from "@/store/languageStore";
 import { useWakeStore } from "@/store/wakeStore";
-import { AVATAR_LIST } from "@/types/avatar";
+import { useConversationStore, selectIsListening } from "@/store/conversationStore";
+import { useMetricsStore } from "@/store/metricsStore";
+import { useSubtitleStore } from "@/store/subtitleStore";
+import { useInputStore, selectVoiceInputEnabled, selectTextInputEnabled, type InputMode } from "@/store/inputStore";
+import { getAvatarName, type AvatarSaveResponse } from "@/types/avatar";
+import { createAvatar, deleteAvatar, setAdminToken } from "@/services/avatars";
+import { RequestError } from "@/utils/request";
 import type { VoiceButtonRef } from "@/components/VoiceButton";
-import { DEFAULT_WAKE_WORDS } from "@/constants/audio";
+import type { CapturedAudioHandoff } from "@/types/audio";
+import type { ConversationSummary, TranscriptFormat } from "@/types/chat";
+import { DEFAULT_WAKE_WORDS, DEFAULT_FOLLOW_UP_SECONDS, AUTO_RECORDING_START_TIMEOUT } from "@/constants/audio";
 import { TranslationOutlined } from "@ant-design/icons";
 
 // Dynamic import VoiceButton
@@ -29,21 +41,62 @@ if (typeof window !== 'undefined') {
     avatarStore?: typeof useAvatarStore; 
     chatStore?: typeof useChatStore;
     wakeStore?: typeof useWakeStore;
+    conversationStore?: typeof useConversationStore;
+    metricsStore?: typeof useMetricsStore;
+    inputStore?: typeof useInputStore;
   }).avatarStore = useAvatarStore;
   (window as Window & { chatStore?: typeof useChatStore }).chatStore = useChatStore;
   (window as Window & { wakeStore?: typeof useWakeStore }).wakeStore = useWakeStore;
+  (window as Window & { conversationStore?: typeof useConversationStore }).conversationStore = useConversationStore;
+  (window as Window & { metricsStore?: typeof useMetricsStore }).metricsStore = useMetricsStore;
+  (window as Window & { inputStore?: typeof useInputStore }).inputStore = useInputStore;
 }
 
 export default function Home() {
-  const { setAvatarId, currentAvatarId, action } = useAvatarStore();
+  const { setAvatarId, currentAvatarId, avatars, loadAvatars } = useAvatarStore();
   const { isProcessing, handleTextInput, interrupt } = useVoiceInteraction();
+  const { listHistory, exportConversation, exportAllConversations, clearHistory } = useChatHistory();
   const { language, toggleLanguage } = useLanguageStore();
-  const { isRecording, setIsRecording, phase } = useWakeStore();
+  const { bargeInEnabled, setBargeInEnabled, followUpSeconds, setFollowUpSeconds } = useWakeStore();
+  const conversationState = useConversationStore((state) => state.state);
+  const isListening = useConversationStore(selectIsListening);
+  const send = useConversationStore((state) => state.send);
+  const metricsOverlayVisible = useMetricsStore((state) => state.overlayVisible);
+  const voiceInputEnabled = useInputStore(selectVoiceInputEnabled);
+  const textInputEnabled = useInputStore(selectTextInputEnabled);
   const isEnglish = language === 'en';
-  const isTalking = action === 'talk';
+  const isTalking = conversationState === 'speaking';
   
   // VoiceButton ref（用于唤醒模式自动触发）
   const voiceButtonRef = useRef<VoiceButtonRef>(null);
+  // 录音是否已开始（VoiceButton 回调）
+  const isRecordingRef = useRef(false);
+
+  // 录音状态变化 - 同步到对话状态机
+  const handleRecordingChange = useCallback((isRecording: boolean) => {
+    isRecordingRef.current = isRecording;
+    if (isRecording) {
+      useSubtitleStore.getState().setUserText('');
+    }
+    send({ type: isRecording ? 'LISTEN' : 'STOP_LISTENING' });
+  }, [send]);
+
+  // 识别中间结果 - 已检测到用户语音，同步显示字幕
+  const handleInterim = useCallback((text: string) => {
+    useSubtitleStore.getState().setUserText(text);
+    send({ type: 'SPEECH' });
+  }, [send]);
+
+  // 文字输入 - 回复中发送新消息时先打断当前回复（等旧轮次退出后再提交）；正在录音时结束录音（识别结果不再提交）
+  const handleTypedInput = useCallback(async (text: string) => {
+    if (isProcessing) {
+      await interrupt();
+    }
+    handleTextInput(text);
+    if (isRecordingRef.current) {
+      voiceButtonRef.current?.stopRecording();
+    }
+  }, [isProcessing, interrupt, handleTextInput]);
 
   // 识别完成回调 - 发送给 AI
   const handleResult = useCallback((text: string) => {
@@ -51,14 +104,49 @@ export default function Home() {
     handleTextInput(text);
   }, [handleTextInput]);
 
-  // 唤醒词触发 - 自动开始录音
+  // 唤醒词触发 - 进入 wake 状态后自动开始录音（回复中或聆听中忽略）
   const handleWakeUp = useCallback(() => {
-    console.log('🎤 唤醒词触发，自动开始录音');
-    // 自动触发录音按钮
-    if (voiceButtonRef.current && !isProcessing) {
-      voiceButtonRef.current.startRecording();
+    if (send({ type: 'WAKE' })) {
+      console.log('🎤 唤醒词触发，自动开始录音');
+    }
+  }, [send]);
+
+  // 插话打断 - 打断回复并把已采集的音频交给新一轮识别
+  const handleBargeIn = useCallback((handoff: CapturedAudioHandoff) => {
+    console.log('🗣️ 用户插话，打断回复并开始识别');
+    void interrupt();
+    voiceButtonRef.current?.startRecording({ handoff });
+  }, [interrupt]);
+
+  // 插话检测（全双工模式，仅在数字人说话时监听）
+  useBargeIn({
+    enabled: voiceInputEnabled && bargeInEnabled && conversationState === 'speaking',
+    onBargeIn: handleBargeIn,
+  });
+
+  // 唤醒或继续对话时自动开始录音；录音未能开始时回到空闲（唤醒模式）
+  // 继续对话的聆听窗口内未检测到语音则结束录音，同样回到唤醒模式
+  useEffect(() => {
+    if (conversationState !== 'wake' && conversationState !== 'followUp') return;
+
+    // 仅文字输入时不录音
+    if (!voiceInputEnabled) {
+      send({ type: 'STOP_LISTENING' });
+      return;
+    }
+
+    if (conversationState === 'followUp') {
+      console.log(`👂 继续对话，聆听 ${followUpSeconds} 秒`);
+      voiceButtonRef.current?.startRecording({ noSpeechTimeout: followUpSeconds * 1000 });
+    } else {
+      voiceButtonRef.current?.startRecording();
     }
-  }, [isProcessing]);
+
+    const timer = setTimeout(() => {
+      if (!isRecordingRef.current) send({ type: 'STOP_LISTENING' });
+    }, AUTO_RECORDING_START_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [conversationState, followUpSeconds, send, voiceInputEnabled]);
 
   // 唤醒词监听（语音唤醒）
   const { isListening: isWakeListening, startListening, stopListening } = useWakeWord({
@@ -66,10 +154,17 @@ export default function Home() {
     onWakeUp: handleWakeUp,
   });
 
+  // 访客离开 - 开启新会话，下一位访客不继承上下文
+  const handleVisitorLeave = useCallback(() => {
+    console.log('👋 访客离开，开启新会话');
+    useChatStore.getState().newConversation();
+  }, []);
+
   // 摄像头人体检测唤醒（录音中或 AI 回答时禁用）
   const { isDetecting: isCameraDetecting, mediaStream: cameraStream, startDetecting, stopDetecting } = useCameraWake({
     onWakeUp: handleWakeUp,
-    disabled: isProcessing || isRecording,
+    onLeave: handleVisitorLeave,
+    disabled: isProcessing || isListening,
   });
 
   // 摄像头预览 - 使用 callback ref 确保流正确绑定
@@ -91,6 +186,25 @@ export default function Home() {
         isCameraWakeEnabled?: () => boolean;
         wake?: () => void;
         unwake?: () => void;
+        startBargeIn?: () => void;
+        stopBargeIn?: () => void;
+        startFollowUp?: (seconds?: number) => void;
+        stopFollowUp?: () => void;
+        newConversation?: () => void;
+        listHistory?: () => Promise<ConversationSummary[]>;
+        exportConversation?: (format?: TranscriptFormat, id?: string) => Promise<void>;
+        exportAllConversations?: (format?: TranscriptFormat, since?: number) => Promise<void>;
+        clearHistory?: () => Promise<void>;
+        reloadAvatars?: () => Promise<void>;
+        createAvatar?: (formData: FormData) => Promise<AvatarSaveResponse | undefined>;
+        deleteAvatar?: (id: string) => Promise<void>;
+        setAdminToken?: (token: string | null) => void;
+        setInputMode?: (mode: InputMode) => void;
+        setOnScreenKeyboard?: (enabled: boolean) => void;
+        showSubtitles?: () => void;
+        hideSubtitles?: () => void;
+        showMetrics?: () => void;
+        hideMetrics?: () => void;
       };
 
       // 语音唤醒控制
@@ -126,8 +240,119 @@ export default function Home() {
         stopDetecting();
         console.log('🛑 已关闭所有唤醒');
       };
+
+      // 插话打断控制
+      win.startBargeIn = () => {
+        setBargeInEnabled(true);
+        console.log('🗣️ 插话打断已开启，数字人说话时直接说话即可打断');
+      };
+      win.stopBargeIn = () => {
+        setBargeInEnabled(false);
+        console.log('🗣️ 插话打断已关闭');
+      };
+
+      // 继续对话控制
+      win.startFollowUp = (seconds = DEFAULT_FOLLOW_UP_SECONDS) => {
+        setFollowUpSeconds(seconds);
+        console.log(`👂 继续对话已开启，回复结束后聆听 ${seconds} 秒`);
+      };
+      win.stopFollowUp = () => {
+        setFollowUpSeconds(0);
+        console.log('👂 继续对话已关闭');
+      };
+
+      // 会话控制
+      win.newConversation = () => {
+        useChatStore.getState().newConversation();
+        console.log('💬 已开启新会话');
+      };
+
+      // 对话历史（IndexedDB）
+      win.listHistory = async () => {
+        const list = await listHistory();
+        console.table(list.map((item) => ({
+          ...item,
+          startedAt: new Date(item.startedAt).toLocaleString(),
+          updatedAt: new Date(item.updatedAt).toLocaleString(),
+        })));
+        return list;
+      };
+      win.exportConversation = exportConversation;
+      win.exportAllConversations = exportAllConversations;
+      win.clearHistory = async () => {
+        await clearHistory();
+        console.log('🗑️ 本地对话历史已清空');
+      };
+
+      // 形象清单（修改清单文件后重新加载，无需刷新页面）
+      win.reloadAvatars = () => loadAvatars();
+      // 形象管理（素材要求见 lib/avatars/media.ts，需要管理令牌）
+      win.setAdminToken = (token) => {
+        setAdminToken(token);
+        console.log(token ? '🔑 管理令牌已设置（关闭标签页后失效）' : '🔑 管理令牌已清除');
+      };
+      win.createAvatar = async (formData) => {
+        try {
+          const result = await createAvatar(formData);
+          await loadAvatars();
+          console.log(`🧑 形象 ${result.avatar.id} 已创建${result.avatar.enabled ? '，可在形象列表中选择' : '（未启用）'}`);
+          if (result.lipsync && !result.lipsync.registered) {
+            console.warn('⚠️ 对口型预注册失败（切换到该形象时会重新上传）:', result.lipsync.error);
+          }
+          return result;
+        } catch (error) {
+          console.error('创建形象失败:', error instanceof RequestError ? error.details || error.message : error);
+        }
+      };
+      win.deleteAvatar = async (id) => {
+        try {
+          await deleteAvatar(id);
+          await loadAvatars();
+          console.log(`🗑️ 形象 ${id} 已删除`);
+        } catch (error) {
+          console.error('删除形象失败:', error);
+        }
+      };
+
+      // 输入方式
+      win.setInputMode = (mode) => {
+        useInputStore.getState().setInputMode(mode);
+        console.log(`⌨️ 输入方式: ${useInputStore.getState().inputMode}`);
+      };
+      win.setOnScreenKeyboard = (enabled) => {
+        useInputStore.getState().setOnScreenKeyboard(enabled);
+        console.log(`⌨️ 屏幕键盘已${enabled ? '开启' : '关闭'}`);
+      };
+
+      // 字幕
+      win.showSubtitles = () => {
+        useSubtitleStore.getState().setEnabled(true);
+        console.log('💬 字幕已显示');
+      };
+      win.hideSubtitles = () => {
+        useSubtitleStore.getState().setEnabled(false);
+        console.log('💬 字幕已隐藏');
+      };
+
+      // 延迟调试浮层
+      win.showMetrics = () => {
+        useMetricsStore.getState().setOverlayVisible(true);
+        console.log('⏱️ 延迟浮层已显示');
+      };
+      win.hideMetrics = () => {
+        useMetricsStore.getState().setOverlayVisible(false);
+        console.log('⏱️ 延迟浮层已隐藏');
+      };
     }
-  }, [startListening, stopListening, isWakeListening, startDetecting, stopDetecting, isCameraDetecting]);
+  }, [startListening, stopListening, isWakeListening, startDetecting, stopDetecting, isCameraDetecting, setBargeInEnabled, setFollowUpSeconds, listHistory, exportConversation, exportAllConversations, clearHistory, loadAvatars]);
+
+  // 加载形象清单（回到页面时重新加载，其他地方新增的形象无需刷新即可选择）
+  useEffect(() => {
+    loadAvatars();
+    const handleFocus = () => loadAvatars();
+    window.addEventListener('focus', handleFocus);
+    return () => window.removeEventListener('focus', handleFocus);
+  }, [loadAvatars]);
 
   // Log console usage hint on mount
   useEffect(() => {
@@ -144,7 +369,42 @@ export default function Home() {
 📷 摄像头唤醒:
   startCameraWake()      // 开启
   stopCameraWake()       // 关闭
-  检测到人持续 2 秒后唤醒
+  检测到人持续 2 秒后唤醒，离开 10 秒后开启新会话
+
+🗣️ 插话打断（全双工）:
+  startBargeIn()         // 开启，数字人说话时直接说话即可打断
+  stopBargeIn()          // 关闭
+
+👂 继续对话:
+  startFollowUp(8)       // 开启，回复结束后自动聆听 8 秒，未说话则回到唤醒模式
+  stopFollowUp()         // 关闭
+
+💬 会话:
+  newConversation()      // 开启新会话（清空上下文）
+
+💾 对话历史（自动保存到本地，服务端设置 CONVERSATION_STORE 后同步到 /api/conversations）:
+  listHistory()                          // 列出本地保存的会话
+  exportConversation('markdown', id?)    // 导出会话（默认当前会话，格式 markdown | json）
+  exportAllConversations('json', since?) // 导出全部会话（since: 时间戳，只导出之后更新的）
+  clearHistory()                         // 清空本地历史
+
+🧑 形象:
+  reloadAvatars()           // 重新加载形象清单（config/avatars.json）
+  setAdminToken('token')    // 设置管理令牌（与服务端 ADMIN_TOKEN 一致，创建 / 删除形象前需要）
+  createAvatar(formData)    // 上传新形象（FormData: id, name, idle/think/talk/dance 视频, thumbnail 缩略图）
+  deleteAvatar(id)          // 删除形象及其上传的素材
+
+⌨️ 输入方式（默认值见 NEXT_PUBLIC_INPUT_MODE / NEXT_PUBLIC_ON_SCREEN_KEYBOARD）:
+  setInputMode('both')      // voice 仅语音 | text 仅文字 | both 语音 + 文字
+  setOnScreenKeyboard(true) // 触屏一体机使用屏幕键盘
+
+📝 字幕:
+  showSubtitles()        // 显示字幕（默认开启：聆听时显示识别文本，回答时显示当前句子）
+  hideSubtitles()        // 隐藏
+
+⏱️ 延迟指标:
+  showMetrics()          // 显示延迟浮层（各计时点及服务端分位数，也可访问 /api/metrics）
+  hideMetrics()          // 隐藏
     `);
   }, []);
 
@@ -169,19 +429,22 @@ export default function Home() {
         </div>
       )}
 
+      {/* 延迟调试浮层 */}
+      {metricsOverlayVisible && <MetricsOverlay />}
+
       {/* 顶部主体区域 */}
       <div className="flex flex-1 w-full overflow-hidden">
         {/* 左侧区域：智能体展示 (约66%) */}
         <section className="flex flex-col flex-2 h-full border-r border-border relative">
           {/* 左上角状态提示 */}
-          {phase !== 'idle' && (
+          {(conversationState === 'thinking' || conversationState === 'speaking') && (
             <div className="absolute top-4 left-4 z-40">
               <div className={`px-4 py-2 rounded-full backdrop-blur-sm flex items-center gap-2 ${
-                phase === 'thinking' 
+                conversationState === 'thinking' 
                   ? 'bg-primary/80 text-primary-foreground' 
                   : 'bg-success/80 text-success-foreground'
               }`}>
-                {phase === 'thinking' ? (
+                {conversationState === 'thinking' ? (
                   <>
                     <span className="animate-pulse">●</span>
                     <span className="text-sm font-medium">正在思考...</span>
@@ -196,10 +459,21 @@ export default function Home() {
             </div>
           )}
 
+          {/* 继续对话聆听提示 */}
+          {conversationState === 'followUp' && (
+            <div className="absolute top-4 left-4 z-40">
+              <div className="px-4 py-2 rounded-full backdrop-blur-sm flex items-center gap-2 bg-overlay-bg text-foreground border border-white/60">
+                <span className="animate-pulse">●</span>
+                <span className="text-sm font-medium">正在聆听，请继续说...</span>
+              </div>
+            </div>
+          )}
+
           {/* 视频播放容器 - 自适应剩余空间 */}
           <div className="flex-1 w-full flex items-center justify-center overflow-hidden min-h-0 mb-4">
             <div className="relative h-full aspect-9/16">
                <AvatarVideo />
+               <Subtitles />
             </div>
           </div>
 
@@ -207,7 +481,7 @@ export default function Home() {
           <div className="absolute inset-0 z-30 pointer-events-none" style={{ overflow: "visible" }}>
             <div className="absolute left-0 right-0 top-1/2 -translate-y-1/2 flex items-start justify-between px-4 sm:px-6 md:px-10 gap-6">
               <div className="pointer-events-auto flex flex-col gap-2 overflow-y-auto max-h-[70vh] w-24 scrollbar-none p-1 shrink-0">
-                {AVATAR_LIST.map((avatar) => (
+                {avatars.map((avatar) => (
                   <button
                     key={avatar.id}
                     onClick={() => setAvatarId(avatar.id)}
@@ -216,14 +490,14 @@ export default function Home() {
                         ? 'border-primary opacity-100 scale-105 ring-2 ring-primary/30' 
                         : 'border-muted-foreground opacity-60 hover:opacity-100'
                     }`}
-                    title={avatar.name}
+                    title={getAvatarName(avatar, language)}
                   >
                     <div className="absolute inset-0 bg-secondary-foreground flex items-center justify-center text-[10px] text-muted font-medium p-1 text-center leading-tight">
-                      {avatar.name}
+                      {getAvatarName(avatar, language)}
                     </div>
                     <Image 
                       src={avatar.thumbnail} 
-                      alt={avatar.name} 
+                      alt={getAvatarName(avatar, language)} 
                       fill
                       sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
                       className="absolute inset-0 w-full h-full object-cover"
@@ -253,18 +527,21 @@ export default function Home() {
                   <span className="text-xs text-overlay-text">跳舞</span>
                 </div>
 
-                <div className="flex flex-col items-center gap-1" style={{ overflow: "visible" }}>
-                  <VoiceButton 
-                    ref={voiceButtonRef}
-                    onResult={handleResult}
-                    isProcessing={isProcessing}
-                    onRecordingChange={setIsRecording}
-                    onInterrupt={interrupt}
-                  />
-                  <span className="text-xs text-overlay-text">
-                    {isProcessing ? '点击打断' : '点击说话'}
-                  </span>
-                </div>
+                {voiceInputEnabled && (
+                  <div className="flex flex-col items-center gap-1" style={{ overflow: "visible" }}>
+                    <VoiceButton 
+                      ref={voiceButtonRef}
+                      onResult={handleResult}
+                      isProcessing={isProcessing}
+                      onInterim={handleInterim}
+                      onRecordingChange={handleRecordingChange}
+                      onInterrupt={interrupt}
+                    />
+                    <span className="text-xs text-overlay-text">
+                      {isProcessing ? (bargeInEnabled ? '说话或点击打断' : '点击打断') : '点击说话'}
+                    </span>
+                  </div>
+                )}
 
                 <div className="flex flex-col items-center gap-1">
                   <button
@@ -287,10 +564,14 @@ export default function Home() {
           </div>
         </section>
 
-        {/* 右侧区域：对话交互 (约33%) */}
-        {false && (
+        {/* 右侧区域：对话交互 (约33%)，仅语音模式下隐藏 */}
+        {textInputEnabled && (
           <section className="flex flex-col flex-1 h-full bg-white relative border-l border-gray-100">
-            <ChatPanel />
+            <ChatPanel
+              onSubmit={handleTypedInput}
+              isProcessing={isProcessing}
+              onInterrupt={interrupt}
+            />
           </section>
         )}
       </div>
@@ -1,22 +1,23 @@
 "use client";
 
 import { useCallback, useEffect, useRef } from "react";
-import { useAvatarStore } from "@/store/avatarStore";
-import { AVATAR_LIST } from "@/types/avatar";
-import { uploadFaceImage } from "@/services/lipsync";
+import { useAvatarStore, selectCurrentAvatar } from "@/store/avatarStore";
+import { useConversationStore } from "@/store/conversationStore";
+import { registerAvatarFace } from "@/services/lipsync";
+import { getAvatarGestures, isAvatarGesture, type AvatarGesture } from "@/types/avatar";
 import styles from "./style.module.css";
 
 /**
  * Avatar 视频播放组件
- * 根据当前状态（idle/talk/dance/think）播放对应视频
+ * 根据对话状态（思考中 think、回答中 talk）或 avatarStore 的动作（idle/dance）播放对应视频
  * 当 action = 'talk' 且 lipsync 启用时，显示 Canvas 渲染对口型帧
+ * 动作片段（greet / nod / laugh 等，由 useVoiceInteraction 按回复安排）优先于思考和对口型过渡画面，播放一次后回到 idle
  * 
  * 使用多个预加载的 video 元素，通过 CSS visibility 切换，避免重新加载导致的闪烁
  */
 export function AvatarVideo() {
   const { 
-    currentAvatarId, 
-    action, 
+    action: avatarAction, 
     setAction,
     lipsyncEnabled,
     lipsyncMode,
@@ -28,9 +29,21 @@ export function AvatarVideo() {
   const idleVideoRef = useRef<HTMLVideoElement>(null);
   const thinkVideoRef = useRef<HTMLVideoElement>(null);
   const danceVideoRef = useRef<HTMLVideoElement>(null);
+  const gestureVideoRefs = useRef<Partial<Record<AvatarGesture, HTMLVideoElement | null>>>({});
   
-  // 获取当前形象数据
-  const currentAvatar = AVATAR_LIST.find((a) => a.id === currentAvatarId) || AVATAR_LIST[0];
+  const conversationState = useConversationStore((state) => state.state);
+
+  // 获取当前形象数据（形象列表加载前为 null）
+  const currentAvatar = useAvatarStore(selectCurrentAvatar);
+  const currentAvatarId = currentAvatar?.id;
+  const gestures = getAvatarGestures(currentAvatar);
+
+  // 动作片段优先，其次是对话状态，其余时间使用手动设置的动作（如跳舞）
+  const action =
+    isAvatarGesture(avatarAction) && gestures.includes(avatarAction) ? avatarAction :
+    conversationState === 'thinking' ? 'think' :
+    conversationState === 'speaking' ? 'talk' :
+    avatarAction;
   
   // 当 action='talk' 但 lipsync 未在播放时，使用 think 视频作为过渡（避免句子间隙闪烁）
   const effectiveAction = (action === 'talk' && lipsyncEnabled && lipsyncMode !== 'playing') 
@@ -40,7 +53,7 @@ export function AvatarVideo() {
   // 是否显示 Canvas（talk 状态且 lipsync 启用且正在播放）
   const showCanvas = action === 'talk' && lipsyncEnabled && lipsyncMode === 'playing';
 
-  // 处理 dance 视频结束事件
+  // 处理 dance / 动作片段视频结束事件
   const handleDanceEnded = useCallback(() => {
     setAction("idle");
   }, [setAction]);
@@ -50,36 +63,48 @@ export function AvatarVideo() {
     console.error(`视频加载失败: ${videoType}`);
   }, []);
 
+  // 动作片段加载失败时回到 idle（不阻塞等待片段结束的回复）
+  const handleGestureError = useCallback((gesture: AvatarGesture) => {
+    console.error(`视频加载失败: ${gesture}`);
+    if (useAvatarStore.getState().action === gesture) setAction("idle");
+  }, [setAction]);
+
   // 当 effectiveAction 变化时，确保对应视频从头播放
   useEffect(() => {
     const videoRef = 
       effectiveAction === 'idle' ? idleVideoRef :
       effectiveAction === 'think' ? thinkVideoRef :
       effectiveAction === 'dance' ? danceVideoRef : null;
+    const video = videoRef?.current ??
+      (isAvatarGesture(effectiveAction) ? gestureVideoRefs.current[effectiveAction] : null);
     
-    if (videoRef?.current && !showCanvas) {
+    if (video && !showCanvas) {
       // 重置到开头并播放
-      videoRef.current.currentTime = 0;
-      videoRef.current.play().catch(() => {
+      video.currentTime = 0;
+      video.play().catch(() => {
         // 自动播放可能被阻止，忽略错误
       });
     }
   }, [effectiveAction, showCanvas]);
 
-  // 应用启动或 avatar 切换时，自动上传人脸文件（视频）用于对口型
+  // 应用启动或 avatar 切换时注册人脸文件用于对口型（服务端已注册过时直接复用，不重新上传）
   useEffect(() => {
-    if (lipsyncEnabled && currentAvatarId && !faceFileId) {
-      console.log('上传 avatar 人脸视频:', currentAvatar.faceImage);
-      uploadFaceImage(currentAvatar.faceImage)
-        .then(fileId => {
-          console.log('人脸视频上传成功:', fileId);
-          setFaceFileId(fileId);
-        })
-        .catch(err => {
-          console.error('上传人脸视频失败:', err);
-        });
-    }
-  }, [currentAvatarId, lipsyncEnabled, faceFileId, currentAvatar.faceImage, setFaceFileId]);
+    if (!lipsyncEnabled || !currentAvatarId || faceFileId) return;
+
+    // 注册完成前切换了形象时丢弃结果
+    let cancelled = false;
+    console.log('注册 avatar 人脸文件:', currentAvatarId);
+    registerAvatarFace(currentAvatarId)
+      .then(fileId => {
+        if (!cancelled) setFaceFileId(fileId);
+      })
+      .catch(err => {
+        console.error('注册人脸文件失败:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [lipsyncEnabled, faceFileId, currentAvatarId, setFaceFileId]);
 
   // 判断某个视频是否应该显示
   const isVideoVisible = (videoAction: string) => {
@@ -91,7 +116,7 @@ export function AvatarVideo() {
       {/* idle 视频 - 预加载，循环播放 */}
       <video
         ref={idleVideoRef}
-        src={currentAvatar.videos.idle}
+        src={currentAvatar?.videos.idle}
         className={`${styles.video} ${isVideoVisible('idle') ? '' : styles.hidden}`}
         autoPlay
         loop
@@ -103,7 +128,7 @@ export function AvatarVideo() {
       {/* think 视频 - 预加载，循环播放 */}
       <video
         ref={thinkVideoRef}
-        src={currentAvatar.videos.think}
+        src={currentAvatar?.videos.think}
         className={`${styles.video} ${isVideoVisible('think') ? '' : styles.hidden}`}
         autoPlay
         loop
@@ -115,13 +140,30 @@ export function AvatarVideo() {
       {/* dance 视频 - 预加载，不循环，播放完切回 idle */}
       <video
         ref={danceVideoRef}
-        src={currentAvatar.videos.dance}
+        src={currentAvatar?.videos.dance}
         className={`${styles.video} ${isVideoVisible('dance') ? '' : styles.hidden}`}
         autoPlay
         playsInline
         onEnded={handleDanceEnded}
         onError={() => handleError('dance')}
       />
+
+      {/* 动作片段 - 仅渲染形象配置了的片段，不循环，播放完切回 idle */}
+      {gestures.map((gesture) => (
+        <video
+          key={gesture}
+          ref={(element) => {
+            gestureVideoRefs.current[gesture] = element;
+          }}
+          src={currentAvatar?.videos[gesture]}
+          className={`${styles.video} ${isVideoVisible(gesture) ? '' : styles.hidden}`}
+          preload="auto"
+          playsInline
+          muted
+          onEnded={handleDanceEnded}
+          onError={() => handleGestureError(gesture)}
+        />
+      ))}
       
       {/* Canvas 元素：用于 lip-sync 实时渲染 */}
       <canvas
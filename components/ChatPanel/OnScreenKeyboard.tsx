@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+
+interface OnScreenKeyboardProps {
+  /** 输入字符 */
+  onInput: (text: string) => void;
+  /** 删除一个字符 */
+  onBackspace: () => void;
+  /** 发送 */
+  onEnter: () => void;
+}
+
+/** 字母数字按键（英文输入；中文需系统输入法，触屏一体机可配合手写/拼音外设） */
+const KEY_ROWS = [
+  ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0'],
+  ['q', 'w', 'e', 'r', 't', 'y', 'u', 'i', 'o', 'p'],
+  ['a', 's', 'd', 'f', 'g', 'h', 'j', 'k', 'l'],
+  ['z', 'x', 'c', 'v', 'b', 'n', 'm'],
+];
+
+/** 常用标点 */
+const PUNCTUATION_KEYS = ['，', '。', '？', '！', ',', '.', '?'];
+
+const KEY_CLASS = 'h-10 min-w-8 flex-1 rounded-md bg-white border border-gray-200 text-sm text-gray-800 active:bg-gray-100 select-none';
+
+/**
+ * 屏幕键盘（触屏一体机）
+ * 按键使用 onPointerDown 并阻止默认行为，避免输入框失焦
+ */
+export function OnScreenKeyboard({ onInput, onBackspace, onEnter }: OnScreenKeyboardProps) {
+  const [upperCase, setUpperCase] = useState(false);
+
+  const press = (handler: () => void) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    handler();
+  };
+
+  return (
+    <div className="flex flex-col gap-1.5 p-2 bg-gray-100 rounded-lg">
+      {KEY_ROWS.map((row, i) => (
+        <div key={i} className="flex gap-1.5 justify-center">
+          {row.map((key) => {
+            const char = upperCase ? key.toUpperCase() : key;
+            return (
+              <button key={key} type="button" className={KEY_CLASS} onPointerDown={press(() => onInput(char))}>
+                {char}
+              </button>
+            );
+          })}
+        </div>
+      ))}
+      <div className="flex gap-1.5 justify-center">
+        {PUNCTUATION_KEYS.map((key) => (
+          <button key={key} type="button" className={KEY_CLASS} onPointerDown={press(() => onInput(key))}>
+            {key}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1.5">
+        <button
+          type="button"
+          className={`${KEY_CLASS} max-w-16 ${upperCase ? 'bg-primary/20' : ''}`}
+          onPointerDown={press(() => setUpperCase((value) => !value))}
+        >
+          ⇧
+        </button>
+        <button type="button" className={`${KEY_CLASS} flex-4`} onPointerDown={press(() => onInput(' '))}>
+          空格
+        </button>
+        <button type="button" className={`${KEY_CLASS} max-w-16`} onPointerDown={press(onBackspace)}>
+          ⌫
+        </button>
+        <button
+          type="button"
+          className={`${KEY_CLASS} max-w-20 bg-primary! text-primary-foreground!`}
+          onPointerDown={press(onEnter)}
+        >
+          发送
+        </button>
+      </div>
+    </div>
+  );
+}
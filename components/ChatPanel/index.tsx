@@ -1,13 +1,27 @@
 "use client";
 
+import { useState } from "react";
 import { useChatStore } from "@/store/chatStore";
-import { Bubble, Welcome } from "@ant-design/x";
+import { useInputStore } from "@/store/inputStore";
+import { Bubble, Sender, Welcome } from "@ant-design/x";
 import { GetProp } from "antd";
+import { OnScreenKeyboard } from "./OnScreenKeyboard";
 // 定义 Bubble.List 需要的 items 类型
 type BubbleListProps = GetProp<typeof Bubble.List, "items">;
 
-export function ChatPanel() {
+interface ChatPanelProps {
+  /** 发送文字消息（回复中发送时由调用方先打断当前回复） */
+  onSubmit: (text: string) => void;
+  /** 是否正在处理（AI 回复中） */
+  isProcessing?: boolean;
+  /** 打断回复回调（回复中点击停止按钮触发） */
+  onInterrupt?: () => void;
+}
+
+export function ChatPanel({ onSubmit, isProcessing = false, onInterrupt }: ChatPanelProps) {
   const { messages } = useChatStore();
+  const onScreenKeyboard = useInputStore((state) => state.onScreenKeyboard);
+  const [value, setValue] = useState('');
 
   // 将 store 中的消息转换为 Bubble.List 需要的格式
   const items: BubbleListProps = messages.map((msg) => ({
@@ -18,6 +32,12 @@ export function ChatPanel() {
     loading: msg.status === 'loading',
   }));
 
+  const submit = (text: string) => {
+    if (!text.trim()) return;
+    onSubmit(text.trim());
+    setValue('');
+  };
+
   return (
     <div className="flex flex-col h-full w-full bg-gray-50">
         {/* 如果没有消息，显示 Welcome */}
@@ -38,6 +58,27 @@ export function ChatPanel() {
                 // Bubble.List 内部会自动处理滚动
             />
         </div>
+
+        {/* 文字输入：回复中输入框为空时显示停止按钮，输入新消息发送即打断当前回复 */}
+        <div className="flex flex-col gap-2 p-4 border-t border-gray-100 bg-white">
+            <Sender
+                value={value}
+                onChange={setValue}
+                onSubmit={submit}
+                loading={isProcessing && !value.trim()}
+                onCancel={onInterrupt}
+                // 使用屏幕键盘时禁止唤起系统键盘
+                readOnly={onScreenKeyboard}
+                placeholder={isProcessing ? '输入新问题可打断当前回答' : '输入你的问题'}
+            />
+            {onScreenKeyboard && (
+                <OnScreenKeyboard
+                    onInput={(text) => setValue((prev) => prev + text)}
+                    onBackspace={() => setValue((prev) => Array.from(prev).slice(0, -1).join(''))}
+                    onEnter={() => submit(value)}
+                />
+            )}
+        </div>
     </div>
   );
 }
@@ -0,0 +1,120 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useMetricsStore } from "@/store/metricsStore";
+import { getTurnMetrics } from "@/services/metrics";
+import { TURN_MARKS, TURN_MARK_LABELS } from "@/constants/metrics";
+import type { TurnMetricsSnapshot, TurnOutcome, TurnTiming } from "@/types/metrics";
+
+const OUTCOME_LABELS: Record<TurnOutcome, string> = {
+  completed: '完成',
+  interrupted: '打断',
+  error: '出错',
+};
+
+function formatMs(value?: number) {
+  return value === undefined ? '-' : `${value}ms`;
+}
+
+/**
+ * 轮次延迟调试浮层
+ * 显示当前/最近轮次的各计时点，以及服务端统计的分位数
+ */
+export function MetricsOverlay() {
+  const { currentTurn, recentTurns, setOverlayVisible } = useMetricsStore();
+  const [snapshot, setSnapshot] = useState<TurnMetricsSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSnapshot(await getTurnMetrics());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '获取统计失败');
+    }
+  }, []);
+
+  // 打开时及每轮结束后刷新服务端统计（上报是异步的，稍等片刻）
+  useEffect(() => {
+    const timer = setTimeout(refresh, 500);
+    return () => clearTimeout(timer);
+  }, [refresh, recentTurns]);
+
+  const turn: TurnTiming | undefined = currentTurn ?? recentTurns[0];
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 max-h-[80vh] overflow-y-auto rounded-lg bg-black/80 text-white text-xs font-mono shadow-lg p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-sans font-medium">⏱️ 轮次延迟</span>
+        <div className="flex gap-2">
+          <button className="hover:text-primary" onClick={refresh}>刷新</button>
+          <button className="hover:text-primary" onClick={() => setOverlayVisible(false)}>关闭</button>
+        </div>
+      </div>
+
+      {/* 当前（或最近一个）轮次 */}
+      <div>
+        <div className="text-white/60 mb-1">
+          {currentTurn ? '当前轮次' : '上一轮次'}
+          {turn?.outcome && ` · ${OUTCOME_LABELS[turn.outcome]}`}
+        </div>
+        {turn ? (
+          TURN_MARKS.map((mark) => (
+            <div key={mark} className="flex justify-between">
+              <span>{TURN_MARK_LABELS[mark]}</span>
+              <span>{formatMs(turn.marks[mark])}</span>
+            </div>
+          ))
+        ) : (
+          <div className="text-white/60">暂无数据</div>
+        )}
+      </div>
+
+      {/* 服务端统计 */}
+      <div>
+        <div className="text-white/60 mb-1">
+          服务端统计{snapshot && ` · ${snapshot.turns} 轮（完成 ${snapshot.outcomes.completed} / 打断 ${snapshot.outcomes.interrupted} / 出错 ${snapshot.outcomes.error}）`}
+        </div>
+        {error && <div className="text-red-400">{error}</div>}
+        {snapshot && (
+          <table className="w-full">
+            <thead className="text-white/60">
+              <tr>
+                <th className="text-left font-normal">计时点</th>
+                <th className="text-right font-normal">p50</th>
+                <th className="text-right font-normal">p90</th>
+                <th className="text-right font-normal">p99</th>
+              </tr>
+            </thead>
+            <tbody>
+              {TURN_MARKS.map((mark) => {
+                const summary = snapshot.marks[mark];
+                return (
+                  <tr key={mark}>
+                    <td>{TURN_MARK_LABELS[mark]}</td>
+                    <td className="text-right">{formatMs(summary?.p50)}</td>
+                    <td className="text-right">{formatMs(summary?.p90)}</td>
+                    <td className="text-right">{formatMs(summary?.p99)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* 最近轮次 */}
+      {recentTurns.length > 1 && (
+        <div>
+          <div className="text-white/60 mb-1">最近轮次（开始播放 / 轮次结束）</div>
+          {recentTurns.slice(1, 6).map((recent) => (
+            <div key={recent.id} className="flex justify-between">
+              <span>{new Date(recent.startedAt).toLocaleTimeString()} {recent.outcome && OUTCOME_LABELS[recent.outcome]}</span>
+              <span>{formatMs(recent.marks.playbackStart)} / {formatMs(recent.marks.turnEnd)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
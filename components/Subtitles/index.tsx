@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useSubtitleStore } from "@/store/subtitleStore";
+import { useConversationStore, selectIsListening } from "@/store/conversationStore";
+
+/** 高亮用的分词：英文按单词，其他按单字；空白和标点不占时长 */
+const TOKEN_PATTERN = /\s+|[A-Za-z0-9'’-]+|./gu;
+const SILENT_TOKEN = /^[\s\p{P}]+$/u;
+
+interface SubtitleToken {
+  text: string;
+  /** 该词开始的位置（占全句时长的比例） */
+  start: number;
+}
+
+/**
+ * 按字数估算每个词在句中的时间位置
+ */
+function tokenize(text: string): SubtitleToken[] {
+  const parts = text.match(TOKEN_PATTERN) ?? [];
+  const weights = parts.map((part) => (SILENT_TOKEN.test(part) ? 0 : part.length));
+  const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+
+  let elapsed = 0;
+  return parts.map((part, i) => {
+    const token = { text: part, start: elapsed / total };
+    elapsed += weights[i];
+    return token;
+  });
+}
+
+/**
+ * 字幕浮层（覆盖在数字人视频底部）
+ * 聆听时显示用户的实时识别文本，思考时显示用户的问题，回答时显示正在播放的句子；
+ * 已知音频时长时按字数比例逐词高亮
+ */
+export function Subtitles() {
+  const { enabled, userText, sentence } = useSubtitleStore();
+  const conversationState = useConversationStore((state) => state.state);
+  const isListening = useConversationStore(selectIsListening);
+  const isSpeaking = conversationState === 'speaking';
+
+  const tokens = useMemo(() => (sentence ? tokenize(sentence.text) : []), [sentence]);
+  const [now, setNow] = useState(0);
+
+  // 播放期间逐帧更新高亮进度
+  const durationMs = sentence?.durationMs;
+  useEffect(() => {
+    if (!isSpeaking || !durationMs) return;
+    let frame = requestAnimationFrame(function tick() {
+      setNow(performance.now());
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isSpeaking, durationMs, sentence]);
+
+  if (!enabled) return null;
+
+  if (isSpeaking && sentence) {
+    const progress = durationMs ? Math.min(Math.max((now - sentence.startedAt) / durationMs, 0), 1) : null;
+    return (
+      <div className="absolute inset-x-0 bottom-6 z-20 flex justify-center px-6 pointer-events-none">
+        <p className="max-w-full px-4 py-2 rounded-lg bg-black/60 text-lg leading-relaxed text-center text-white">
+          {progress === null
+            ? sentence.text
+            : tokens.map((token, i) => (
+                <span
+                  key={i}
+                  className={`transition-colors duration-150 ${progress > token.start ? 'text-white' : 'text-white/50'}`}
+                >
+                  {token.text}
+                </span>
+              ))}
+        </p>
+      </div>
+    );
+  }
+
+  if ((isListening || conversationState === 'thinking') && userText) {
+    return (
+      <div className="absolute inset-x-0 bottom-6 z-20 flex justify-center px-6 pointer-events-none">
+        <p className={`max-w-full px-4 py-2 rounded-lg bg-black/40 text-base leading-relaxed text-center ${
+          isListening ? 'text-white' : 'text-white/70'
+        }`}>
+          {userText}
+        </p>
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -3,7 +3,8 @@
 import { forwardRef, useImperativeHandle, useEffect, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { AudioOutlined, PauseOutlined } from '@ant-design/icons';
-import { useRealtimeASR } from '@/hooks/useRealtimeASR';
+import { useRealtimeASR, type StartRecordingOptions } from '@/hooks/useRealtimeASR';
+import { useLanguageStore } from '@/store/languageStore';
 import { AudioVisualizer } from './AudioVisualizer';
 import styles from './style.module.css';
 import { DEFAULT_SILENCE_TIMEOUT } from '@/constants/audio';
@@ -26,17 +27,21 @@ interface VoiceButtonProps {
 
 /** 暴露给父组件的方法 */
 export interface VoiceButtonRef {
-  startRecording: () => void;
+  /** 开始录音（插话打断时传入移交的音频，调用方已先打断回复） */
+  startRecording: (options?: StartRecordingOptions) => void;
   stopRecording: () => void;
   isRecording: boolean;
 }
 
 export const VoiceButton = forwardRef<VoiceButtonRef, VoiceButtonProps>(
   function VoiceButton({ onResult, isProcessing = false, onInterim, onRecordingChange, onInterrupt }, ref) {
+    const { language, asrEngine } = useLanguageStore();
     const { isRecording, mediaStream, startRecording, stopRecording } = useRealtimeASR({
       onResult,
       onInterim,
       silenceTimeout: DEFAULT_SILENCE_TIMEOUT,
+      language,
+      engine: asrEngine,
     });
     
     // 打断冷却期标记
@@ -47,10 +52,14 @@ export const VoiceButton = forwardRef<VoiceButtonRef, VoiceButtonProps>(
       onRecordingChange?.(isRecording);
     }, [isRecording, onRecordingChange]);
 
-    // 安全的开始录音（带冷却检查）
-    const safeStartRecording = useCallback(() => {
+    // 安全的开始录音（带冷却检查；插话打断时回复已被打断，直接接管音频）
+    const safeStartRecording = useCallback((options?: StartRecordingOptions) => {
+      if (options?.handoff) {
+        startRecording(options);
+        return;
+      }
       if (!isProcessing && !isRecording && !interruptCooldownRef.current) {
-        startRecording();
+        startRecording(options);
       }
     }, [isProcessing, isRecording, startRecording]);
 
@@ -0,0 +1,26 @@
+/**
+ * ASR 相关常量配置
+ */
+
+import type { AsrEngine } from '@/types/asr';
+import type { Language } from '@/store/languageStore';
+
+/** 支持的 ASR 引擎 */
+export const SUPPORTED_ASR_ENGINES: readonly AsrEngine[] = [
+  '16k_zh',
+  '16k_zh-PY',
+  '16k_zh_dialect',
+  '16k_en',
+  '16k_yue',
+  '16k_ja',
+  '16k_ko',
+];
+
+/** 默认 ASR 引擎 */
+export const DEFAULT_ASR_ENGINE: AsrEngine = '16k_zh';
+
+/** 各界面语言对应的 ASR 引擎（auto 模式下使用） */
+export const LANGUAGE_ASR_ENGINE: Record<Language, AsrEngine> = {
+  zh: '16k_zh',
+  en: '16k_en',
+};
@@ -40,3 +40,33 @@ export const MICROPHONE_CONSTRAINTS: MediaStreamConstraints = {
     noiseSuppression: true,
   },
 };
+
+/** 客户端 VAD：语音结束后等待的静音时长 (毫秒)，超过后结束本轮识别 */
+export const DEFAULT_VAD_HANGOVER = 800;
+
+/** 客户端 VAD：静音超过该时长后暂停上传音频 (毫秒) */
+export const DEFAULT_VAD_PAUSE_UPLOAD_AFTER = 1200;
+
+/** 客户端 VAD：开始录音后一直未检测到语音时结束识别 (毫秒)，需小于代理的空闲超时 */
+export const DEFAULT_VAD_NO_SPEECH_TIMEOUT = 8000;
+
+/** 本地结束识别后等待最终结果的时间 (毫秒) */
+export const VAD_END_TURN_TIMEOUT = 1500;
+
+/** 插话打断：语音帧能量需高于噪声基底的幅度 (dB)，高于普通录音以避开残余回声 */
+export const BARGE_IN_THRESHOLD_DB = 16;
+
+/** 插话打断：持续说话超过该时长才打断 (毫秒) */
+export const BARGE_IN_MIN_SPEECH_MS = 300;
+
+/** 插话打断：保留检测到语音前的音频时长 (毫秒)，移交给新一轮识别 */
+export const BARGE_IN_PRE_ROLL_MS = 800;
+
+/** 插话打断：移交后等待识别接管的最长时间 (毫秒)，超时释放麦克风 */
+export const BARGE_IN_HANDOFF_TIMEOUT = 3000;
+
+/** 继续对话：回复结束后自动聆听的默认时长 (秒) */
+export const DEFAULT_FOLLOW_UP_SECONDS = 8;
+
+/** 唤醒或继续对话后自动开始录音的最长等待时间 (毫秒)，超时（如连接失败）回到唤醒模式 */
+export const AUTO_RECORDING_START_TIMEOUT = 5000;
@@ -0,0 +1,21 @@
+/**
+ * Lip-sync 相关常量配置
+ */
+
+/** 播放模式：streaming 边生成边播放，prepared 等全部帧生成并解码后再播放 */
+export type LipsyncPlaybackMode = 'streaming' | 'prepared';
+
+/** 帧不足时的处理：hold 保持最后一帧（音频继续），stretch 暂停音频等待帧 */
+export type LipsyncUnderrunPolicy = 'hold' | 'stretch';
+
+/** 默认播放模式 */
+export const DEFAULT_LIPSYNC_PLAYBACK_MODE: LipsyncPlaybackMode = 'streaming';
+
+/** 抖动缓冲：开始播放前需要解码好的时长 (毫秒) */
+export const LIPSYNC_JITTER_BUFFER_MS = 1000;
+
+/** 默认帧不足处理方式 */
+export const DEFAULT_LIPSYNC_UNDERRUN_POLICY: LipsyncUnderrunPolicy = 'hold';
+
+/** 每批并行解码的帧数（避免内存峰值过高） */
+export const LIPSYNC_DECODE_BATCH_SIZE = 10;
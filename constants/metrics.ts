@@ -0,0 +1,38 @@
+/**
+ * 轮次延迟指标常量配置
+ */
+
+import type { TurnMark, TurnOutcome } from '@/types/metrics';
+
+/** 计时点（按轮次中的先后顺序） */
+export const TURN_MARKS: readonly TurnMark[] = [
+  'asrFinal',
+  'submit',
+  'chatFirstToken',
+  'firstSentence',
+  'firstTtsAudio',
+  'lipsyncFirstFrame',
+  'playbackStart',
+  'turnEnd',
+];
+
+/** 计时点显示名称 */
+export const TURN_MARK_LABELS: Record<TurnMark, string> = {
+  asrFinal: '识别结果',
+  submit: '提交',
+  chatFirstToken: '首个 token',
+  firstSentence: '首句',
+  firstTtsAudio: '首段 TTS',
+  lipsyncFirstFrame: '口型首帧',
+  playbackStart: '开始播放',
+  turnEnd: '轮次结束',
+};
+
+/** 轮次结果 */
+export const TURN_OUTCOMES: readonly TurnOutcome[] = ['completed', 'interrupted', 'error'];
+
+/** 语音结束后多久内提交的输入仍视为同一轮次（毫秒），超过则从提交开始计时 */
+export const SPEECH_END_MAX_AGE_MS = 10 * 1000;
+
+/** 客户端保留的最近轮次数 */
+export const MAX_RECENT_TURNS = 20;
@@ -0,0 +1,33 @@
+/**
+ * TTS 相关常量配置
+ */
+
+import type { VoiceInfo } from '@/types/tts';
+
+/** 默认音色（智辉，新闻男声） */
+export const DEFAULT_VOICE_TYPE = 101013;
+
+/** 语速范围 */
+export const TTS_SPEED_RANGE = { min: -2, max: 6 } as const;
+
+/** 音量范围 */
+export const TTS_VOLUME_RANGE = { min: -10, max: 10 } as const;
+
+/**
+ * 支持的音色列表
+ * 只收录已验证可用的标准音色，新增音色时在此登记
+ */
+export const VOICE_CATALOG: readonly VoiceInfo[] = [
+  { voiceType: 101013, name: '智辉', language: 'zh', gender: 'male', description: '新闻男声' },
+  { voiceType: 101004, name: '智云', language: 'zh', gender: 'male', description: '通用男声' },
+  { voiceType: 101010, name: '智华', language: 'zh', gender: 'male', description: '通用男声' },
+  { voiceType: 101018, name: '智靖', language: 'zh', gender: 'male', description: '情感男声' },
+  { voiceType: 101001, name: '智瑜', language: 'zh', gender: 'female', description: '情感女声' },
+  { voiceType: 101002, name: '智聆', language: 'zh', gender: 'female', description: '通用女声' },
+  { voiceType: 101009, name: '智芸', language: 'zh', gender: 'female', description: '知性女声' },
+  { voiceType: 101011, name: '智燕', language: 'zh', gender: 'female', description: '新闻女声' },
+  { voiceType: 101015, name: '智萌', language: 'zh', gender: 'child', description: '男童声' },
+  { voiceType: 101016, name: '智甜', language: 'zh', gender: 'child', description: '女童声' },
+  { voiceType: 101050, name: 'WeJack', language: 'en', gender: 'male', description: '英文男声' },
+  { voiceType: 101051, name: 'WeRose', language: 'en', gender: 'female', description: '英文女声' },
+];
@@ -0,0 +1,197 @@
+"use client";
+
+import { useRef, useCallback, useEffect } from 'react';
+import { createAudioContext, audiaToPcmBuffer } from '@/utils/audio';
+import type { CapturedAudioHandoff, RecorderMessage, RecorderVadOptions } from '@/types/audio';
+import {
+  TARGET_SAMPLE_RATE,
+  AUDIO_PROCESSOR_PATH,
+  AUDIO_PROCESSOR_NAME,
+  MICROPHONE_CONSTRAINTS,
+  BARGE_IN_THRESHOLD_DB,
+  BARGE_IN_MIN_SPEECH_MS,
+  BARGE_IN_PRE_ROLL_MS,
+  BARGE_IN_HANDOFF_TIMEOUT,
+} from '@/constants/audio';
+
+export interface UseBargeInOptions {
+  /** 是否监听（通常为数字人说话期间） */
+  enabled: boolean;
+  /**
+   * 检测到用户说话时回调
+   * 调用方负责打断回复，并把 handoff 交给新一轮识别（识别开始后调用 takeAudio 取出已采集的音频）
+   */
+  onBargeIn: (handoff: CapturedAudioHandoff) => void;
+}
+
+/**
+ * 插话打断 Hook（全双工）
+ *
+ * 数字人说话期间保持麦克风开启（回声消除），录音处理器的 VAD 以更高阈值检测用户说话，
+ * 检测到后回调 onBargeIn，并把检测前后采集的音频和麦克风流移交给新一轮识别，用户插话的内容不会丢失
+ */
+export function useBargeIn({ enabled, onBargeIn }: UseBargeInOptions): void {
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const mediaStreamRef = useRef<MediaStream | null>(null);
+  const workletNodeRef = useRef<AudioWorkletNode | null>(null);
+  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const handoffTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // 已采集的 PCM（触发前只保留最近 BARGE_IN_PRE_ROLL_MS）
+  const capturedRef = useRef<Array<{ pcm: ArrayBuffer; durationMs: number }>>([]);
+  const capturedMsRef = useRef(0);
+  const triggeredRef = useRef(false);
+  // 每次开始监听递增，用于丢弃过期的异步初始化
+  const sessionRef = useRef(0);
+
+  const onBargeInRef = useRef(onBargeIn);
+  useEffect(() => {
+    onBargeInRef.current = onBargeIn;
+  }, [onBargeIn]);
+
+  // 停止采集（releaseStream 为 false 时保留麦克风流，已移交给识别）
+  const stopCapture = useCallback((releaseStream: boolean) => {
+    sessionRef.current++;
+
+    if (handoffTimeoutRef.current) {
+      clearTimeout(handoffTimeoutRef.current);
+      handoffTimeoutRef.current = null;
+    }
+
+    if (workletNodeRef.current) {
+      workletNodeRef.current.port.onmessage = null;
+      workletNodeRef.current.disconnect();
+      workletNodeRef.current = null;
+    }
+
+    if (sourceRef.current) {
+      sourceRef.current.disconnect();
+      sourceRef.current = null;
+    }
+
+    if (audioContextRef.current) {
+      audioContextRef.current.close();
+      audioContextRef.current = null;
+    }
+
+    if (releaseStream && mediaStreamRef.current) {
+      mediaStreamRef.current.getTracks().forEach(track => track.stop());
+    }
+    mediaStreamRef.current = null;
+
+    capturedRef.current = [];
+    capturedMsRef.current = 0;
+    triggeredRef.current = false;
+  }, []);
+
+  // 检测到用户说话：移交音频和麦克风流
+  const handleSpeechStart = useCallback(() => {
+    const stream = mediaStreamRef.current;
+    if (triggeredRef.current || !stream) return;
+    triggeredRef.current = true;
+    console.log('🗣️ 检测到用户插话');
+
+    const session = sessionRef.current;
+    let taken = false;
+    const takeAudio = () => {
+      if (taken || session !== sessionRef.current) return [];
+      taken = true;
+      const audio = capturedRef.current.map(({ pcm }) => pcm);
+      stopCapture(false);
+      return audio;
+    };
+
+    // 识别方未及时接管时释放麦克风
+    handoffTimeoutRef.current = setTimeout(() => {
+      if (!taken && session === sessionRef.current) {
+        console.warn('插话音频未被接管，释放麦克风');
+        stopCapture(true);
+      }
+    }, BARGE_IN_HANDOFF_TIMEOUT);
+
+    onBargeInRef.current({ stream, takeAudio });
+  }, [stopCapture]);
+
+  // 开始监听
+  const startCapture = useCallback(async () => {
+    const session = ++sessionRef.current;
+    const isCurrent = () => session === sessionRef.current;
+
+    let stream: MediaStream | null = null;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia(MICROPHONE_CONSTRAINTS);
+      if (!isCurrent()) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      mediaStreamRef.current = stream;
+
+      const audioContext = createAudioContext({ sampleRate: TARGET_SAMPLE_RATE });
+      audioContextRef.current = audioContext;
+      await audioContext.audioWorklet.addModule(AUDIO_PROCESSOR_PATH);
+      if (!isCurrent()) return;
+
+      const source = audioContext.createMediaStreamSource(stream);
+      sourceRef.current = source;
+
+      const vadOptions: RecorderVadOptions = {
+        enabled: true,
+        thresholdDb: BARGE_IN_THRESHOLD_DB,
+        minSpeechMs: BARGE_IN_MIN_SPEECH_MS,
+      };
+      const workletNode = new AudioWorkletNode(audioContext, AUDIO_PROCESSOR_NAME, {
+        processorOptions: { vad: vadOptions },
+      });
+      workletNodeRef.current = workletNode;
+
+      workletNode.port.onmessage = (event: MessageEvent<RecorderMessage>) => {
+        const message = event.data;
+        if (message.type === 'speech-start') {
+          handleSpeechStart();
+          return;
+        }
+        if (message.type !== 'audio') return;
+
+        capturedRef.current.push({
+          pcm: audiaToPcmBuffer(message.samples, audioContext.sampleRate),
+          durationMs: (message.samples.length / audioContext.sampleRate) * 1000,
+        });
+        capturedMsRef.current += capturedRef.current[capturedRef.current.length - 1].durationMs;
+
+        // 触发前只保留最近的音频；触发后全部保留，等待识别接管
+        while (!triggeredRef.current && capturedMsRef.current > BARGE_IN_PRE_ROLL_MS) {
+          capturedMsRef.current -= capturedRef.current.shift()!.durationMs;
+        }
+      };
+
+      source.connect(workletNode);
+      workletNode.connect(audioContext.destination);
+      console.log('🗣️ 插话检测已开启');
+    } catch (err) {
+      console.error('插话检测启动失败:', err);
+      if (isCurrent()) {
+        stopCapture(true);
+      } else {
+        stream?.getTracks().forEach(track => track.stop());
+      }
+    }
+  }, [handleSpeechStart, stopCapture]);
+
+  // 跟随 enabled 开启/关闭监听（已触发的采集等待识别接管或超时释放）
+  useEffect(() => {
+    if (!enabled || triggeredRef.current) return;
+    startCapture();
+    return () => {
+      if (!triggeredRef.current) {
+        stopCapture(true);
+      }
+    };
+  }, [enabled, startCapture, stopCapture]);
+
+  // 组件卸载时释放所有资源
+  useEffect(() => {
+    return () => {
+      stopCapture(true);
+    };
+  }, [stopCapture]);
+}
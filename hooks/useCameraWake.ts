@@ -9,6 +9,8 @@ const DETECTION_INTERVAL_MS = 200;
 const WAKE_DURATION_MS = 2000;
 /** 唤醒冷却时间（毫秒） */
 const WAKE_COOLDOWN_MS = 5000;
+/** 判定访客离开所需的持续无人时间（毫秒） */
+const LEAVE_DURATION_MS = 10000;
 /** MediaPipe WASM 文件 CDN 路径 */
 const MEDIAPIPE_WASM_PATH = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm';
 /** 物体检测模型 CDN 路径 (EfficientDet-Lite0，支持检测人体) */
@@ -17,6 +19,8 @@ const OBJECT_DETECTOR_MODEL_PATH = 'https://storage.googleapis.com/mediapipe-mod
 export interface UseCameraWakeOptions {
   /** 检测到人持续 2 秒后的回调 */
   onWakeUp?: () => void;
+  /** 唤醒过的访客持续离开后的回调（用于结束会话） */
+  onLeave?: () => void;
   /** 是否禁用唤醒（AI 正在处理时应设为 true） */
   disabled?: boolean;
 }
@@ -42,7 +46,7 @@ export interface UseCameraWakeReturn {
  * window.stopCameraWake()   // 停止检测
  */
 export function useCameraWake(options: UseCameraWakeOptions = {}): UseCameraWakeReturn {
-  const { onWakeUp, disabled = false } = options;
+  const { onWakeUp, onLeave, disabled = false } = options;
 
   // State
   const [isDetecting, setIsDetecting] = useState(false);
@@ -58,15 +62,19 @@ export function useCameraWake(options: UseCameraWakeOptions = {}): UseCameraWake
   // Refs - 状态引用
   const personDetectedStartRef = useRef<number | null>(null);
   const lastWakeUpTimeRef = useRef<number>(0);
+  const lastPersonSeenRef = useRef<number>(0);
+  const isVisitorPresentRef = useRef(false);
   const isManualStopRef = useRef(false);
   const disabledRef = useRef(disabled);
 
   // Refs - 回调引用
   const onWakeUpRef = useRef(onWakeUp);
+  const onLeaveRef = useRef(onLeave);
 
   useEffect(() => {
     onWakeUpRef.current = onWakeUp;
-  }, [onWakeUp]);
+    onLeaveRef.current = onLeave;
+  }, [onWakeUp, onLeave]);
 
   // 同步 disabled 状态到 ref
   useEffect(() => {
@@ -106,6 +114,7 @@ export function useCameraWake(options: UseCameraWakeOptions = {}): UseCameraWake
     }
 
     personDetectedStartRef.current = null;
+    isVisitorPresentRef.current = false;
   }, []);
 
   // 组件卸载时清理资源
@@ -152,6 +161,7 @@ export function useCameraWake(options: UseCameraWakeOptions = {}): UseCameraWake
 
       if (hasPerson) {
         // 检测到人
+        lastPersonSeenRef.current = Date.now();
         if (personDetectedStartRef.current === null) {
           personDetectedStartRef.current = Date.now();
           console.log('👤 检测到人，开始计时...');
@@ -163,6 +173,7 @@ export function useCameraWake(options: UseCameraWakeOptions = {}): UseCameraWake
             console.log('✅ 持续检测到人 2 秒，触发唤醒！');
             lastWakeUpTimeRef.current = Date.now();
             personDetectedStartRef.current = null;
+            isVisitorPresentRef.current = true;
             onWakeUpRef.current?.();
           }
         }
@@ -172,6 +183,16 @@ export function useCameraWake(options: UseCameraWakeOptions = {}): UseCameraWake
           console.log('👤 人离开，重置计时');
           personDetectedStartRef.current = null;
         }
+
+        // 已唤醒的访客持续离开，视为本次会话结束
+        if (
+          isVisitorPresentRef.current &&
+          Date.now() - lastPersonSeenRef.current >= LEAVE_DURATION_MS
+        ) {
+          console.log('👋 访客已离开');
+          isVisitorPresentRef.current = false;
+          onLeaveRef.current?.();
+        }
       }
     } catch (err) {
       console.error('人体检测错误:', err);
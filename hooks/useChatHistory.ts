@@ -0,0 +1,138 @@
+"use client";
+
+import { useCallback, useEffect } from 'react';
+import { useChatStore } from '@/store/chatStore';
+import { useLanguageStore } from '@/store/languageStore';
+import { saveConversation, getConversation, listConversations, clearConversations } from '@/utils/conversationDB';
+import { formatTranscript, summarizeConversation } from '@/utils/conversation';
+import { syncConversation } from '@/services/conversations';
+import type { ConversationRecord, ConversationSummary, TranscriptFormat } from '@/types/chat';
+
+/** 消息变化后延迟保存的时间（毫秒），流式回复期间合并多次更新 */
+const SAVE_DEBOUNCE_MS = 1000;
+
+/**
+ * 从 chatStore 当前状态生成会话记录（没有消息时返回 null）
+ */
+function snapshotConversation(): ConversationRecord | null {
+  const { conversationId, startedAt, messages } = useChatStore.getState();
+  if (messages.length === 0) return null;
+  return {
+    id: conversationId,
+    language: useLanguageStore.getState().language,
+    startedAt,
+    updatedAt: Date.now(),
+    messages,
+  };
+}
+
+/**
+ * 保存到 IndexedDB 并同步到服务端
+ */
+async function persistConversation(record: ConversationRecord) {
+  try {
+    await saveConversation(record);
+  } catch (error) {
+    console.error('会话保存失败:', error);
+  }
+  await syncConversation(record);
+}
+
+/**
+ * 下载对话记录文件
+ */
+function downloadTranscript(records: ConversationRecord[], format: TranscriptFormat, filename: string) {
+  const content = formatTranscript(records, format);
+  const type = format === 'markdown' ? 'text/markdown' : 'application/json';
+  const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}.${format === 'markdown' ? 'md' : 'json'}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 对话历史 Hook
+ *
+ * 监听 chatStore，消息变化后保存当前会话到 IndexedDB（开启服务端存储时同步到 /api/conversations），
+ * 切换会话前立即保存上一个会话；并提供列出、导出（JSON / Markdown）本地会话的方法
+ */
+export function useChatHistory() {
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let pending: ConversationRecord | null = null;
+
+    const flush = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (pending) {
+        persistConversation(pending);
+        pending = null;
+      }
+    };
+
+    const unsubscribe = useChatStore.subscribe((state, prev) => {
+      if (state.conversationId !== prev.conversationId) {
+        // 开启新会话：保存上一个会话的最终状态
+        flush();
+        return;
+      }
+      if (state.messages === prev.messages) return;
+
+      pending = snapshotConversation();
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, SAVE_DEBOUNCE_MS);
+    });
+
+    window.addEventListener('pagehide', flush);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, []);
+
+  /** 列出本地保存的会话（最近更新的在前） */
+  const listHistory = useCallback(async (): Promise<ConversationSummary[]> => {
+    return (await listConversations()).map(summarizeConversation);
+  }, []);
+
+  /**
+   * 导出会话
+   * @param id 会话 ID（默认当前会话）
+   */
+  const exportConversation = useCallback(async (format: TranscriptFormat = 'markdown', id?: string) => {
+    const current = snapshotConversation();
+    const record = !id || id === current?.id ? current : await getConversation(id);
+    if (!record) {
+      console.warn('没有可导出的会话:', id ?? '当前会话为空');
+      return;
+    }
+    downloadTranscript([record], format, record.id);
+  }, []);
+
+  /**
+   * 导出本地保存的全部会话（按开始时间正序）
+   * @param since 只导出该时间之后更新的会话（时间戳，毫秒）
+   */
+  const exportAllConversations = useCallback(async (format: TranscriptFormat = 'markdown', since = 0) => {
+    const records = (await listConversations())
+      .filter((record) => record.updatedAt >= since)
+      .sort((a, b) => a.startedAt - b.startedAt);
+    if (records.length === 0) {
+      console.warn('没有可导出的会话');
+      return;
+    }
+    downloadTranscript(records, format, `conversations-${new Date().toISOString().slice(0, 10)}`);
+  }, []);
+
+  /** 清空本地保存的会话 */
+  const clearHistory = useCallback(async () => {
+    await clearConversations();
+  }, []);
+
+  return { listHistory, exportConversation, exportAllConversations, clearHistory };
+}
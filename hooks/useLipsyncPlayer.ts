@@ -1,36 +1,82 @@
 "use client";
 
 import { useCallback, useRef, useEffect } from 'react';
-import { 
-  uploadAudio, 
-  generateFrames, 
-  LipsyncInfoEvent, 
-  LipsyncFrameEvent,
+import {
+  uploadAudio,
+  generateFrames,
+  LipsyncInfoEvent,
+  LipsyncFrame,
   LipsyncCompleteEvent,
 } from '@/services/lipsync';
 import { useAvatarStore } from '@/store/avatarStore';
+import { useMetricsStore } from '@/store/metricsStore';
+import {
+  DEFAULT_LIPSYNC_PLAYBACK_MODE,
+  DEFAULT_LIPSYNC_UNDERRUN_POLICY,
+  LIPSYNC_DECODE_BATCH_SIZE,
+  LIPSYNC_JITTER_BUFFER_MS,
+  type LipsyncPlaybackMode,
+  type LipsyncUnderrunPolicy,
+} from '@/constants/lipsync';
+import { clockNow, type LipsyncFrameRenderer } from '@/utils/lipsyncCanvas';
+import { getLipsyncRenderer } from '@/utils/lipsyncRenderer';
 
 /** 预生成的数据 */
 export interface PreparedLipsyncData {
-  frames: string[];           // base64 帧数据
-  bitmaps?: ImageBitmap[];    // 预解码的帧（可选，播放时生成）
+  frames: Uint8Array[];       // JPEG 帧数据（流式模式下边生成边填充）
   audioBytes: Uint8Array;     // 原始音频
   totalFrames: number;
   fps: number;
   width: number;
   height: number;
+  /** 生成是否已结束（成功或失败），结束后不会再有新帧 */
+  done: boolean;
+  /** 生成完成（失败时 reject） */
+  completed: Promise<void>;
+  /** 等待新帧到达或生成结束 */
+  waitForFrames: () => Promise<void>;
+}
+
+/** 帧不足信息 */
+export interface LipsyncUnderrun {
+  /** 音频时钟对应的帧序号 */
+  frame: number;
+  /** 已解码的连续帧数 */
+  decodedFrames: number;
+  totalFrames: number;
+}
+
+/** 单句播放统计 */
+export interface LipsyncPlaybackStats {
+  /** 帧不足次数 */
+  underruns: number;
+  /** 帧不足累计时长（毫秒） */
+  stalledMs: number;
 }
 
 /** 播放回调 */
 export interface LipsyncPlayerCallbacks {
-  onPlayStart?: () => void;
-  onPlayEnd?: () => void;
+  /** 开始播放（首帧已渲染），durationMs 为音频时长 */
+  onPlayStart?: (info: { durationMs: number }) => void;
+  onPlayEnd?: (stats: LipsyncPlaybackStats) => void;
   onError?: (error: Error) => void;
+  /** 播放追上生成/解码进度时触发 */
+  onUnderrun?: (underrun: LipsyncUnderrun) => void;
+}
+
+/** 播放器配置 */
+export interface LipsyncPlayerOptions {
+  /** 播放模式（默认 streaming） */
+  mode?: LipsyncPlaybackMode;
+  /** 流式模式下开始播放前需要缓冲的时长（毫秒） */
+  jitterBufferMs?: number;
+  /** 帧不足时的处理方式（默认 hold） */
+  underrunPolicy?: LipsyncUnderrunPolicy;
 }
 
 /** 播放器返回值 */
 export interface LipsyncPlayerResult {
-  /** 预生成帧（可以并行调用多个） */
+  /** 预生成帧（可以并行调用多个；流式模式下收到帧信息即返回） */
   prepare: (faceFileId: string, audioBytes: Uint8Array, signal?: AbortSignal) => Promise<PreparedLipsyncData>;
   /** 播放预生成的数据 */
   playPrepared: (data: PreparedLipsyncData, callbacks?: LipsyncPlayerCallbacks) => Promise<void>;
@@ -45,74 +91,166 @@ function getLipsyncCanvas(): HTMLCanvasElement | null {
   return document.getElementById('lipsync-canvas') as HTMLCanvasElement | null;
 }
 
+/**
+ * 简单的通知器：wait() 返回的 Promise 在下一次 notify() 时 resolve
+ */
+function createNotifier() {
+  let waiters: Array<() => void> = [];
+  return {
+    wait: () => new Promise<void>((resolve) => {
+      waiters.push(resolve);
+    }),
+    notify: () => {
+      const current = waiters;
+      waiters = [];
+      current.forEach((fn) => fn());
+    },
+  };
+}
+
+/** 向渲染器同步音频时钟的间隔（毫秒），用于修正时钟漂移 */
+const CLOCK_SYNC_INTERVAL_MS = 500;
+
 /**
  * Lip-sync 播放器 Hook
  * 支持并行预生成 + 顺序播放
+ * 流式模式下缓冲 jitterBufferMs 的帧后即开始播放，其余帧边生成边解码
+ * 帧的解码和绘制由渲染器负责（优先 Worker + OffscreenCanvas），主线程只负责音频和时钟
  */
-export function useLipsyncPlayer(): LipsyncPlayerResult {
+export function useLipsyncPlayer(options: LipsyncPlayerOptions = {}): LipsyncPlayerResult {
+  const {
+    mode = DEFAULT_LIPSYNC_PLAYBACK_MODE,
+    jitterBufferMs = LIPSYNC_JITTER_BUFFER_MS,
+    underrunPolicy = DEFAULT_LIPSYNC_UNDERRUN_POLICY,
+  } = options;
   const { setLipsyncMode } = useAvatarStore();
   
-  // Canvas context ref
-  const ctxRef = useRef<CanvasRenderingContext2D | null>(null);
+  // 帧渲染器
+  const rendererRef = useRef<LipsyncFrameRenderer | null>(null);
   
   // 播放状态
   const isPlayingRef = useRef(false);
-  const currentFrameRef = useRef(0);
+  // 每次播放/停止自增，用于让过期的解码任务退出
+  const playbackIdRef = useRef(0);
   
   // 音频相关
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const audioBufferRef = useRef<AudioBuffer | null>(null);
   const audioStartTimeRef = useRef<number>(0);
+  const lastClockSyncRef = useRef(0);
   
   // 渲染相关
   const animationFrameIdRef = useRef<number | null>(null);
   const currentDataRef = useRef<PreparedLipsyncData | null>(null);
-  const bitmapsRef = useRef<ImageBitmap[]>([]);
+  // 已解码的连续帧数
+  const decodedFramesRef = useRef(0);
+  const decodeDoneRef = useRef(false);
+  
+  // 帧不足状态
+  const underrunStartRef = useRef<number | null>(null);
+  const statsRef = useRef<LipsyncPlaybackStats>({ underruns: 0, stalledMs: 0 });
   
-  // 播放完成回调
-  const onPlayEndRef = useRef<(() => void) | null>(null);
+  // 回调
+  const callbacksRef = useRef<LipsyncPlayerCallbacks>({});
+  const onPlayEndRef = useRef<((stats: LipsyncPlaybackStats) => void) | null>(null);
   
   /**
-   * 绘制 ImageBitmap 到 Canvas（同步，无闪烁）
+   * 把当前音频播放位置同步给渲染器
+   * 优先使用 getOutputTimestamp，时间戳对应扬声器实际输出的时刻
    */
-  const drawBitmap = useCallback((bitmap: ImageBitmap) => {
-    const ctx = ctxRef.current;
-    const canvas = getLipsyncCanvas();
-    if (!ctx || !canvas) return;
+  const syncClock = useCallback(() => {
+    const audioContext = audioContextRef.current;
+    const renderer = rendererRef.current;
+    if (!audioContext || !renderer) return;
     
-    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const running = audioContext.state === 'running';
+    const output = audioContext.getOutputTimestamp?.();
+    if (output?.contextTime !== undefined && output.performanceTime) {
+      renderer.setClock({
+        audioTime: output.contextTime - audioStartTimeRef.current,
+        timestamp: performance.timeOrigin + output.performanceTime,
+        running,
+      });
+    } else {
+      renderer.setClock({
+        audioTime: audioContext.currentTime - audioStartTimeRef.current,
+        timestamp: clockNow(),
+        running,
+      });
+    }
+    lastClockSyncRef.current = performance.now();
   }, []);
   
   /**
-   * 将 base64 帧数据转换为 ImageBitmap
+   * 按顺序把帧交给渲染器解码，帧尚未到达时等待生成
+   * 缺失的帧（生成结束仍未收到或解码失败）跳过，播放时保持上一帧
    */
-  const decodeFrameToBitmap = useCallback(async (base64Data: string): Promise<ImageBitmap> => {
-    const response = await fetch('data:image/jpeg;base64,' + base64Data);
-    const blob = await response.blob();
-    return createImageBitmap(blob);
+  const runDecodePump = useCallback(async (
+    data: PreparedLipsyncData,
+    renderer: LipsyncFrameRenderer,
+    playbackId: number,
+    onProgress: () => void
+  ) => {
+    let next = 0;
+    
+    try {
+      while (next < data.totalFrames) {
+        if (playbackIdRef.current !== playbackId) return;
+        
+        if (!data.frames[next]) {
+          if (data.done) {
+            next++;
+            decodedFramesRef.current = next;
+            continue;
+          }
+          await data.waitForFrames();
+          continue;
+        }
+        
+        // 收集连续可用的一批帧并行解码
+        let end = next;
+        while (end < data.totalFrames && end - next < LIPSYNC_DECODE_BATCH_SIZE && data.frames[end]) {
+          end++;
+        }
+        const batch = [];
+        for (let index = next; index < end; index++) {
+          batch.push({ index, bytes: data.frames[index] });
+        }
+        await renderer.decode(batch);
+        
+        if (playbackIdRef.current !== playbackId) return;
+        
+        next = end;
+        decodedFramesRef.current = next;
+        onProgress();
+      }
+      
+      decodeDoneRef.current = true;
+    } finally {
+      onProgress();
+    }
   }, []);
   
   /**
-   * 预解码所有帧为 ImageBitmap
+   * 结束播放并回调统计
    */
-  const decodeAllFrames = useCallback(async (frames: string[]): Promise<ImageBitmap[]> => {
-    console.log(`预解码 ${frames.length} 帧...`);
-    const bitmaps: ImageBitmap[] = [];
-    
-    // 分批解码，避免内存峰值过高
-    const batchSize = 10;
-    for (let i = 0; i < frames.length; i += batchSize) {
-      const batch = frames.slice(i, i + batchSize);
-      const batchBitmaps = await Promise.all(
-        batch.map(frame => frame ? decodeFrameToBitmap(frame) : Promise.resolve(null as unknown as ImageBitmap))
-      );
-      bitmaps.push(...batchBitmaps);
+  const finishPlayback = useCallback(() => {
+    if (underrunStartRef.current !== null) {
+      statsRef.current.stalledMs += performance.now() - underrunStartRef.current;
+      underrunStartRef.current = null;
+    }
+    const stats = { ...statsRef.current };
+    if (stats.underruns > 0) {
+      console.log(`Lip-sync 本句帧不足 ${stats.underruns} 次，共 ${Math.round(stats.stalledMs)}ms`);
     }
     
-    console.log(`帧解码完成`);
-    return bitmaps;
-  }, [decodeFrameToBitmap]);
+    isPlayingRef.current = false;
+    rendererRef.current?.setClock(null);
+    setLipsyncMode('idle');
+    onPlayEndRef.current?.(stats);
+    onPlayEndRef.current = null;
+  }, [setLipsyncMode]);
   
   /**
    * 渲染帧循环
@@ -122,19 +260,46 @@ export function useLipsyncPlayer(): LipsyncPlayerResult {
     
     const audioContext = audioContextRef.current;
     const data = currentDataRef.current;
-    const bitmaps = bitmapsRef.current;
     if (!audioContext) return;
     
     // 计算当前应该显示的帧
     const audioElapsed = audioContext.currentTime - audioStartTimeRef.current;
     const targetFrame = Math.floor(audioElapsed * data.fps);
     
-    // 绘制帧（使用预解码的 ImageBitmap，同步绘制无闪烁）
-    if (targetFrame < bitmaps.length && bitmaps[targetFrame]) {
-      if (currentFrameRef.current !== targetFrame) {
-        drawBitmap(bitmaps[targetFrame]);
-        currentFrameRef.current = targetFrame;
+    // 帧不足检测：hold 保持最后一帧，stretch 暂停音频直到缓冲重新填满
+    const underrunStart = underrunStartRef.current;
+    if (underrunStart !== null) {
+      const refillTarget = underrunPolicy === 'stretch'
+        ? Math.min(targetFrame + Math.ceil((jitterBufferMs / 1000) * data.fps), data.totalFrames)
+        : targetFrame + 1;
+      if (decodeDoneRef.current || decodedFramesRef.current >= refillTarget) {
+        statsRef.current.stalledMs += performance.now() - underrunStart;
+        underrunStartRef.current = null;
+        if (audioContext.state === 'suspended') {
+          audioContext.resume().then(syncClock);
+        }
       }
+    } else if (
+      targetFrame < data.totalFrames &&
+      targetFrame >= decodedFramesRef.current &&
+      !decodeDoneRef.current
+    ) {
+      underrunStartRef.current = performance.now();
+      statsRef.current.underruns++;
+      console.warn(`Lip-sync 帧不足: 第 ${targetFrame} 帧未就绪 (已解码 ${decodedFramesRef.current}/${data.totalFrames})`);
+      callbacksRef.current.onUnderrun?.({
+        frame: targetFrame,
+        decodedFrames: decodedFramesRef.current,
+        totalFrames: data.totalFrames,
+      });
+      if (underrunPolicy === 'stretch') {
+        audioContext.suspend().then(syncClock);
+      }
+    }
+    
+    // 绘制由渲染器按时钟自行完成，这里只定期校准时钟
+    if (performance.now() - lastClockSyncRef.current > CLOCK_SYNC_INTERVAL_MS) {
+      syncClock();
     }
     
     // 继续循环或结束
@@ -142,17 +307,16 @@ export function useLipsyncPlayer(): LipsyncPlayerResult {
       animationFrameIdRef.current = requestAnimationFrame(renderFrame);
     } else {
       // 播放完成
-      isPlayingRef.current = false;
-      setLipsyncMode('idle');
-      onPlayEndRef.current?.();
-      onPlayEndRef.current = null;
+      finishPlayback();
     }
-  }, [drawBitmap, setLipsyncMode]);
+  }, [syncClock, finishPlayback, underrunPolicy, jitterBufferMs]);
   
   /**
    * 停止当前播放
    */
   const stop = useCallback(() => {
+    playbackIdRef.current++;
+    
     // 停止渲染循环
     if (animationFrameIdRef.current) {
       cancelAnimationFrame(animationFrameIdRef.current);
@@ -170,19 +334,17 @@ export function useLipsyncPlayer(): LipsyncPlayerResult {
       audioContextRef.current = null;
     }
     
-    // 清理 ImageBitmap 资源
-    for (const bitmap of bitmapsRef.current) {
-      if (bitmap) {
-        bitmap.close();
-      }
-    }
-    bitmapsRef.current = [];
+    // 清理已解码的帧（渲染器与 canvas 绑定，继续复用）
+    rendererRef.current?.reset();
+    decodedFramesRef.current = 0;
+    decodeDoneRef.current = false;
     
     // 清理状态
     audioBufferRef.current = null;
     currentDataRef.current = null;
     isPlayingRef.current = false;
-    currentFrameRef.current = 0;
+    underrunStartRef.current = null;
+    statsRef.current = { underruns: 0, stalledMs: 0 };
     
     setLipsyncMode('idle');
   }, [setLipsyncMode]);
@@ -190,6 +352,7 @@ export function useLipsyncPlayer(): LipsyncPlayerResult {
   /**
    * 预生成帧（可以并行调用多个）
    * 这个函数不会影响当前播放状态
+   * 流式模式下收到帧信息（总帧数、尺寸）即返回，帧继续写入 data.frames
    */
   const prepare = useCallback(async (
     faceFileId: string,
@@ -206,6 +369,20 @@ export function useLipsyncPlayer(): LipsyncPlayerResult {
       throw abortError;
     }
     
+    const frameArrival = createNotifier();
+    let resolveInfo!: () => void;
+    const infoReceived = new Promise<void>((resolve) => {
+      resolveInfo = resolve;
+    });
+    let resolveCompleted!: () => void;
+    let rejectCompleted!: (error: Error) => void;
+    const completed = new Promise<void>((resolve, reject) => {
+      resolveCompleted = resolve;
+      rejectCompleted = reject;
+    });
+    // 流式模式下 prepare 先返回，生成失败由 completed 反映，避免未处理的 rejection
+    completed.catch(() => {});
+    
     // 准备结果
     const result: PreparedLipsyncData = {
       frames: [],
@@ -214,47 +391,69 @@ export function useLipsyncPlayer(): LipsyncPlayerResult {
       fps: 25,
       width: 0,
       height: 0,
+      done: false,
+      completed,
+      waitForFrames: frameArrival.wait,
+    };
+    
+    const finish = (error?: Error) => {
+      if (result.done) return;
+      result.done = true;
+      if (error) {
+        rejectCompleted(error);
+      } else {
+        resolveCompleted();
+      }
+      frameArrival.notify();
     };
     
     // 生成帧
-    await new Promise<void>((resolve, reject) => {
-      generateFrames(
-        faceFileId,
-        audioFileId,
-        {
-          batchSize: 16,
-          outputFps: 25,
-          jpegQuality: 95,
-          resizeFactor: 0.5,
-          signal,
+    generateFrames(
+      faceFileId,
+      audioFileId,
+      {
+        batchSize: 16,
+        outputFps: 25,
+        jpegQuality: 95,
+        resizeFactor: 0.5,
+        signal,
+      },
+      {
+        onInfo: (event: LipsyncInfoEvent) => {
+          result.totalFrames = event.total_frames;
+          result.fps = event.fps;
+          result.width = event.width;
+          result.height = event.height;
+          result.frames = new Array(event.total_frames);
+          resolveInfo();
         },
-        {
-          onInfo: (event: LipsyncInfoEvent) => {
-            result.totalFrames = event.total_frames;
-            result.fps = event.fps;
-            result.width = event.width;
-            result.height = event.height;
-            result.frames = new Array(event.total_frames);
-          },
-          
-          onFrame: (event: LipsyncFrameEvent) => {
-            result.frames[event.index] = event.data;
-          },
-          
-          onComplete: (event: LipsyncCompleteEvent) => {
-            console.log(`预生成完成: ${event.total_frames} 帧, ${event.total_time.toFixed(2)}秒`);
-            resolve();
-          },
-          
-          onError: (event) => {
-            reject(new Error(event.message));
-          },
-        }
-      ).catch(reject);
-    });
+        
+        onFrame: (frame: LipsyncFrame) => {
+          result.frames[frame.index] = frame.bytes;
+          frameArrival.notify();
+        },
+        
+        onComplete: (event: LipsyncCompleteEvent) => {
+          console.log(`预生成完成: ${event.total_frames} 帧, ${event.total_time.toFixed(2)}秒`);
+          finish();
+        },
+        
+        onError: (event) => {
+          finish(new Error(event.message));
+        },
+      }
+    )
+      .then(() => finish(new Error('生成流意外结束')))
+      .catch((error) => finish(error instanceof Error ? error : new Error('生成帧失败')));
+    
+    if (mode === 'streaming') {
+      await Promise.race([infoReceived, completed]);
+    } else {
+      await completed;
+    }
     
     return result;
-  }, []);
+  }, [mode]);
   
   /**
    * 播放预生成的数据
@@ -265,45 +464,67 @@ export function useLipsyncPlayer(): LipsyncPlayerResult {
   ): Promise<void> => {
     // 停止之前的播放
     stop();
+    const playbackId = playbackIdRef.current;
     
     return new Promise(async (resolve, reject) => {
       try {
         // 保存数据和回调
         currentDataRef.current = data;
-        onPlayEndRef.current = () => {
-          callbacks.onPlayEnd?.();
+        callbacksRef.current = callbacks;
+        onPlayEndRef.current = (stats) => {
+          callbacks.onPlayEnd?.(stats);
           resolve();
         };
         
-        // 设置 Canvas 尺寸
+        // 获取渲染器并设置 Canvas 尺寸
         const canvas = getLipsyncCanvas();
-        if (canvas) {
-          canvas.width = data.width;
-          canvas.height = data.height;
-          ctxRef.current = canvas.getContext('2d');
-        }
-        
-        // 预解码所有帧为 ImageBitmap（在后台线程进行，不阻塞主线程）
-        bitmapsRef.current = await decodeAllFrames(data.frames);
-        
-        // 预渲染首帧到 Canvas（在切换显示之前）
-        if (bitmapsRef.current.length > 0 && bitmapsRef.current[0]) {
-          drawBitmap(bitmapsRef.current[0]);
-          console.log('首帧已预渲染');
-        }
+        const renderer = canvas ? getLipsyncRenderer(canvas) : null;
+        rendererRef.current = renderer;
+        renderer?.reset({ width: data.width, height: data.height, fps: data.fps });
         
-        // 创建 AudioContext 并解码音频
+        // 创建 AudioContext 并解码音频（与帧解码并行）
         audioContextRef.current = new (window.AudioContext || (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
         
         const arrayBuffer = new ArrayBuffer(data.audioBytes.length);
         const view = new Uint8Array(arrayBuffer);
         view.set(data.audioBytes);
         
-        audioBufferRef.current = await audioContextRef.current.decodeAudioData(arrayBuffer);
+        const audioDecoding = audioContextRef.current.decodeAudioData(arrayBuffer);
+        
+        // 解码帧：流式模式只需先缓冲 jitterBufferMs，其余帧边播放边解码
+        const decodeProgress = createNotifier();
+        if (renderer) {
+          runDecodePump(data, renderer, playbackId, decodeProgress.notify).catch((error) => {
+            console.error('帧解码失败:', error);
+          });
+        } else {
+          decodeDoneRef.current = true;
+        }
+        
+        const startThreshold = mode === 'streaming'
+          ? Math.min(Math.ceil((jitterBufferMs / 1000) * data.fps), data.totalFrames)
+          : data.totalFrames;
+        while (decodedFramesRef.current < startThreshold && !decodeDoneRef.current) {
+          await decodeProgress.wait();
+          if (playbackIdRef.current !== playbackId) {
+            // 缓冲期间被停止
+            resolve();
+            return;
+          }
+        }
+        
+        // 预渲染首帧到 Canvas（在切换显示之前）
+        renderer?.drawFrame(0);
+        useMetricsStore.getState().mark('lipsyncFirstFrame');
+        
+        audioBufferRef.current = await audioDecoding;
+        if (playbackIdRef.current !== playbackId || !audioContextRef.current) {
+          resolve();
+          return;
+        }
         
         // 开始播放
         isPlayingRef.current = true;
-        currentFrameRef.current = 0;
         
         // 播放音频
         audioSourceRef.current = audioContextRef.current.createBufferSource();
@@ -311,23 +532,29 @@ export function useLipsyncPlayer(): LipsyncPlayerResult {
         audioSourceRef.current.connect(audioContextRef.current.destination);
         audioSourceRef.current.start(0);
         audioStartTimeRef.current = audioContextRef.current.currentTime;
+        syncClock();
         
-        console.log('开始播放对口型');
+        console.log(`开始播放对口型 (已缓冲 ${decodedFramesRef.current}/${data.totalFrames} 帧)`);
         // 此时 Canvas 上已经有首帧内容，切换显示不会闪烁
         setLipsyncMode('playing');
-        callbacks.onPlayStart?.();
+        callbacks.onPlayStart?.({ durationMs: audioBufferRef.current.duration * 1000 });
         
         // 开始帧渲染循环
         renderFrame();
         
       } catch (error) {
+        if (playbackIdRef.current !== playbackId) {
+          // 已被停止（AudioContext 关闭导致的解码失败）
+          resolve();
+          return;
+        }
         console.error('播放失败:', error);
         stop();
         callbacks.onError?.(error instanceof Error ? error : new Error('播放失败'));
         reject(error);
       }
     });
-  }, [stop, setLipsyncMode, renderFrame, decodeAllFrames, drawBitmap]);
+  }, [stop, setLipsyncMode, renderFrame, runDecodePump, syncClock, mode, jitterBufferMs]);
   
   /**
    * 检查是否正在播放
@@ -2,9 +2,17 @@
 
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { createAudioContext, audiaToPcmBuffer } from '@/utils/audio';
-import { TencentAsrResponse, ASR_SLICE_TYPE } from '@/types/asr';
+import type { AsrEngineSetting } from '@/types/asr';
+import type { CapturedAudioHandoff, RecorderMessage, RecorderVadOptions } from '@/types/audio';
+import { parseAsrEvent, toWebSocketUrl } from '@/utils/asr';
+import type { Language } from '@/store/languageStore';
+import { useMetricsStore } from '@/store/metricsStore';
 import {
   DEFAULT_SILENCE_TIMEOUT,
+  DEFAULT_VAD_HANGOVER,
+  DEFAULT_VAD_PAUSE_UPLOAD_AFTER,
+  DEFAULT_VAD_NO_SPEECH_TIMEOUT,
+  VAD_END_TURN_TIMEOUT,
   AUDIO_PROCESSOR_PATH,
   AUDIO_PROCESSOR_NAME,
   MICROPHONE_CONSTRAINTS,
@@ -17,11 +25,33 @@ export interface UseRealtimeASROptions {
   onInterim?: (text: string) => void;
   /** 静音超时时间（毫秒） */
   silenceTimeout?: number;
+  /** 识别语言（auto 模式下据此选择引擎） */
+  language?: Language;
+  /** 引擎设置，默认 auto（每次开始录音时按 language 选择） */
+  engine?: AsrEngineSetting;
+  /** 是否启用客户端 VAD（默认启用） */
+  vad?: boolean;
+  /** 客户端 VAD 检测到语音结束需要的静音时长（毫秒），之后在本地结束本轮识别 */
+  vadHangover?: number;
+  /** 静音超过该时长后暂停上传音频（毫秒，0 表示一直上传） */
+  pauseUploadAfter?: number;
+  /** 开始录音后一直未检测到语音时结束识别（毫秒，0 表示不限制） */
+  noSpeechTimeout?: number;
+}
+
+/** 单次录音的选项 */
+export interface StartRecordingOptions {
+  /** 插话打断时移交的麦克风流和已采集音频（不传则重新获取麦克风） */
+  handoff?: CapturedAudioHandoff;
+  /** 覆盖本次录音的未检测到语音超时（毫秒），如继续对话的聆听时长 */
+  noSpeechTimeout?: number;
 }
 
 export interface UseRealtimeASRReturn {
   /** 是否正在录音 */
   isRecording: boolean;
+  /** 客户端 VAD 是否检测到正在说话 */
+  isSpeaking: boolean;
   /** 当前识别到的文本 */
   transcript: string;
   /** 错误信息 */
@@ -29,7 +59,7 @@ export interface UseRealtimeASRReturn {
   /** MediaStream 音频流（用于音频可视化） */
   mediaStream: MediaStream | null;
   /** 开始录音 */
-  startRecording: () => Promise<void>;
+  startRecording: (options?: StartRecordingOptions) => Promise<void>;
   /** 停止录音 */
   stopRecording: () => void;
 }
@@ -40,18 +70,27 @@ export interface UseRealtimeASRReturn {
  * 功能：
  * - 点击开始录音
  * - 实时显示识别结果
- * - VAD 检测到静音后自动停止并返回结果
+ * - 客户端 VAD（AudioWorklet 中）检测到语音结束后在本地结束本轮识别，长时间静音时暂停上传音频
+ * - 未启用客户端 VAD 时，依赖服务端 VAD 的句子结果和静音超时结束识别
  * - 提供 MediaStream 用于音频可视化
+ * - 支持接管插话打断时已采集的音频（见 useBargeIn）
  */
 export function useRealtimeASR(options: UseRealtimeASROptions = {}): UseRealtimeASRReturn {
   const {
     onResult,
     onInterim,
     silenceTimeout = DEFAULT_SILENCE_TIMEOUT,
+    language,
+    engine = 'auto',
+    vad = true,
+    vadHangover = DEFAULT_VAD_HANGOVER,
+    pauseUploadAfter = DEFAULT_VAD_PAUSE_UPLOAD_AFTER,
+    noSpeechTimeout = DEFAULT_VAD_NO_SPEECH_TIMEOUT,
   } = options;
 
   // State
   const [isRecording, setIsRecording] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
   const [transcript, setTranscript] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [mediaStream, setMediaStream] = useState<MediaStream | null>(null);
@@ -68,6 +107,11 @@ export function useRealtimeASR(options: UseRealtimeASROptions = {}): UseRealtime
   const currentSentenceRef = useRef('');  // 当前句子的临时文本（interim 结果，会被替换）
   const silenceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isStoppedRef = useRef(false);
+  const isEndingRef = useRef(false);      // 已在本地结束本轮识别，等待最终结果
+  const speechEndedRef = useRef(false);   // 客户端 VAD 已检测到语音结束
+  const endTurnTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const noSpeechTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const noSpeechTimeoutMsRef = useRef(noSpeechTimeout);  // 本次录音的未检测到语音超时
   
   // Refs - 回调引用（避免闭包问题）
   const onResultRef = useRef(onResult);
@@ -86,9 +130,23 @@ export function useRealtimeASR(options: UseRealtimeASROptions = {}): UseRealtime
     }
   }, []);
 
+  // 清理客户端 VAD 相关定时器
+  const clearVadTimeouts = useCallback(() => {
+    if (endTurnTimeoutRef.current) {
+      clearTimeout(endTurnTimeoutRef.current);
+      endTurnTimeoutRef.current = null;
+    }
+    if (noSpeechTimeoutRef.current) {
+      clearTimeout(noSpeechTimeoutRef.current);
+      noSpeechTimeoutRef.current = null;
+    }
+  }, []);
+
   // 清理所有资源
   const cleanup = useCallback(() => {
     clearSilenceTimeout();
+    clearVadTimeouts();
+    setIsSpeaking(false);
 
     // 断开 AudioWorklet
     if (workletNodeRef.current) {
@@ -136,7 +194,7 @@ export function useRealtimeASR(options: UseRealtimeASROptions = {}): UseRealtime
         // 已关闭，无需操作
       }
     }
-  }, [clearSilenceTimeout]);
+  }, [clearSilenceTimeout, clearVadTimeouts]);
 
   // 组件卸载时清理资源
   useEffect(() => {
@@ -163,54 +221,122 @@ export function useRealtimeASR(options: UseRealtimeASROptions = {}): UseRealtime
     setTranscript('');
   }, [cleanup]);
 
+  // 在本地结束本轮识别：停止上传音频并通知代理结束，收到最终结果（或超时）后完成录音
+  const endTurn = useCallback(() => {
+    if (isEndingRef.current || isStoppedRef.current) return;
+    isEndingRef.current = true;
+    clearSilenceTimeout();
+    clearVadTimeouts();
+
+    const ws = wsRef.current;
+    if (ws?.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'end' }));
+    }
+    endTurnTimeoutRef.current = setTimeout(finishRecording, VAD_END_TURN_TIMEOUT);
+  }, [clearSilenceTimeout, clearVadTimeouts, finishRecording]);
+
+  // 未检测到语音时结束识别（背景噪声不会一直占用识别会话）
+  const startNoSpeechTimeout = useCallback(() => {
+    if (noSpeechTimeoutRef.current) {
+      clearTimeout(noSpeechTimeoutRef.current);
+      noSpeechTimeoutRef.current = null;
+    }
+    if (noSpeechTimeoutMsRef.current > 0) {
+      noSpeechTimeoutRef.current = setTimeout(endTurn, noSpeechTimeoutMsRef.current);
+    }
+  }, [endTurn]);
+
+  // 处理客户端 VAD 事件
+  const handleVadMessage = useCallback((message: RecorderMessage) => {
+    if (message.type === 'speech-start') {
+      speechEndedRef.current = false;
+      setIsSpeaking(true);
+      clearSilenceTimeout();
+      if (noSpeechTimeoutRef.current) {
+        clearTimeout(noSpeechTimeoutRef.current);
+        noSpeechTimeoutRef.current = null;
+      }
+    } else if (message.type === 'speech-end') {
+      speechEndedRef.current = true;
+      setIsSpeaking(false);
+      useMetricsStore.getState().noteSpeechEnd();
+      console.log(`🎤 检测到语音结束: ${message.durationMs}ms`);
+
+      // 已有识别结果则结束本轮；否则等待识别结果（收到后结束），一直没有结果视为噪声
+      if ((accumulatedTextRef.current + currentSentenceRef.current).trim()) {
+        endTurn();
+      } else {
+        startNoSpeechTimeout();
+      }
+    }
+  }, [clearSilenceTimeout, endTurn, startNoSpeechTimeout]);
+
   // 处理 WebSocket 消息
   const handleWsMessage = useCallback((event: MessageEvent) => {
     if (isStoppedRef.current) return;
     
-    try {
-      const response: TencentAsrResponse = JSON.parse(event.data);
+    const asrEvent = parseAsrEvent(event.data);
+    if (!asrEvent) {
+      console.error('解析 ASR 响应失败');
+      return;
+    }
+
+    if (asrEvent.type === 'error') {
+      console.error('ASR 错误:', asrEvent.message);
+      return;
+    }
+
+    // 识别结束：本地结束时直接完成录音，否则连接随后关闭（onclose 中处理）
+    if (asrEvent.type === 'endpoint') {
+      if (isEndingRef.current) finishRecording();
+      return;
+    }
+
+    const { text } = asrEvent;
+    
+    clearSilenceTimeout();
+    
+    if (asrEvent.type === 'final') {
+      useMetricsStore.getState().noteAsrFinal();
+      // 句子识别完成，累积到总文本
+      accumulatedTextRef.current += text;
+      currentSentenceRef.current = '';  // 清空当前句子
+      setTranscript(accumulatedTextRef.current);
+      onInterimRef.current?.(accumulatedTextRef.current);
       
-      if (response.code !== 0) {
-        console.error('ASR 错误:', response.message);
+      // 已在本地结束，等待识别结束事件
+      if (isEndingRef.current) return;
+
+      // 客户端 VAD 已检测到语音结束，直接结束本轮
+      if (speechEndedRef.current) {
+        endTurn();
         return;
       }
-
-      if (response.result) {
-        const text = response.result.voice_text_str;
-        const isFinal = response.result.slice_type === ASR_SLICE_TYPE.END;
-        
-        clearSilenceTimeout();
-        
-        if (isFinal) {
-          // VAD 检测到静音，当前句子确认完成，累积到总文本
-          accumulatedTextRef.current += text;
-          currentSentenceRef.current = '';  // 清空当前句子
-          setTranscript(accumulatedTextRef.current);
-          onInterimRef.current?.(accumulatedTextRef.current);
-          
-          // 设置静音超时，等待可能的后续语音
-          silenceTimeoutRef.current = setTimeout(() => {
-            if (!isStoppedRef.current) {
-              finishRecording();
-            }
-          }, silenceTimeout);
-        } else {
-          // 临时结果：替换当前句子（不累加），显示 = 已累积 + 当前句子
-          currentSentenceRef.current = text;
-          const displayText = accumulatedTextRef.current + text;
-          setTranscript(displayText);
-          onInterimRef.current?.(displayText);
+      
+      // 设置静音超时，等待可能的后续语音
+      silenceTimeoutRef.current = setTimeout(() => {
+        if (!isStoppedRef.current) {
+          finishRecording();
         }
+      }, silenceTimeout);
+    } else {
+      // 临时结果：替换当前句子（不累加），显示 = 已累积 + 当前句子
+      currentSentenceRef.current = text;
+      const displayText = accumulatedTextRef.current + text;
+      setTranscript(displayText);
+      onInterimRef.current?.(displayText);
+
+      if (speechEndedRef.current && text.trim()) {
+        endTurn();
       }
-    } catch {
-      console.error('解析 ASR 响应失败');
     }
-  }, [clearSilenceTimeout, finishRecording, silenceTimeout]);
+  }, [clearSilenceTimeout, endTurn, finishRecording, silenceTimeout]);
 
   // 初始化音频处理
   const initAudioProcessing = useCallback(async (
     ws: WebSocket,
-    stream: MediaStream
+    stream: MediaStream,
+    handoff?: CapturedAudioHandoff
   ) => {
     const audioContext = createAudioContext({ sampleRate: 16000 });
     audioContextRef.current = audioContext;
@@ -226,26 +352,50 @@ export function useRealtimeASR(options: UseRealtimeASROptions = {}): UseRealtime
     const source = audioContext.createMediaStreamSource(stream);
     sourceRef.current = source;
 
-    const workletNode = new AudioWorkletNode(audioContext, AUDIO_PROCESSOR_NAME);
+    const vadOptions: RecorderVadOptions = {
+      enabled: vad,
+      hangoverMs: vadHangover,
+      pauseAfterMs: pauseUploadAfter,
+    };
+    const workletNode = new AudioWorkletNode(audioContext, AUDIO_PROCESSOR_NAME, {
+      processorOptions: { vad: vadOptions },
+    });
     workletNodeRef.current = workletNode;
 
-    // 处理音频数据
-    workletNode.port.onmessage = (event) => {
-      if (ws.readyState !== WebSocket.OPEN || isStoppedRef.current) return;
-      const inputData: Float32Array = event.data;
-      const pcmBuffer = audiaToPcmBuffer(inputData, audioContext.sampleRate);
+    // 处理音频数据和 VAD 事件（静音期间处理器暂停发送音频）
+    workletNode.port.onmessage = (event: MessageEvent<RecorderMessage>) => {
+      if (isStoppedRef.current || isEndingRef.current) return;
+      const message = event.data;
+      if (message.type !== 'audio') {
+        handleVadMessage(message);
+        return;
+      }
+      if (ws.readyState !== WebSocket.OPEN) return;
+      const pcmBuffer = audiaToPcmBuffer(message.samples, audioContext.sampleRate);
       ws.send(pcmBuffer);
     };
 
+    // 先发送插话打断时已采集的音频（取出后对方停止采集，由本处理器继续）
+    handoff?.takeAudio().forEach((pcm) => ws.send(pcm));
+
     source.connect(workletNode);
     workletNode.connect(audioContext.destination);
-  }, []);
+
+    if (vad) {
+      startNoSpeechTimeout();
+    }
+  }, [vad, vadHangover, pauseUploadAfter, handleVadMessage, startNoSpeechTimeout]);
 
   // 开始录音
-  const startRecording = useCallback(async () => {
+  const startRecording = useCallback(async (recordingOptions: StartRecordingOptions = {}) => {
     if (isRecording) return;
 
+    const { handoff } = recordingOptions;
+    noSpeechTimeoutMsRef.current = recordingOptions.noSpeechTimeout ?? noSpeechTimeout;
+
     isStoppedRef.current = false;
+    isEndingRef.current = false;
+    speechEndedRef.current = false;
     setError(null);
     accumulatedTextRef.current = '';
     currentSentenceRef.current = '';
@@ -254,20 +404,23 @@ export function useRealtimeASR(options: UseRealtimeASROptions = {}): UseRealtime
     try {
       console.log('🎙️ 开始实时语音识别...');
 
-      // 1. 获取 WebSocket URL
-      const urlResponse = await fetch('/api/asr/realtime');
+      // 1. 获取 WebSocket URL（按当前语言选择识别引擎）
+      const params = new URLSearchParams({ engine });
+      if (language) params.set('language', language);
+      const urlResponse = await fetch(`/api/asr/realtime?${params}`);
       if (!urlResponse.ok) {
         throw new Error('获取语音识别连接失败');
       }
-      const { url: wsUrl } = await urlResponse.json();
+      const { url: wsUrl, engine: resolvedEngine } = await urlResponse.json();
+      console.log('🎙️ 识别引擎:', resolvedEngine);
 
-      // 2. 获取麦克风权限
-      const stream = await navigator.mediaDevices.getUserMedia(MICROPHONE_CONSTRAINTS);
+      // 2. 获取麦克风权限（插话打断时直接使用移交的麦克风流）
+      const stream = handoff?.stream ?? await navigator.mediaDevices.getUserMedia(MICROPHONE_CONSTRAINTS);
       mediaStreamRef.current = stream;
       setMediaStream(stream);
 
-      // 3. 创建 WebSocket 连接
-      const ws = new WebSocket(wsUrl);
+      // 3. 创建 WebSocket 连接（同源代理）
+      const ws = new WebSocket(toWebSocketUrl(wsUrl));
       wsRef.current = ws;
 
       ws.onopen = async () => {
@@ -275,7 +428,7 @@ export function useRealtimeASR(options: UseRealtimeASROptions = {}): UseRealtime
         setIsRecording(true);
 
         try {
-          await initAudioProcessing(ws, stream);
+          await initAudioProcessing(ws, stream, handoff);
         } catch (err) {
           setError(err instanceof Error ? err.message : '音频初始化失败');
           cleanup();
@@ -291,6 +444,11 @@ export function useRealtimeASR(options: UseRealtimeASROptions = {}): UseRealtime
       };
 
       ws.onclose = () => {
+        // 本地结束后连接关闭，返回最终结果
+        if (isEndingRef.current && !isStoppedRef.current) {
+          finishRecording();
+          return;
+        }
         if (!isStoppedRef.current) {
           // 连接意外关闭，返回已累积的结果（包括当前句子）
           const text = (accumulatedTextRef.current + currentSentenceRef.current).trim();
@@ -306,7 +464,7 @@ export function useRealtimeASR(options: UseRealtimeASROptions = {}): UseRealtime
       setError(err instanceof Error ? err.message : '启动失败');
       cleanup();
     }
-  }, [isRecording, cleanup, initAudioProcessing, handleWsMessage]);
+  }, [isRecording, cleanup, finishRecording, initAudioProcessing, handleWsMessage, language, engine, noSpeechTimeout]);
 
   // 停止录音
   const stopRecording = useCallback(() => {
@@ -330,6 +488,7 @@ export function useRealtimeASR(options: UseRealtimeASROptions = {}): UseRealtime
 
   return {
     isRecording,
+    isSpeaking,
     transcript,
     error,
     mediaStream,
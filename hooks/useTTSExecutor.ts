@@ -3,7 +3,9 @@
 import { useCallback, useEffect, useRef } from 'react';
 import { streamTextToSpeech } from '@/services/tts';
 import { useTTSQueueStore, TTSTask } from '@/store/ttsQueueStore';
+import { useMetricsStore } from '@/store/metricsStore';
 import { cleanMarkdown, forceSplitText } from '@/utils/sentenceExtractor';
+import type { VoiceSettings } from '@/types/tts';
 
 /** TTS 单段最大字符数（与后端保持一致） */
 const MAX_TTS_CHARS = 150;
@@ -11,10 +13,12 @@ const MAX_TTS_CHARS = 150;
 export interface UseTTSExecutorOptions {
   /** 最大并发数，默认 2 */
   maxConcurrent?: number;
-  /** 音频数据回调（用于播放） */
-  onAudio: (bytes: Uint8Array) => void;
+  /** 音频数据回调（按任务顺序调用，用于播放；task 提供句子文本和顺序号） */
+  onAudio: (bytes: Uint8Array, task: TTSTask) => void;
   /** AbortSignal 用于取消所有请求 */
   signal?: AbortSignal;
+  /** 合成音色（当前 avatar + 语言），切换后对新任务生效 */
+  voice?: VoiceSettings;
 }
 
 export interface TTSExecutorResult {
@@ -33,7 +37,7 @@ export interface TTSExecutorResult {
  * 负责从队列取任务并发执行 TTS，同时保证音频按顺序播放
  */
 export function useTTSExecutor(options: UseTTSExecutorOptions): TTSExecutorResult {
-  const { maxConcurrent = 2, onAudio, signal } = options;
+  const { maxConcurrent = 2, onAudio, signal, voice } = options;
 
   const {
     tasks,
@@ -61,7 +65,7 @@ export function useTTSExecutor(options: UseTTSExecutorOptions): TTSExecutorResul
   const tryPlayNext = useCallback(() => {
     const task = getNextPlayableTask();
     if (task && task.audioData) {
-      onAudio(task.audioData);
+      onAudio(task.audioData, task);
       markAsPlayed(task.id);
       // 递归检查是否有更多可播放的
       // 使用 setTimeout 避免同步递归
@@ -104,8 +108,10 @@ export function useTTSExecutor(options: UseTTSExecutorOptions): TTSExecutorResul
 
           await streamTextToSpeech(chunk, {
             onAudio: (bytes) => {
+              useMetricsStore.getState().mark('firstTtsAudio');
               audioParts.push(bytes);
             },
+            voice,
             signal: abortSignal,
           });
         }
@@ -143,7 +149,7 @@ export function useTTSExecutor(options: UseTTSExecutorOptions): TTSExecutorResul
         processingIdsRef.current.delete(id);
       }
     },
-    [updateTaskStatus, markAsPlayed, tryPlayNext]
+    [updateTaskStatus, markAsPlayed, tryPlayNext, voice]
   );
 
   /**
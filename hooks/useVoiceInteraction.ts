@@ -4,28 +4,54 @@ import { useCallback, useRef, useEffect } from 'react';
 import { speechToText } from '@/services/asr';
 import { chatStream } from '@/services/chat';
 import { useChatStore } from '@/store/chatStore';
-import { useAvatarStore } from '@/store/avatarStore';
+import { useAvatarStore, selectCurrentAvatar } from '@/store/avatarStore';
 import { useLanguageStore } from '@/store/languageStore';
 import { useWakeStore } from '@/store/wakeStore';
+import { useConversationStore, selectIsProcessing } from '@/store/conversationStore';
 import { useTTSQueueStore } from '@/store/ttsQueueStore';
-import { extractSentences, processRemainingText } from '@/utils/sentenceExtractor';
+import { useMetricsStore } from '@/store/metricsStore';
+import { useSubtitleStore } from '@/store/subtitleStore';
+import { extractSentences, processRemainingText, cleanMarkdown } from '@/utils/sentenceExtractor';
 import { useTTSExecutor } from '@/hooks/useTTSExecutor';
+import type { TTSTask } from '@/store/ttsQueueStore';
 import { useLipsyncPlayer, PreparedLipsyncData } from '@/hooks/useLipsyncPlayer';
+import { getAvatarVoice, isAvatarGesture, type AvatarGesture } from '@/types/avatar';
 
 /** 生成唯一 ID */
 function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 }
 
+/** 一句回复的音频（附带字幕文本和 TTS 任务顺序号） */
+interface ReplySegment {
+  audioBytes: Uint8Array;
+  text: string;
+  order: number;
+}
+
+/** 当前是否仍在回复中（打断或出错后为 false，进行中的异步流程据此退出） */
+function isReplyActive(): boolean {
+  return selectIsProcessing(useConversationStore.getState());
+}
+
 /**
  * 语音交互 Hook
  * 处理完整的语音交互流程：ASR -> Chat -> TTS（句子级分段） -> Lip-sync 播放
+ * 轮次状态通过 conversationStore 状态机流转（SUBMIT → SPEAK → REPLY_END，打断时 INTERRUPT）；
+ * 开启继续对话（wakeStore.followUpSeconds）时，回复播放完成后进入 followUp 聆听窗口，由页面重新开始录音
+ * 回复带动作标签时：首句播放前已收到则先播放动作片段再开口，否则在回复播放完成后播放
  */
 export function useVoiceInteraction() {
-  const { addMessage, updateMessageContent, updateMessageStatus } = useChatStore();
-  const { setAction, lipsyncEnabled, faceFileId, setLipsyncMode } = useAvatarStore();
-  const { language } = useLanguageStore();
-  const { isProcessing, setIsProcessing, setPhase, reset } = useWakeStore();
+  const { addMessage, updateMessageContent, updateMessageStatus, conversationId } = useChatStore();
+  const { lipsyncEnabled, faceFileId, setLipsyncMode } = useAvatarStore();
+  const currentAvatar = useAvatarStore(selectCurrentAvatar);
+  const { language, asrEngine } = useLanguageStore();
+  
+  // 当前 avatar 在当前语言下的音色（切换 avatar 或语言时随之切换）
+  const voice = getAvatarVoice(currentAvatar, language);
+  const { followUpSeconds } = useWakeStore();
+  const isProcessing = useConversationStore(selectIsProcessing);
+  const send = useConversationStore((state) => state.send);
   
   // TTS 队列操作
   const { addTask, clearQueue: clearTTSQueue, reset: resetTTSQueue } = useTTSQueueStore();
@@ -36,29 +62,58 @@ export function useVoiceInteraction() {
   // Lip-sync 并发控制
   const MAX_CONCURRENT_PREPARE = 2;  // 最大同时进行的预生成任务数
   const activePrepareCountRef = useRef(0);  // 当前正在进行的预生成任务数
-  const pendingAudioQueueRef = useRef<Uint8Array[]>([]);  // 等待预生成的音频队列
+  const pendingAudioQueueRef = useRef<ReplySegment[]>([]);  // 等待预生成的音频队列
   
   // Lip-sync 预生成队列（存储 Promise，可以并行预生成）
-  const lipsyncPrepareQueueRef = useRef<Array<Promise<PreparedLipsyncData>>>([]);
+  const lipsyncPrepareQueueRef = useRef<Array<{ segment: ReplySegment; prepared: Promise<PreparedLipsyncData> }>>([]);
   // 播放循环是否在运行
   const isLipsyncLoopRunningRef = useRef(false);
   
-  const audioQueueRef = useRef<Array<{ audio: HTMLAudioElement; url: string }>>([]);
+  const audioQueueRef = useRef<Array<{ audio: HTMLAudioElement; url: string; segment: ReplySegment }>>([]);
   const playingRef = useRef(false);
   const drainResolvers = useRef<Array<() => void>>([]);
   
   // 追踪当前正在播放的音频（已从队列移出）
   const currentAudioRef = useRef<{ audio: HTMLAudioElement; url: string } | null>(null);
   
-  // 用于取消正在进行的请求
+  // 用于取消正在进行的请求（每轮一个，signal 同时作为该轮的标识）
   const abortControllerRef = useRef<AbortController | null>(null);
-  
-  // 标记是否被打断（避免 finally 重复重置状态）
-  const wasInterruptedRef = useRef(false);
+  // 当前轮次的 handleTextInput 结束（打断后等待旧轮次退出再开始新一轮）
+  const turnSettledRef = useRef<Promise<void> | null>(null);
   
   // 句子缓冲区（用于流式 Chat 时提取完整句子）
   const sentenceBufferRef = useRef('');
 
+  // 本轮回复的动作片段（played: 已安排播放）及首句是否已开始播放
+  const replyGestureRef = useRef<{ gesture: AvatarGesture; played: boolean } | null>(null);
+  const replyPlaybackStartedRef = useRef(false);
+
+  /**
+   * 首句播放前调用：已收到动作标签时先播放动作片段，片段结束后再开口
+   * 只在每轮第一句生效，之后到达的标签留到回复结束后播放
+   */
+  const playLeadingGesture = useCallback(async () => {
+    if (replyPlaybackStartedRef.current) return;
+    replyPlaybackStartedRef.current = true;
+
+    const pending = replyGestureRef.current;
+    if (!pending || pending.played) return;
+    pending.played = true;
+    console.log('🙋 播放动作片段:', pending.gesture);
+    await useAvatarStore.getState().playGesture(pending.gesture, abortControllerRef.current?.signal);
+  }, []);
+
+  /**
+   * 回复播放完成后调用：首句开口后才收到的动作标签在此时播放
+   */
+  const playTrailingGesture = useCallback(() => {
+    const pending = replyGestureRef.current;
+    if (!pending || pending.played) return;
+    pending.played = true;
+    console.log('🙋 播放动作片段:', pending.gesture);
+    void useAvatarStore.getState().playGesture(pending.gesture);
+  }, []);
+
   // 组件卸载时清理音频资源
   useEffect(() => {
     return () => {
@@ -107,16 +162,23 @@ export function useVoiceInteraction() {
       const next = audioQueueRef.current.shift();
       if (!next) {
         currentAudioRef.current = null;
-        setAction('idle');
         resolveDrain();
         return;
       }
 
       playingRef.current = true;
       currentAudioRef.current = next; // 追踪当前播放的音频
-      const { audio, url } = next;
+      const { audio, url, segment } = next;
 
-      audio.onplay = () => setAction('talk');
+      audio.onplay = () => {
+        useSubtitleStore.getState().showSentence({
+          text: segment.text,
+          order: segment.order,
+          durationMs: Number.isFinite(audio.duration) ? audio.duration * 1000 : undefined,
+        });
+        useMetricsStore.getState().mark('playbackStart');
+        send({ type: 'SPEAK' });
+      };
       audio.onended = () => {
         URL.revokeObjectURL(url);
         currentAudioRef.current = null;
@@ -131,24 +193,28 @@ export function useVoiceInteraction() {
         playNextRef.current();
       };
 
-      audio.play().catch((err) => {
-        console.error('音频播放失败:', err);
-        URL.revokeObjectURL(url);
-        currentAudioRef.current = null;
-        playingRef.current = false;
-        playNextRef.current();
+      playLeadingGesture().then(() => {
+        // 等待动作片段期间被打断时，音频已在 interrupt 中释放
+        if (currentAudioRef.current !== next) return;
+        audio.play().catch((err) => {
+          console.error('音频播放失败:', err);
+          URL.revokeObjectURL(url);
+          currentAudioRef.current = null;
+          playingRef.current = false;
+          playNextRef.current();
+        });
       });
     };
-  }, [resolveDrain, setAction]);
+  }, [resolveDrain, send, playLeadingGesture]);
 
   const enqueueAudio = useCallback(
-    (bytes: Uint8Array) => {
+    (segment: ReplySegment) => {
       // Copy into a fresh Uint8Array to avoid SharedArrayBuffer typing issues
-      const safeBytes = new Uint8Array(bytes);
+      const safeBytes = new Uint8Array(segment.audioBytes);
       const blob = new Blob([safeBytes], { type: 'audio/mp3' });
       const url = URL.createObjectURL(blob);
       const audio = new Audio(url);
-      audioQueueRef.current.push({ audio, url });
+      audioQueueRef.current.push({ audio, url, segment });
       playNextRef.current();
     },
     []
@@ -173,17 +239,18 @@ export function useVoiceInteraction() {
 
   /**
    * Lip-sync 播放循环
-   * 按顺序等待预生成完成并播放
+   * 按顺序等待预生成完成并播放；循环属于启动时的轮次，该轮被打断后不再读取队列和通知等待者
    */
   const runLipsyncPlayLoop = useCallback(async () => {
     if (isLipsyncLoopRunningRef.current) return;
     isLipsyncLoopRunningRef.current = true;
+    const signal = abortControllerRef.current?.signal;
     
     console.log('🎬 Lip-sync 播放循环开始');
     
-    while (lipsyncPrepareQueueRef.current.length > 0) {
+    while (!signal?.aborted && lipsyncPrepareQueueRef.current.length > 0) {
       // 取出队首的 Promise
-      const preparePromise = lipsyncPrepareQueueRef.current.shift()!;
+      const { segment, prepared: preparePromise } = lipsyncPrepareQueueRef.current.shift()!;
       
       try {
         // 等待预生成完成
@@ -191,8 +258,11 @@ export function useVoiceInteraction() {
         setLipsyncMode('buffering');
         const preparedData = await preparePromise;
         
+        // 首句开口前先播放动作片段
+        await playLeadingGesture();
+
         // 检查是否被打断
-        if (wasInterruptedRef.current) {
+        if (signal?.aborted || !isReplyActive()) {
           console.log('播放循环被打断');
           break;
         }
@@ -201,10 +271,11 @@ export function useVoiceInteraction() {
         console.log('▶️ 播放对口型');
         
         await playPrepared(preparedData, {
-          onPlayStart: () => {
+          onPlayStart: ({ durationMs }) => {
+            useSubtitleStore.getState().showSentence({ text: segment.text, order: segment.order, durationMs });
             // 在 Canvas 显示后（首帧已渲染）再切换状态，避免闪烁
-            setPhase('speaking');
-            setAction('talk');
+            useMetricsStore.getState().mark('playbackStart');
+            send({ type: 'SPEAK' });
           },
           onPlayEnd: () => {
             console.log('✅ 一句播放完成');
@@ -216,7 +287,7 @@ export function useVoiceInteraction() {
         
       } catch (error) {
         // AbortError 或已打断的情况，静默退出
-        if (wasInterruptedRef.current || 
+        if (signal?.aborted || !isReplyActive() || 
             (error instanceof Error && error.name === 'AbortError') ||
             (error instanceof DOMException && error.name === 'AbortError')) {
           console.log('Lip-sync 预生成被取消');
@@ -226,13 +297,17 @@ export function useVoiceInteraction() {
       }
     }
     
+    // 被打断时队列和等待者已在 interrupt 中清理，新一轮可能已经开始，不再改动
+    if (signal?.aborted) {
+      console.log('🎬 Lip-sync 播放循环结束（已打断）');
+      return;
+    }
+
     // 循环结束
     isLipsyncLoopRunningRef.current = false;
     
-    // 如果不是被打断的，恢复到 idle 状态
-    if (!wasInterruptedRef.current) {
-      setAction('idle');
-      setPhase('idle');
+    // 隐藏 Canvas（轮次状态由 handleTextInput 在全部播放完成后更新）
+    if (isReplyActive()) {
       setLipsyncMode('idle');
     }
     
@@ -241,12 +316,12 @@ export function useVoiceInteraction() {
     drainResolvers.current = [];
     
     console.log('🎬 Lip-sync 播放循环结束');
-  }, [playPrepared, setAction, setPhase, setLipsyncMode]);
+  }, [playPrepared, send, setLipsyncMode, playLeadingGesture]);
 
   /**
    * 启动一个预生成任务（内部函数）
    */
-  const startPrepareTask = useCallback((audioBytes: Uint8Array) => {
+  const startPrepareTask = useCallback((segment: ReplySegment) => {
     if (!faceFileId) return;
     
     activePrepareCountRef.current++;
@@ -254,21 +329,24 @@ export function useVoiceInteraction() {
     
     const preparePromise = prepareLipsync(
       faceFileId, 
-      audioBytes, 
+      segment.audioBytes, 
       abortControllerRef.current?.signal
-    ).finally(() => {
+    );
+    
+    // 流式模式下 prepare 会先返回，需等全部帧生成结束才释放并发名额
+    preparePromise.then((data) => data.completed).catch(() => {}).finally(() => {
       // 任务完成（成功或失败），减少计数
       activePrepareCountRef.current--;
       
       // 检查等待队列，启动下一个任务
       if (pendingAudioQueueRef.current.length > 0 && activePrepareCountRef.current < MAX_CONCURRENT_PREPARE) {
-        const nextAudio = pendingAudioQueueRef.current.shift()!;
-        startPrepareTask(nextAudio);
+        const nextSegment = pendingAudioQueueRef.current.shift()!;
+        startPrepareTask(nextSegment);
       }
     });
     
     // 加入预生成队列
-    lipsyncPrepareQueueRef.current.push(preparePromise);
+    lipsyncPrepareQueueRef.current.push({ segment, prepared: preparePromise });
     
     // 启动播放循环（如果尚未运行）
     runLipsyncPlayLoop().catch(err => {
@@ -279,20 +357,21 @@ export function useVoiceInteraction() {
   }, [faceFileId, prepareLipsync, runLipsyncPlayLoop]);
 
   // 处理音频的回调（判断是否启用 lip-sync）
-  const handleAudio = useCallback((audioBytes: Uint8Array) => {
+  const handleAudio = useCallback((audioBytes: Uint8Array, task: TTSTask) => {
+    const segment: ReplySegment = { audioBytes, text: cleanMarkdown(task.text), order: task.order };
     if (lipsyncEnabled && faceFileId) {
       // 检查是否达到最大并发数
       if (activePrepareCountRef.current < MAX_CONCURRENT_PREPARE) {
         // 未达到上限，立即启动预生成
-        startPrepareTask(audioBytes);
+        startPrepareTask(segment);
       } else {
         // 达到上限，加入等待队列
         console.log(`⏸️ 预生成任务已满 (${MAX_CONCURRENT_PREPARE})，加入等待队列`);
-        pendingAudioQueueRef.current.push(audioBytes);
+        pendingAudioQueueRef.current.push(segment);
       }
     } else {
       // 降级：使用原有音频播放
-      enqueueAudio(audioBytes);
+      enqueueAudio(segment);
     }
   }, [lipsyncEnabled, faceFileId, enqueueAudio, startPrepareTask]);
 
@@ -305,17 +384,19 @@ export function useVoiceInteraction() {
     maxConcurrent: 2,
     onAudio: handleAudio,
     signal: abortControllerRef.current?.signal,
+    voice,
   });
 
   /**
    * 打断当前回复
    * 停止音频播放、取消流式请求、重置状态
+   * @returns 被打断的轮次退出后 resolve（打断后立即提交新输入时先等待，避免旧轮次的收尾影响新一轮）
    */
-  const interrupt = useCallback(() => {
+  const interrupt = useCallback(async () => {
+    // 标记已被打断（不在回复中时忽略）
+    if (!send({ type: 'INTERRUPT' })) return;
     console.log('🛑 用户打断回复');
-    
-    // 标记已被打断
-    wasInterruptedRef.current = true;
+    useMetricsStore.getState().endTurn('interrupted');
     
     // 1. 取消进行中的请求
     if (abortControllerRef.current) {
@@ -348,26 +429,37 @@ export function useVoiceInteraction() {
     audioQueueRef.current = [];
     playingRef.current = false;
     
-    // 6. 清空句子缓冲区
+    // 6. 清空句子缓冲区和动作片段
     sentenceBufferRef.current = '';
+    replyGestureRef.current = null;
+    if (isAvatarGesture(useAvatarStore.getState().action)) {
+      useAvatarStore.getState().setAction('idle');
+    }
     
-    // 7. 重置状态（使用单一 action 保证原子性）
-    setAction('idle');
+    // 7. 重置状态
     setLipsyncMode('idle');
-    reset(); // 同时重置 isProcessing 和 phase
+    useSubtitleStore.getState().clear();
+    send({ type: 'RESET' });
     
     // 8. 清理 drain resolvers
     drainResolvers.current.forEach((fn) => fn());
     drainResolvers.current = [];
-  }, [setAction, setLipsyncMode, reset, stopTTSProcessing, stopLipsync]);
+
+    await turnSettledRef.current;
+  }, [send, setLipsyncMode, stopTTSProcessing, stopLipsync]);
 
   // 处理文本输入（流式语音识别后直接调用）
   const handleTextInput = useCallback(async (userText: string) => {
-    if (isProcessing || !userText.trim()) return;
+    // 回复中或当前状态不允许提交时忽略
+    if (!userText.trim() || !send({ type: 'SUBMIT' })) return;
+    const metrics = useMetricsStore.getState();
+    metrics.startTurn();
+    useSubtitleStore.getState().startReply(userText);
     
-    // 重置打断标记和句子缓冲区
-    wasInterruptedRef.current = false;
+    // 重置句子缓冲区和动作片段
     sentenceBufferRef.current = '';
+    replyGestureRef.current = null;
+    replyPlaybackStartedRef.current = false;
     
     // 重置 TTS 队列和 Lip-sync 队列
     resetTTSQueue();
@@ -376,18 +468,19 @@ export function useVoiceInteraction() {
     activePrepareCountRef.current = 0;
     isLipsyncLoopRunningRef.current = false;
     
-    setIsProcessing(true);
-    setPhase('thinking'); // 开始思考
-    setAction('think');   // 进入思考状态，播放 think.mp4
     const msgId = generateId();
     const botMsgId = generateId();
     
     // 创建新的 AbortController
     abortControllerRef.current = new AbortController();
     const signal = abortControllerRef.current.signal;
+    let settleTurn = () => {};
+    turnSettledRef.current = new Promise<void>((resolve) => {
+      settleTurn = resolve;
+    });
 
-    // 标记是否已开始说话（对于 lip-sync 模式，此标记不再用于切换 phase）
-    let hasSentFirstSentence = false;
+    // 标记回复是否完整播放（用于继续对话）
+    let hasCompleted = false;
 
     try {
       console.log('📝 处理用户输入:', userText);
@@ -420,6 +513,7 @@ export function useVoiceInteraction() {
       await chatStream(
         userText,
         (chunk) => {
+          metrics.mark('chatFirstToken');
           fullBotResponse += chunk;
           sentenceBufferRef.current += chunk;
           updateMessageContent(botMsgId, fullBotResponse);
@@ -431,21 +525,19 @@ export function useVoiceInteraction() {
           // 立即将完整句子加入 TTS 队列
           for (const sentence of completeSentences) {
             console.log('📤 句子入队:', sentence);
+            metrics.mark('firstSentence');
             addTask(sentence);
-            
-            // 第一个句子入队时，切换到 speaking 阶段（仅降级模式）
-            // lip-sync 模式下，phase 由播放器在帧就绪时切换
-            if (!hasSentFirstSentence && !lipsyncEnabled) {
-              hasSentFirstSentence = true;
-              setPhase('speaking');
-              console.log('🔊 开始句子级流式语音合成（降级模式）...');
-            }
           }
         },
         {
           language,
-          systemPrompt: 'Please respond in English.',
+          conversationId,
+          avatarId: currentAvatar?.id,
           signal,
+          onGesture: (gesture) => {
+            console.log('🙋 回复动作标签:', gesture);
+            replyGestureRef.current = { gesture, played: false };
+          },
         }
       );
       
@@ -460,13 +552,8 @@ export function useVoiceInteraction() {
       const remainingChunks = processRemainingText(sentenceBufferRef.current);
       for (const chunk of remainingChunks) {
         console.log('📤 剩余文本入队:', chunk);
+        metrics.mark('firstSentence');
         addTask(chunk);
-        
-        // 对于降级模式（非 lip-sync），在这里切换 phase
-        if (!hasSentFirstSentence && !lipsyncEnabled) {
-          hasSentFirstSentence = true;
-          setPhase('speaking');
-        }
       }
       sentenceBufferRef.current = '';
 
@@ -474,18 +561,18 @@ export function useVoiceInteraction() {
       await waitForTTSComplete();
       
       // 等待播放完成（根据是否启用 lip-sync 选择等待哪个队列）
+      // 开始播放时由播放器发送 SPEAK（lip-sync 在首帧渲染后，降级模式在音频开始播放时）
       if (lipsyncEnabled && faceFileId) {
         await waitForLipsyncDrain();
       } else {
         await waitForDrain();
-        setPhase('idle'); // 降级模式下在这里重置 phase
-        setAction('idle');
       }
-      // lip-sync 模式下，phase 和 action 由 playNextLipsyncRef 在队列播放完成时重置
+      // 本轮被打断后状态可能已属于新一轮，不能据此判断
+      hasCompleted = !signal.aborted && isReplyActive();
 
     } catch (error) {
       // 如果是用户打断导致的取消，不视为错误
-      if (signal.aborted || wasInterruptedRef.current) {
+      if (signal.aborted || !isReplyActive()) {
         console.log('🛑 请求已被用户打断');
         // 如果有部分响应，标记为成功（已显示的内容）
         const currentContent = useChatStore.getState().messages.find(m => m.id === botMsgId)?.content;
@@ -497,67 +584,69 @@ export function useVoiceInteraction() {
       }
       
       console.error('语音交互错误:', error);
-      setAction('idle');
-      setPhase('idle');
+      metrics.endTurn('error');
+      send({ type: 'ERROR', message: error instanceof Error ? error.message : '语音交互错误' });
       updateMessageStatus(botMsgId, 'error');
     } finally {
       // 清理 controller 引用
       if (abortControllerRef.current?.signal === signal) {
         abortControllerRef.current = null;
       }
-      // 只有非打断情况才在 finally 中重置状态（打断时已在 interrupt() 中重置）
-      if (!wasInterruptedRef.current) {
-        setIsProcessing(false);
+      // 完整播放后结束本轮（打断和出错时已在对应位置更新状态）；开启继续对话时进入聆听窗口
+      if (hasCompleted) {
+        metrics.endTurn('completed');
+        send({ type: 'REPLY_END', followUp: followUpSeconds > 0 });
+
+        playTrailingGesture();
       }
+      settleTurn();
     }
   }, [
     addMessage,
     updateMessageContent,
     updateMessageStatus,
-    setAction,
-    setPhase,
-    setIsProcessing,
-    isProcessing,
+    send,
     waitForDrain,
     waitForLipsyncDrain,
     language,
+    conversationId,
+    currentAvatar,
     addTask,
     resetTTSQueue,
     startTTSProcessing,
     waitForTTSComplete,
     lipsyncEnabled,
     faceFileId,
+    followUpSeconds,
+    playTrailingGesture,
   ]);
 
   // 处理语音输入（录音后调用，需要先 ASR）
   const handleVoiceInput = useCallback(async (audioBlob: Blob) => {
     if (isProcessing) return;
     
-    setIsProcessing(true);
     const botMsgId = generateId();
 
     try {
       // ASR: 语音转文字
       console.log('🎤 语音识别中...');
-      const userText = await speechToText(audioBlob);
+      const userText = await speechToText(audioBlob, { language, engine: asrEngine });
       console.log('🎤 识别结果:', userText);
 
       if (!userText.trim()) {
-        setIsProcessing(false);
+        send({ type: 'STOP_LISTENING' });
         return;
       }
 
-      // 重置处理状态，让 handleTextInput 接管
-      setIsProcessing(false);
+      // 交给 handleTextInput 处理
       await handleTextInput(userText);
 
     } catch (error) {
       console.error('语音识别错误:', error);
-      setAction('idle');
-      setIsProcessing(false);
+      send({ type: 'ERROR', message: '语音识别失败' });
       updateMessageStatus(botMsgId, 'error');
     }
-  }, [handleTextInput, setAction, updateMessageStatus, isProcessing, setIsProcessing]);
+  }, [handleTextInput, send, updateMessageStatus, isProcessing, language, asrEngine]);
 
   return {
     isProcessing,
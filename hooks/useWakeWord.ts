@@ -2,7 +2,8 @@
 
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { createAudioContext, audiaToPcmBuffer } from '@/utils/audio';
-import { TencentAsrResponse, ASR_SLICE_TYPE } from '@/types/asr';
+import { parseAsrEvent, toWebSocketUrl } from '@/utils/asr';
+import type { RecorderMessage } from '@/types/audio';
 import {
   WAKE_WORD_COOLDOWN_MS,
   MAX_ACCUMULATED_TEXT_LENGTH,
@@ -151,10 +152,9 @@ export function useWakeWord(options: UseWakeWordOptions = {}): UseWakeWordReturn
     const workletNode = new AudioWorkletNode(audioContext, AUDIO_PROCESSOR_NAME);
     workletNodeRef.current = workletNode;
 
-    workletNode.port.onmessage = (event) => {
-      if (ws.readyState !== WebSocket.OPEN) return;
-      const inputData: Float32Array = event.data;
-      const pcmBuffer = audiaToPcmBuffer(inputData, audioContext.sampleRate);
+    workletNode.port.onmessage = (event: MessageEvent<RecorderMessage>) => {
+      if (ws.readyState !== WebSocket.OPEN || event.data.type !== 'audio') return;
+      const pcmBuffer = audiaToPcmBuffer(event.data.samples, audioContext.sampleRate);
       ws.send(pcmBuffer);
     };
 
@@ -164,40 +164,35 @@ export function useWakeWord(options: UseWakeWordOptions = {}): UseWakeWordReturn
 
   // 处理 WebSocket 消息
   const handleWsMessage = useCallback((event: MessageEvent) => {
-    try {
-      const response: TencentAsrResponse = JSON.parse(event.data);
-      
-      if (response.code !== 0 || !response.result) return;
+    const asrEvent = parseAsrEvent(event.data);
+    if (asrEvent?.type !== 'partial' && asrEvent?.type !== 'final') return;
 
-      const text = response.result.voice_text_str;
-      const isFinal = response.result.slice_type === ASR_SLICE_TYPE.END;
+    const { text } = asrEvent;
+    const isFinal = asrEvent.type === 'final';
 
-      // 累积最终结果
-      if (isFinal) {
-        accumulatedTextRef.current += text;
-      }
+    // 累积最终结果
+    if (isFinal) {
+      accumulatedTextRef.current += text;
+    }
 
-      // 检查唤醒词
-      const textToCheck = isFinal 
-        ? accumulatedTextRef.current 
-        : accumulatedTextRef.current + text;
-      
-      const now = Date.now();
-      const cooldownElapsed = now - lastWakeUpTimeRef.current > WAKE_WORD_COOLDOWN_MS;
-
-      if (checkWakeWord(textToCheck) && cooldownElapsed) {
-        console.log('✅ 检测到唤醒词:', textToCheck);
-        lastWakeUpTimeRef.current = now;
-        accumulatedTextRef.current = '';
-        onWakeUpRef.current?.();
-      }
+    // 检查唤醒词
+    const textToCheck = isFinal 
+      ? accumulatedTextRef.current 
+      : accumulatedTextRef.current + text;
+    
+    const now = Date.now();
+    const cooldownElapsed = now - lastWakeUpTimeRef.current > WAKE_WORD_COOLDOWN_MS;
+
+    if (checkWakeWord(textToCheck) && cooldownElapsed) {
+      console.log('✅ 检测到唤醒词:', textToCheck);
+      lastWakeUpTimeRef.current = now;
+      accumulatedTextRef.current = '';
+      onWakeUpRef.current?.();
+    }
 
-      // 防止累积文本过长
-      if (accumulatedTextRef.current.length > MAX_ACCUMULATED_TEXT_LENGTH) {
-        accumulatedTextRef.current = accumulatedTextRef.current.slice(-TRIM_TEXT_TO_LENGTH);
-      }
-    } catch {
-      // 忽略解析错误
+    // 防止累积文本过长
+    if (accumulatedTextRef.current.length > MAX_ACCUMULATED_TEXT_LENGTH) {
+      accumulatedTextRef.current = accumulatedTextRef.current.slice(-TRIM_TEXT_TO_LENGTH);
     }
   }, [checkWakeWord]);
 
@@ -241,8 +236,8 @@ export function useWakeWord(options: UseWakeWordOptions = {}): UseWakeWordReturn
       const stream = await navigator.mediaDevices.getUserMedia(MICROPHONE_CONSTRAINTS);
       mediaStreamRef.current = stream;
 
-      // 创建 WebSocket 连接
-      const ws = new WebSocket(wsUrl);
+      // 创建 WebSocket 连接（同源代理）
+      const ws = new WebSocket(toWebSocketUrl(wsUrl));
       wsRef.current = ws;
 
       ws.onopen = async () => {
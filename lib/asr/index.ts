@@ -0,0 +1,25 @@
+import type { AsrAdapter, AsrProviderName } from './types';
+import { createTencentAsrAdapter } from './tencent';
+import { createMockAsrAdapter } from './mock';
+
+export type { AsrAdapter, AsrProviderName } from './types';
+
+/**
+ * 根据环境变量 ASR_PROVIDER 创建实时 ASR 适配器（默认 tencent）
+ * @throws Provider 未知时抛出错误
+ */
+export function getAsrAdapter(): AsrAdapter {
+  const name = (process.env.ASR_PROVIDER || 'tencent') as AsrProviderName;
+
+  switch (name) {
+    case 'tencent':
+      return createTencentAsrAdapter();
+
+    case 'mock':
+      return createMockAsrAdapter();
+
+    default:
+      console.error(`ASR: 未知的 ASR_PROVIDER "${name}"`);
+      throw new Error('服务配置错误');
+  }
+}
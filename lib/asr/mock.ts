@@ -0,0 +1,301 @@
+import fs from 'fs';
+import http from 'http';
+import { randomUUID } from 'crypto';
+import type { Duplex } from 'stream';
+import type { AsrEngine, TencentAsrResponse, TencentAsrResult } from '@/types/asr';
+import { ASR_SLICE_TYPE } from '@/types/asr';
+import { acceptWebSocket, rejectUpgrade } from './websocket';
+import { DEFAULT_ASR_CONFIG, parseTencentAsrMessage } from './tencent';
+import type { AsrAdapter } from './types';
+
+/**
+ * 腾讯云 ASR mock（离线演示 / 联调用）
+ * - 实时识别：本地 WebSocket 服务，协议与腾讯云实时 ASR 一致（slice_type 0/1/2）
+ * - 一句话识别：直接返回脚本中的下一句
+ *
+ * 识别结果来自脚本（ASR_MOCK_SCRIPT 或内置脚本），按顺序循环；
+ * 实时识别由收到的 PCM 音量驱动：检测到说话后逐字吐出临时结果，静音达到 vad_silence_time 后给出最终结果
+ */
+
+/** 默认 mock 服务端口 */
+const DEFAULT_MOCK_ASR_PORT = 8765;
+/** 判定为说话的 RMS 阈值（16 位 PCM） */
+const SPEECH_RMS_THRESHOLD = 500;
+/** 连续说话多久后开始一句话（毫秒） */
+const SPEECH_START_MS = 200;
+/** 每吐出一个字 / 词需要的音频时长（毫秒） */
+const REVEAL_INTERVAL_MS = 150;
+/** 默认 VAD 静音时长（毫秒） */
+const DEFAULT_VAD_SILENCE_MS = 1000;
+/** 16k 16 位单声道 PCM 每毫秒字节数 */
+const PCM_BYTES_PER_MS = 32;
+
+/** 脚本语言 */
+type ScriptLanguage = 'zh' | 'en';
+
+/**
+ * 内置脚本：唤醒词和提问交替，唤醒会话和识别会话依次取用
+ */
+const DEFAULT_SCRIPTS: Record<ScriptLanguage, string[]> = {
+  zh: ['你好墨子', '介绍一下你自己', '你好墨子', '创业初期最重要的是什么？'],
+  en: ['Hello Mozi', 'Tell me about yourself', 'Hello Mozi', 'What matters most when starting a company?'],
+};
+
+/** 全局状态（开发模式热更新、不同路由之间共享） */
+const globalForMock = globalThis as typeof globalThis & {
+  asrMockCursors?: Record<ScriptLanguage, number>;
+  asrMockServer?: Promise<number>;
+};
+const cursors = (globalForMock.asrMockCursors ??= { zh: 0, en: 0 });
+
+/** 脚本文件缓存（按修改时间失效） */
+let fileCache: { path: string; mtimeMs: number; scripts: Partial<Record<ScriptLanguage, string[]>> } | null = null;
+
+/**
+ * 读取 ASR_MOCK_SCRIPT 脚本
+ * 文件格式：{ "zh": ["..."], "en": ["..."] }，或字符串数组（所有语言共用）
+ */
+function loadScripts(): Partial<Record<ScriptLanguage, string[]>> {
+  const filePath = process.env.ASR_MOCK_SCRIPT;
+  if (!filePath) return DEFAULT_SCRIPTS;
+
+  try {
+    const { mtimeMs } = fs.statSync(filePath);
+    if (fileCache?.path === filePath && fileCache.mtimeMs === mtimeMs) {
+      return fileCache.scripts;
+    }
+
+    const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const scripts = Array.isArray(content) ? { zh: content, en: content } : content;
+    if (!scripts || typeof scripts !== 'object') {
+      throw new Error('脚本必须是字符串数组或以语言为键的对象');
+    }
+
+    fileCache = { path: filePath, mtimeMs, scripts };
+    return scripts;
+  } catch (error) {
+    console.error(`读取 ASR_MOCK_SCRIPT 失败 (${filePath}):`, error);
+    return DEFAULT_SCRIPTS;
+  }
+}
+
+/**
+ * 是否使用 mock ASR（ASR_PROVIDER=mock）
+ */
+export function isMockAsr(): boolean {
+  return process.env.ASR_PROVIDER === 'mock';
+}
+
+/**
+ * 取脚本中的下一句
+ */
+export function nextMockTranscript(engine: AsrEngine): string {
+  const language: ScriptLanguage = engine === '16k_en' ? 'en' : 'zh';
+  const script = loadScripts()[language]?.filter((line) => typeof line === 'string' && line.trim());
+  const lines = script?.length ? script : DEFAULT_SCRIPTS[language];
+
+  const line = lines[cursors[language] % lines.length];
+  cursors[language]++;
+  return line;
+}
+
+/**
+ * 把一句话拆成逐步吐出的单元（中文按字，其他按词）
+ */
+function splitUnits(text: string): string[] {
+  return text.match(/[\u4e00-\u9fff]|[^\s\u4e00-\u9fff]+\s*|\s+/g) ?? [text];
+}
+
+/**
+ * 计算 16 位 PCM 的 RMS
+ */
+function pcmRms(pcm: Buffer): number {
+  const count = Math.floor(pcm.length / 2);
+  if (count === 0) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < count; i++) {
+    const sample = pcm.readInt16LE(i * 2);
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / count);
+}
+
+/** 发送给客户端的消息（包含腾讯云协议中前端未使用的字段） */
+type MockAsrMessage = Omit<TencentAsrResponse, 'result'> & {
+  result?: TencentAsrResult & {
+    index: number;
+    start_time: number;
+    end_time: number;
+    word_size: number;
+  };
+};
+
+/** 正在识别的一句话 */
+interface MockUtterance {
+  index: number;
+  units: string[];
+  revealed: number;
+  startMs: number;
+  silenceMs: number;
+}
+
+/**
+ * 处理一个实时识别连接
+ */
+function handleConnection(request: http.IncomingMessage, socket: Duplex, head: Buffer) {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  if (!url.pathname.startsWith('/asr/v2/')) {
+    rejectUpgrade(socket, 404, 'Not Found');
+    return;
+  }
+
+  const engine = (url.searchParams.get('engine_model_type') || '16k_zh') as AsrEngine;
+  const voiceId = url.searchParams.get('voice_id') || randomUUID();
+  const vadSilenceMs = Number(url.searchParams.get('vad_silence_time')) || DEFAULT_VAD_SILENCE_MS;
+
+  let audioMs = 0;
+  let speechMs = 0;
+  let sentenceIndex = 0;
+  let utterance: MockUtterance | null = null;
+
+  const send = (response: MockAsrMessage) => {
+    ws?.send(JSON.stringify({ ...response, voice_id: voiceId, message_id: `${voiceId}_${randomUUID()}` }));
+  };
+
+  const sendSlice = (current: MockUtterance, sliceType: number, text: string) => {
+    send({
+      code: 0,
+      message: 'success',
+      result: {
+        slice_type: sliceType,
+        index: current.index,
+        start_time: current.startMs,
+        end_time: audioMs,
+        voice_text_str: text,
+        word_size: 0,
+        word_list: [],
+      },
+    });
+  };
+
+  const finishUtterance = () => {
+    if (!utterance) return;
+    sendSlice(utterance, ASR_SLICE_TYPE.END, utterance.units.join(''));
+    utterance = null;
+    speechMs = 0;
+  };
+
+  const handleAudio = (pcm: Buffer) => {
+    const chunkMs = pcm.length / PCM_BYTES_PER_MS;
+    const speaking = pcmRms(pcm) >= SPEECH_RMS_THRESHOLD;
+    audioMs += chunkMs;
+
+    if (!utterance) {
+      speechMs = speaking ? speechMs + chunkMs : 0;
+      if (speechMs < SPEECH_START_MS) return;
+
+      utterance = {
+        index: sentenceIndex++,
+        units: splitUnits(nextMockTranscript(engine)),
+        revealed: 0,
+        startMs: audioMs - speechMs,
+        silenceMs: 0,
+      };
+      sendSlice(utterance, ASR_SLICE_TYPE.START, '');
+      return;
+    }
+
+    utterance.silenceMs = speaking ? 0 : utterance.silenceMs + chunkMs;
+
+    // 按音频时长逐步吐出临时结果
+    const target = Math.min(
+      utterance.units.length,
+      Math.floor((audioMs - utterance.startMs) / REVEAL_INTERVAL_MS)
+    );
+    if (target > utterance.revealed) {
+      utterance.revealed = target;
+      sendSlice(utterance, ASR_SLICE_TYPE.MIDDLE, utterance.units.slice(0, target).join(''));
+    }
+
+    if (utterance.silenceMs >= vadSilenceMs) {
+      finishUtterance();
+    }
+  };
+
+  const handleText = (text: string) => {
+    try {
+      if (JSON.parse(text)?.type !== 'end') return;
+    } catch {
+      return;
+    }
+
+    // 客户端结束：补发未完成的句子，再发送 final 标记并关闭
+    finishUtterance();
+    send({ code: 0, message: 'success', final: 1 });
+    ws?.close();
+  };
+
+  const ws = acceptWebSocket(request, socket, head, {
+    onBinary: handleAudio,
+    onText: handleText,
+  });
+  if (!ws) return;
+
+  console.log(`🧪 ASR mock 连接: ${engine}, voice_id=${voiceId}`);
+  send({ code: 0, message: 'success' });
+}
+
+/**
+ * 启动实时识别 mock 服务（只启动一次），返回端口
+ * 端口由 ASR_MOCK_PORT 指定，默认 8765
+ */
+export function ensureMockAsrServer(): Promise<number> {
+  globalForMock.asrMockServer ??= new Promise<number>((resolve, reject) => {
+    const port = Number(process.env.ASR_MOCK_PORT) || DEFAULT_MOCK_ASR_PORT;
+
+    const server = http.createServer((_request, response) => {
+      response.writeHead(426, { 'Content-Type': 'text/plain; charset=utf-8' });
+      response.end('WebSocket only');
+    });
+    server.on('upgrade', handleConnection);
+
+    server.once('error', (error) => {
+      globalForMock.asrMockServer = undefined;
+      reject(error);
+    });
+    // 只由服务端 ASR 代理连接，不对外暴露
+    server.listen(port, '127.0.0.1', () => {
+      console.log(`🧪 ASR mock 服务已启动: ws://127.0.0.1:${port}`);
+      resolve(port);
+    });
+  });
+
+  return globalForMock.asrMockServer;
+}
+
+/**
+ * 生成 mock 实时识别 WebSocket URL（供服务端 ASR 代理连接）
+ */
+async function getMockRealtimeAsrUrl(engine: AsrEngine, vadSilenceTime: number): Promise<string> {
+  const port = await ensureMockAsrServer();
+  const query = new URLSearchParams({
+    engine_model_type: engine,
+    voice_id: randomUUID(),
+    vad_silence_time: String(vadSilenceTime),
+  });
+  return `ws://127.0.0.1:${port}/asr/v2/mock?${query}`;
+}
+
+/**
+ * 创建 mock 实时 ASR 适配器（mock 服务使用腾讯云协议）
+ */
+export function createMockAsrAdapter(): AsrAdapter {
+  return {
+    name: 'mock',
+    endMessage: JSON.stringify({ type: 'end' }),
+    isConfigured: () => true,
+    createUrl: (engine) => getMockRealtimeAsrUrl(engine, DEFAULT_ASR_CONFIG.vad_silence_time),
+    parse: parseTencentAsrMessage,
+  };
+}
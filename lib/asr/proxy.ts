@@ -0,0 +1,286 @@
+import http from 'http';
+import type { Duplex } from 'stream';
+import type { AsrEvent } from '@/types/asr';
+import {
+  acceptWebSocket,
+  connectWebSocket,
+  rejectUpgrade,
+  type WebSocketConnection,
+} from './websocket';
+import { consumeAsrSessionToken, type AsrSessionClaims } from './session';
+import type { AsrAdapter } from './types';
+import { getAsrAdapter } from './index';
+
+/**
+ * 实时 ASR WebSocket 代理
+ * 浏览器连接同源的 /api/asr/stream（next.config.ts 中 rewrite 到本服务），
+ * 代理校验会话令牌后在服务端连接上游识别服务，转发 PCM，并通过适配器把上游结果转换为 AsrEvent 回传。
+ * 上游签名 URL 和凭证不会出现在浏览器中，切换 Provider 也无需改动前端
+ *
+ * 客户端协议：发送二进制 PCM（16k 16 位单声道）和 {"type":"end"}，接收 AsrEvent JSON
+ */
+
+/** 浏览器连接的同源路径 */
+export const ASR_STREAM_PATH = '/api/asr/stream';
+/** 代理服务内部路径（rewrite 目标） */
+const PROXY_PATH = '/asr/stream';
+/** 默认代理端口（只监听 127.0.0.1） */
+const DEFAULT_ASR_PROXY_PORT = 8766;
+/** 默认单个会话最长时长（秒） */
+const DEFAULT_MAX_SESSION_SECONDS = 300;
+/** 客户端超过该时长未发送音频则结束会话（毫秒） */
+const IDLE_TIMEOUT_MS = 15 * 1000;
+/** 上游连接建立前最多缓存的音频（字节，约 16 秒 16k PCM） */
+const MAX_PENDING_BYTES = 512 * 1024;
+/** 结束会话后等待上游最终结果的时间（毫秒） */
+const END_GRACE_MS = 3000;
+
+/** 代理自身的错误码（与上游错误码区分） */
+export const ASR_PROXY_ERROR_CODE = {
+  /** 上游连接失败或异常断开 */
+  UPSTREAM_FAILED: 9001,
+  /** 会话超过最长时长 */
+  SESSION_LIMIT: 9002,
+  /** 长时间未收到音频 */
+  IDLE_TIMEOUT: 9003,
+} as const;
+
+/** 全局状态（开发模式热更新、不同路由之间共享） */
+const globalForProxy = globalThis as typeof globalThis & { asrProxyServer?: Promise<number> };
+
+/**
+ * 单个会话最长时长（毫秒），由 ASR_SESSION_MAX_SECONDS 配置
+ */
+function getMaxSessionMs(): number {
+  const seconds = Number(process.env.ASR_SESSION_MAX_SECONDS) || DEFAULT_MAX_SESSION_SECONDS;
+  return seconds * 1000;
+}
+
+/**
+ * 代理端口，由 ASR_PROXY_PORT 配置（需与 next.config.ts 中的 rewrite 一致）
+ * @throws 端口不是 1-65535 的整数时抛出 Error
+ */
+function getProxyPort(): number {
+  const value = process.env.ASR_PROXY_PORT;
+  if (!value) return DEFAULT_ASR_PROXY_PORT;
+
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`ASR_PROXY_PORT 无效: ${value}`);
+  }
+  return port;
+}
+
+/**
+ * 校验来源：浏览器请求必须与页面同源（Origin 与转发前的 Host 一致）
+ * 浏览器发起的 WebSocket 升级总会携带 Origin，缺少 Origin 的请求不是来自页面，一律拒绝
+ */
+function isSameOrigin(request: http.IncomingMessage): boolean {
+  const origin = request.headers.origin;
+  if (!origin) return false;
+
+  const forwardedHost = request.headers['x-forwarded-host'];
+  const host = (Array.isArray(forwardedHost) ? forwardedHost[0] : forwardedHost) || request.headers.host;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 建立代理会话
+ */
+function startSession(
+  request: http.IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  claims: AsrSessionClaims,
+  adapter: AsrAdapter
+) {
+  const startedAt = Date.now();
+  let lastAudioAt = startedAt;
+  let upstream: WebSocketConnection | null = null;
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+  let ending = false;
+  const timers: {
+    session?: ReturnType<typeof setTimeout>;
+    idle?: ReturnType<typeof setInterval>;
+    grace?: ReturnType<typeof setTimeout>;
+  } = {};
+  let client: WebSocketConnection | null = null;
+
+  const finish = () => {
+    clearTimeout(timers.session);
+    clearInterval(timers.idle);
+    clearTimeout(timers.grace);
+    pending = [];
+    upstream?.close();
+    client?.close();
+  };
+
+  // 通知上游结束识别，等待最终结果后关闭
+  const end = () => {
+    if (ending) return;
+    ending = true;
+    upstream?.send(adapter.endMessage);
+    timers.grace = setTimeout(finish, END_GRACE_MS);
+  };
+
+  const sendEvent = (event: AsrEvent) => {
+    client?.send(JSON.stringify(event));
+  };
+
+  const sendError = (code: number, message: string) => {
+    sendEvent({ type: 'error', code, message });
+  };
+
+  client = acceptWebSocket(request, socket, head, {
+    onBinary(pcm) {
+      if (ending) return;
+      lastAudioAt = Date.now();
+      if (upstream) {
+        upstream.send(pcm);
+      } else if (pendingBytes + pcm.length <= MAX_PENDING_BYTES) {
+        pending.push(pcm);
+        pendingBytes += pcm.length;
+      }
+    },
+    onText(text) {
+      try {
+        if (JSON.parse(text)?.type === 'end') end();
+      } catch {
+        // 忽略无法解析的控制消息
+      }
+    },
+    onClose() {
+      console.log(`🎙️ ASR 代理会话结束: ${claims.sid}, ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+      finish();
+    },
+  });
+  if (!client) return;
+
+  timers.session = setTimeout(() => {
+    sendError(ASR_PROXY_ERROR_CODE.SESSION_LIMIT, '识别会话超过最长时长');
+    end();
+  }, getMaxSessionMs());
+
+  timers.idle = setInterval(() => {
+    if (!ending && Date.now() - lastAudioAt > IDLE_TIMEOUT_MS) {
+      sendError(ASR_PROXY_ERROR_CODE.IDLE_TIMEOUT, '长时间未收到音频');
+      end();
+    }
+  }, 1000);
+
+  console.log(`🎙️ ASR 代理会话开始: ${adapter.name}, ${claims.engine}, ${claims.sid}`);
+
+  const connectUpstream = async () => {
+    const url = await adapter.createUrl(claims.engine);
+    if (!url) {
+      throw new Error('识别服务未配置');
+    }
+
+    return connectWebSocket(url, {
+      onText(text) {
+        adapter.parse(text).forEach(sendEvent);
+      },
+      onClose(code) {
+        // 上游关闭（识别结束或异常）后关闭客户端连接
+        if (!ending && code !== 1000) {
+          sendError(ASR_PROXY_ERROR_CODE.UPSTREAM_FAILED, '识别服务连接中断');
+        }
+        finish();
+      },
+    });
+  };
+
+  connectUpstream()
+    .then((connection) => {
+      if (!client || client.closed) {
+        connection.close();
+        return;
+      }
+      upstream = connection;
+      pending.forEach((pcm) => connection.send(pcm));
+      pending = [];
+      if (ending) connection.send(adapter.endMessage);
+    })
+    .catch((error) => {
+      console.error('ASR 代理连接上游失败:', error);
+      sendError(ASR_PROXY_ERROR_CODE.UPSTREAM_FAILED, '识别服务连接失败');
+      finish();
+    });
+}
+
+/**
+ * 处理升级请求：校验路径、来源和会话令牌
+ */
+function handleUpgrade(request: http.IncomingMessage, socket: Duplex, head: Buffer) {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  if (url.pathname !== PROXY_PATH) {
+    rejectUpgrade(socket, 404, 'Not Found');
+    return;
+  }
+
+  if (!isSameOrigin(request)) {
+    rejectUpgrade(socket, 403, 'Forbidden');
+    return;
+  }
+
+  const claims = consumeAsrSessionToken(url.searchParams.get('token') ?? '');
+  if (!claims) {
+    rejectUpgrade(socket, 401, 'Unauthorized');
+    return;
+  }
+
+  let adapter: AsrAdapter;
+  try {
+    adapter = getAsrAdapter();
+  } catch {
+    rejectUpgrade(socket, 500, 'Internal Server Error');
+    return;
+  }
+
+  startSession(request, socket, head, claims, adapter);
+}
+
+/**
+ * 启动代理服务（只启动一次），返回端口
+ * 端口由 ASR_PROXY_PORT 指定（默认 8766），需与 next.config.ts 中的 rewrite 一致
+ * 启动失败（端口被占用等）时下次调用会重试
+ */
+export function ensureAsrProxyServer(): Promise<number> {
+  if (globalForProxy.asrProxyServer) return globalForProxy.asrProxyServer;
+
+  let port: number;
+  try {
+    port = getProxyPort();
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  globalForProxy.asrProxyServer = new Promise<number>((resolve, reject) => {
+    const server = http.createServer((_request, response) => {
+      response.writeHead(426, { 'Content-Type': 'text/plain; charset=utf-8' });
+      response.end('WebSocket only');
+    });
+    server.on('upgrade', handleUpgrade);
+
+    server.once('error', (error: NodeJS.ErrnoException) => {
+      globalForProxy.asrProxyServer = undefined;
+      if (error.code === 'EADDRINUSE') {
+        // 多个实例部署在同一台机器时需为每个实例配置不同的 ASR_PROXY_PORT
+        reject(new Error(`ASR 代理端口 ${port} 已被占用，请通过 ASR_PROXY_PORT 更换端口（需与 next.config.ts 一致）`));
+        return;
+      }
+      reject(error);
+    });
+    server.listen(port, '127.0.0.1', () => {
+      console.log(`🎙️ ASR 代理已启动: 127.0.0.1:${port}${PROXY_PATH}`);
+      resolve(port);
+    });
+  });
+
+  return globalForProxy.asrProxyServer;
+}
@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import type { AsrEngine } from '@/types/asr';
+
+/**
+ * 实时 ASR 会话令牌
+ * /api/asr/realtime 签发短期、一次性的令牌，浏览器携带令牌连接同源 WebSocket 代理，
+ * 代理校验通过后才在服务端连接上游识别服务
+ */
+
+/** 令牌有效期（毫秒）：只需覆盖从获取令牌到建立连接的时间 */
+const TOKEN_TTL_MS = 30 * 1000;
+
+/** 令牌内容 */
+export interface AsrSessionClaims {
+  /** 会话 ID */
+  sid: string;
+  /** 识别引擎 */
+  engine: AsrEngine;
+  /** 过期时间戳（毫秒） */
+  exp: number;
+}
+
+/** 全局状态（开发模式热更新、不同路由之间共享） */
+const globalForSession = globalThis as typeof globalThis & {
+  asrSessionSecret?: Buffer;
+  asrUsedSessions?: Map<string, number>;
+};
+
+/**
+ * 签名密钥：ASR_SESSION_SECRET，未配置时每个进程随机生成
+ */
+function getSecret(): Buffer {
+  if (process.env.ASR_SESSION_SECRET) {
+    return Buffer.from(process.env.ASR_SESSION_SECRET);
+  }
+  return (globalForSession.asrSessionSecret ??= crypto.randomBytes(32));
+}
+
+/** 已使用的会话（sid → 过期时间），防止令牌重放 */
+const usedSessions = (globalForSession.asrUsedSessions ??= new Map<string, number>());
+
+/**
+ * 计算签名
+ */
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * 签发会话令牌
+ */
+export function createAsrSessionToken(engine: AsrEngine): string {
+  const claims: AsrSessionClaims = {
+    sid: crypto.randomUUID(),
+    engine,
+    exp: Date.now() + TOKEN_TTL_MS,
+  };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * 校验并消费会话令牌（每个令牌只能使用一次）
+ * @returns 令牌内容；签名错误、过期或已使用时返回 null
+ */
+export function consumeAsrSessionToken(token: string): AsrSessionClaims | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let claims: AsrSessionClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch {
+    return null;
+  }
+
+  const now = Date.now();
+  for (const [sid, exp] of usedSessions) {
+    if (exp < now) usedSessions.delete(sid);
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp < now || usedSessions.has(claims.sid)) {
+    return null;
+  }
+
+  usedSessions.set(claims.sid, claims.exp);
+  return claims;
+}
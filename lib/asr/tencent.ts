@@ -0,0 +1,188 @@
+import crypto from 'crypto';
+import type { AsrEngine, AsrEvent, AsrWord, RealtimeAsrParams, TencentAsrResponse } from '@/types/asr';
+import { ASR_SLICE_TYPE } from '@/types/asr';
+import type { AsrAdapter } from './types';
+
+/**
+ * 腾讯云实时语音识别 WebSocket 签名生成
+ * 签名 URL 只在服务端代理连接上游时使用，不再下发给浏览器
+ * @see https://cloud.tencent.com/document/product/1093/48982
+ */
+
+/** URL 有效期（秒），生成后立即用于连接，无需长期有效 */
+const URL_EXPIRY_SECONDS = 60;
+
+/**
+ * 生成 HMAC-SHA1 签名
+ */
+function generateSignature(secretKey: string, signStr: string): string {
+  const hmac = crypto.createHmac('sha1', secretKey);
+  hmac.update(signStr);
+  return hmac.digest('base64');
+}
+
+/**
+ * 生成实时 ASR WebSocket URL
+ */
+function generateRealtimeAsrUrl(
+  appId: string,
+  secretId: string,
+  secretKey: string,
+  params: RealtimeAsrParams
+): string {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const expired = timestamp + URL_EXPIRY_SECONDS;
+
+  // 构建必需参数
+  const queryParams: Record<string, string | number> = {
+    secretid: secretId,
+    timestamp,
+    expired,
+    nonce: Math.floor(Math.random() * 100000),
+    engine_model_type: params.engine_model_type,
+    voice_id: crypto.randomUUID(),
+    voice_format: params.voice_format,
+    needvad: params.needvad,
+    vad_silence_time: params.vad_silence_time,
+  };
+
+  // 添加可选参数
+  if (params.hotword_id) {
+    queryParams.hotword_id = params.hotword_id;
+  }
+  if (params.filter_dirty !== undefined) {
+    queryParams.filter_dirty = params.filter_dirty;
+  }
+  if (params.filter_modal !== undefined) {
+    queryParams.filter_modal = params.filter_modal;
+  }
+  if (params.filter_punc !== undefined) {
+    queryParams.filter_punc = params.filter_punc;
+  }
+  if (params.convert_num_mode !== undefined) {
+    queryParams.convert_num_mode = params.convert_num_mode;
+  }
+  if (params.word_info !== undefined) {
+    queryParams.word_info = params.word_info;
+  }
+
+  // 按字典序排序参数
+  const sortedKeys = Object.keys(queryParams).sort();
+  const queryString = sortedKeys
+    .map(key => `${key}=${queryParams[key]}`)
+    .join('&');
+
+  // 生成签名原文
+  const signStr = `asr.cloud.tencent.com/asr/v2/${appId}?${queryString}`;
+  
+  // 计算签名
+  const signature = generateSignature(secretKey, signStr);
+  const encodedSignature = encodeURIComponent(signature);
+
+  // 生成最终 URL
+  return `wss://asr.cloud.tencent.com/asr/v2/${appId}?${queryString}&signature=${encodedSignature}`;
+}
+
+/**
+ * 默认 ASR 配置
+ */
+export const DEFAULT_ASR_CONFIG: RealtimeAsrParams = {
+  engine_model_type: '16k_zh',  // 16k 中文模型
+  voice_format: 1,              // PCM 格式
+  needvad: 1,                   // 开启 VAD
+  vad_silence_time: 1000,       // 静音检测 1 秒
+  filter_dirty: 1,              // 过滤脏词
+  filter_modal: 2,              // 严格过滤语气词
+  filter_punc: 0,               // 保留标点
+  convert_num_mode: 1,          // 智能转换数字
+  word_info: 0,                 // 不需要词级别时间戳
+};
+
+/**
+ * 是否已配置实时 ASR 所需的腾讯云凭证
+ */
+export function hasTencentAsrCredentials(): boolean {
+  return Boolean(process.env.TENCENT_APP_ID && process.env.TENCENT_SECRET_ID && process.env.TENCENT_SECRET_KEY);
+}
+
+/**
+ * 生成指定引擎的腾讯云实时 ASR URL，未配置凭证时返回 null
+ */
+export function createTencentRealtimeAsrUrl(engine: AsrEngine): string | null {
+  const appId = process.env.TENCENT_APP_ID;
+  const secretId = process.env.TENCENT_SECRET_ID;
+  const secretKey = process.env.TENCENT_SECRET_KEY;
+
+  if (!appId || !secretId || !secretKey) return null;
+
+  return generateRealtimeAsrUrl(
+    appId,
+    secretId,
+    secretKey,
+    { ...DEFAULT_ASR_CONFIG, engine_model_type: engine }
+  );
+}
+
+/**
+ * 转换腾讯云词级别时间戳
+ */
+function toWords(response: TencentAsrResponse): AsrWord[] | undefined {
+  const list = response.result?.word_list;
+  if (!Array.isArray(list) || list.length === 0) return undefined;
+
+  return list.map((word) => ({
+    text: word.word,
+    startMs: word.start_time,
+    endMs: word.end_time,
+  }));
+}
+
+/**
+ * 把腾讯云实时 ASR 消息转换为统一事件
+ * 协议：code 非 0 为错误；result.slice_type 0/1 为临时结果，2 为句子结束；final=1 为识别结束
+ */
+export function parseTencentAsrMessage(message: string): AsrEvent[] {
+  let response: TencentAsrResponse;
+  try {
+    response = JSON.parse(message);
+  } catch {
+    return [];
+  }
+  if (!response || typeof response !== 'object') return [];
+
+  if (response.code !== 0) {
+    return [{ type: 'error', code: response.code, message: response.message || '识别服务错误' }];
+  }
+
+  const events: AsrEvent[] = [];
+  const { result } = response;
+  if (result && typeof result.slice_type === 'number') {
+    const words = toWords(response);
+    events.push({
+      type: result.slice_type === ASR_SLICE_TYPE.END ? 'final' : 'partial',
+      sentenceIndex: result.index ?? 0,
+      text: result.voice_text_str ?? '',
+      ...(words && { words }),
+    });
+  }
+
+  if (response.final === 1) {
+    events.push({ type: 'endpoint' });
+  }
+
+  return events;
+}
+
+/**
+ * 创建腾讯云实时 ASR 适配器
+ */
+export function createTencentAsrAdapter(): AsrAdapter {
+  return {
+    name: 'tencent',
+    endMessage: JSON.stringify({ type: 'end' }),
+    isConfigured: hasTencentAsrCredentials,
+    createUrl: async (engine) => createTencentRealtimeAsrUrl(engine),
+    parse: parseTencentAsrMessage,
+  };
+}
+
@@ -0,0 +1,31 @@
+/**
+ * 实时 ASR Provider 相关类型定义
+ */
+
+import type { AsrEngine, AsrEvent } from '@/types/asr';
+
+/** 支持的实时 ASR Provider */
+export type AsrProviderName = 'tencent' | 'mock';
+
+/**
+ * 上游识别服务适配器
+ * ASR 代理负责连接和转发音频，各适配器只负责生成上游地址、
+ * 把上游消息转换为 AsrEvent，新增识别服务时无需改动代理和前端 Hook
+ */
+export interface AsrAdapter {
+  /** Provider 名称（用于日志） */
+  readonly name: AsrProviderName;
+  /** 结束识别时发送给上游的消息 */
+  readonly endMessage: string;
+  /** 是否已配置（凭证等） */
+  isConfigured(): boolean;
+  /**
+   * 生成上游 WebSocket 地址
+   * @returns 地址；未配置时返回 null
+   */
+  createUrl(engine: AsrEngine): Promise<string | null>;
+  /**
+   * 转换上游消息（一条上游消息可能对应多个事件，无法识别的消息返回空数组）
+   */
+  parse(message: string): AsrEvent[];
+}
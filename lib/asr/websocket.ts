@@ -0,0 +1,358 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+
+/**
+ * WebSocket（RFC 6455）最小实现（服务端 + 客户端）
+ * 只覆盖本项目需要的部分：握手、文本/二进制消息、分片、ping/pong、关闭
+ */
+
+/** 握手用的固定 GUID */
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** 单条消息最大字节数 */
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+/** 客户端握手超时（毫秒） */
+const CONNECT_TIMEOUT_MS = 10000;
+
+/** 帧类型 */
+const OPCODE = {
+  CONTINUATION: 0x0,
+  TEXT: 0x1,
+  BINARY: 0x2,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa,
+} as const;
+
+/** 连接事件回调 */
+export interface WebSocketHandlers {
+  onText?: (text: string) => void;
+  onBinary?: (data: Buffer) => void;
+  onClose?: (code: number, reason: string) => void;
+}
+
+/** WebSocket 连接 */
+export interface WebSocketConnection {
+  /** 发送文本（字符串）或二进制消息 */
+  send(data: string | Uint8Array): void;
+  /** 关闭连接 */
+  close(code?: number, reason?: string): void;
+  /** 是否已关闭 */
+  readonly closed: boolean;
+}
+
+/**
+ * 以 HTTP 错误拒绝升级请求
+ */
+export function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  const body = Buffer.from(message);
+  socket.end(
+    `HTTP/1.1 ${status} ${message.replace(/[\r\n]/g, ' ')}\r\n` +
+    'Content-Type: text/plain; charset=utf-8\r\n' +
+    `Content-Length: ${body.length}\r\n` +
+    'Connection: close\r\n\r\n'
+  );
+}
+
+/**
+ * 计算握手的 Sec-WebSocket-Accept
+ */
+function acceptKey(key: string): string {
+  return crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+}
+
+/**
+ * 编码一帧（客户端发送的帧需要加掩码）
+ */
+function encodeFrame(opcode: number, payload: Buffer, masked: boolean): Buffer {
+  const maskBit = masked ? 0x80 : 0;
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, maskBit | payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = maskBit | 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = maskBit | 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  if (!masked) {
+    return Buffer.concat([header, payload]);
+  }
+
+  const mask = crypto.randomBytes(4);
+  const body = Buffer.from(payload);
+  for (let i = 0; i < body.length; i++) {
+    body[i] ^= mask[i & 3];
+  }
+  return Buffer.concat([header, mask, body]);
+}
+
+/**
+ * 在已完成握手的 socket 上建立连接
+ * @param isClient 客户端发送的帧加掩码，并要求收到的帧不带掩码；服务端相反
+ */
+function createConnection(
+  socket: Duplex,
+  head: Buffer,
+  handlers: WebSocketHandlers,
+  isClient: boolean
+): WebSocketConnection {
+  let closed = false;
+  let buffer: Buffer = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  /** 分片消息的类型，0 表示当前没有未完成的分片消息 */
+  let fragmentOpcode = 0;
+  let fragmentBytes = 0;
+
+  const writeFrame = (opcode: number, payload: Buffer) => {
+    if (!socket.writable) return;
+    socket.write(encodeFrame(opcode, payload, isClient));
+  };
+
+  const finish = (code: number, reason: string) => {
+    if (closed) return;
+    closed = true;
+    handlers.onClose?.(code, reason);
+  };
+
+  const close = (code = 1000, reason = '') => {
+    if (closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    writeFrame(OPCODE.CLOSE, payload);
+    socket.end();
+    finish(code, reason);
+  };
+
+  const deliver = (opcode: number, payload: Buffer) => {
+    if (opcode === OPCODE.TEXT) {
+      handlers.onText?.(payload.toString('utf-8'));
+    } else {
+      handlers.onBinary?.(payload);
+    }
+  };
+
+  const handleFrame = (fin: boolean, opcode: number, payload: Buffer) => {
+    // 控制帧可以插在分片之间，但自身不能分片，负载不超过 125 字节
+    if (opcode & 0x8 && (!fin || payload.length > 125)) {
+      close(1002, 'invalid control frame');
+      return;
+    }
+
+    switch (opcode) {
+      case OPCODE.CONTINUATION:
+        if (!fragmentOpcode) {
+          close(1002, 'unexpected continuation frame');
+          return;
+        }
+        fragmentBytes += payload.length;
+        if (fragmentBytes > MAX_MESSAGE_BYTES) {
+          close(1009, 'message too big');
+          return;
+        }
+        fragments.push(payload);
+        if (fin) {
+          const message = Buffer.concat(fragments);
+          const messageOpcode = fragmentOpcode;
+          fragments = [];
+          fragmentOpcode = 0;
+          fragmentBytes = 0;
+          deliver(messageOpcode, message);
+        }
+        break;
+      case OPCODE.TEXT:
+      case OPCODE.BINARY:
+        if (fragmentOpcode) {
+          close(1002, 'expected continuation frame');
+          return;
+        }
+        if (fin) {
+          deliver(opcode, payload);
+        } else {
+          fragmentOpcode = opcode;
+          fragmentBytes = payload.length;
+          fragments = [payload];
+        }
+        break;
+      case OPCODE.CLOSE: {
+        const code = payload.length >= 2 ? payload.readUInt16BE(0) : 1005;
+        const reason = payload.length > 2 ? payload.subarray(2).toString('utf-8') : '';
+        close(code === 1005 ? 1000 : code, reason);
+        break;
+      }
+      case OPCODE.PING:
+        writeFrame(OPCODE.PONG, payload);
+        break;
+      case OPCODE.PONG:
+        break;
+      default:
+        close(1002, 'unsupported opcode');
+    }
+  };
+
+  const parse = () => {
+    while (!closed && buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      // 没有协商扩展，RSV 位必须为 0
+      if (buffer[0] & 0x70) {
+        close(1002, 'reserved bits must be 0');
+        return;
+      }
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        const bigLength = buffer.readBigUInt64BE(2);
+        if (bigLength > BigInt(MAX_MESSAGE_BYTES)) {
+          close(1009, 'message too big');
+          return;
+        }
+        length = Number(bigLength);
+        offset = 10;
+      }
+
+      // 客户端发往服务端的帧必须加掩码，服务端发往客户端的帧不能加掩码
+      if (masked === isClient) {
+        close(1002, masked ? 'frame must not be masked' : 'frame must be masked');
+        return;
+      }
+      if (length > MAX_MESSAGE_BYTES) {
+        close(1009, 'message too big');
+        return;
+      }
+
+      const maskLength = masked ? 4 : 0;
+      if (buffer.length < offset + maskLength + length) return;
+
+      const payload = Buffer.from(buffer.subarray(offset + maskLength, offset + maskLength + length));
+      if (masked) {
+        const mask = buffer.subarray(offset, offset + 4);
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= mask[i & 3];
+        }
+      }
+      buffer = buffer.subarray(offset + maskLength + length);
+
+      handleFrame(fin, opcode, payload);
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+    parse();
+  });
+  socket.on('close', () => finish(1006, ''));
+  socket.on('error', () => finish(1006, ''));
+
+  if (head.length) {
+    buffer = Buffer.from(head);
+    parse();
+  }
+
+  return {
+    send(data) {
+      if (closed) return;
+      if (typeof data === 'string') {
+        writeFrame(OPCODE.TEXT, Buffer.from(data));
+      } else {
+        writeFrame(OPCODE.BINARY, Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+      }
+    },
+    close,
+    get closed() {
+      return closed;
+    },
+  };
+}
+
+/**
+ * 完成 WebSocket 握手并返回连接（服务端）
+ * 请求不是合法的 WebSocket 升级时返回 null（已回复 400）
+ */
+export function acceptWebSocket(
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  handlers: WebSocketHandlers
+): WebSocketConnection | null {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    rejectUpgrade(socket, 400, 'Bad Request');
+    return null;
+  }
+
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${acceptKey(key)}\r\n\r\n`
+  );
+
+  return createConnection(socket, head, handlers, false);
+}
+
+/**
+ * 连接 WebSocket 服务（客户端，支持 ws:// 和 wss://）
+ * @throws 握手失败或超时时抛出错误
+ */
+export function connectWebSocket(url: string, handlers: WebSocketHandlers): Promise<WebSocketConnection> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const secure = target.protocol === 'wss:';
+    const key = crypto.randomBytes(16).toString('base64');
+
+    const request = (secure ? https : http).request({
+      hostname: target.hostname,
+      port: target.port || (secure ? 443 : 80),
+      path: target.pathname + target.search,
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Key': key,
+        'Sec-WebSocket-Version': '13',
+      },
+      timeout: CONNECT_TIMEOUT_MS,
+    });
+
+    request.on('upgrade', (response, socket, head) => {
+      // 握手超时只针对建立连接，之后的空闲由调用方处理
+      socket.setTimeout(0);
+      if (response.headers['sec-websocket-accept'] !== acceptKey(key)) {
+        socket.destroy();
+        reject(new Error('WebSocket 握手校验失败'));
+        return;
+      }
+      resolve(createConnection(socket, head, handlers, true));
+    });
+
+    request.on('response', (response) => {
+      response.resume();
+      reject(new Error(`WebSocket 握手失败: HTTP ${response.statusCode}`));
+    });
+
+    request.on('timeout', () => {
+      request.destroy(new Error('WebSocket 连接超时'));
+    });
+
+    request.on('error', reject);
+    request.end();
+  });
+}
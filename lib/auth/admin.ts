@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+
+/**
+ * 管理接口鉴权
+ * 预热 / 清空 TTS 缓存、导出和删除服务端对话记录、管理形象等接口需要在请求头中携带
+ * Authorization: Bearer <ADMIN_TOKEN>；未配置 ADMIN_TOKEN 时这些接口不可用
+ */
+
+/**
+ * 校验管理令牌
+ * @returns 校验失败时返回错误响应（未配置令牌 403，令牌缺失或错误 401），通过时返回 null
+ */
+export function requireAdminToken(request: Request): Response | null {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return Response.json({ error: '管理接口未启用', details: '服务端未配置 ADMIN_TOKEN' }, { status: 403 });
+  }
+
+  const header = request.headers.get('authorization') ?? '';
+  const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+
+  // 先比较哈希，长度不同也不会提前返回
+  const expected = crypto.createHash('sha256').update(token).digest();
+  const actual = crypto.createHash('sha256').update(provided).digest();
+  if (!provided || !crypto.timingSafeEqual(expected, actual)) {
+    return Response.json(
+      { error: '管理令牌无效' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+  return null;
+}
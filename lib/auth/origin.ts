@@ -0,0 +1,16 @@
+/**
+ * 同源校验
+ * 页面自身发起的 POST 请求总会携带 Origin，与转发前的 Host 一致才视为同源；
+ * 缺少 Origin 的请求（脚本、其他站点的表单除外的非浏览器客户端）一律拒绝
+ */
+export function isSameOriginRequest(request: Request): boolean {
+  const origin = request.headers.get('origin');
+  if (!origin) return false;
+
+  const host = request.headers.get('x-forwarded-host')?.split(',')[0].trim() || request.headers.get('host');
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,366 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Language } from '@/store/languageStore';
+import type { AvatarAction, AvatarGesture, AvatarManifestEntry, AvatarModel, AvatarVoices, LocalizedText } from '@/types/avatar';
+import { AVATAR_GESTURES, DEFAULT_AVATAR_VOICES, getAvatarGestures } from '@/types/avatar';
+import { parseVoiceParams } from '@/lib/tts/voice';
+import { getAvatarMediaDir } from '@/lib/avatars/media';
+
+/**
+ * Avatar 清单
+ * 形象由 JSON 清单描述（默认 config/avatars.json，可通过 AVATAR_MANIFEST 指定），
+ * 读取时逐项校验，修改文件后无需重新构建或重启。
+ * 清单包含人设和停用的形象，不放在 public 目录下，前端只能通过 /api/avatars 拿到启用形象的公开字段
+ *
+ * 默认清单随代码提交，只读；通过形象管理接口修改时写入 AVATAR_MEDIA_DIR/manifest.json
+ * （首次写入时以默认清单为基础），之后优先读取该文件。指定 AVATAR_MANIFEST 时直接读写该文件（不能位于 public 目录）
+ *
+ * 文件格式：
+ * {
+ *   "defaultAvatarId": "2",
+ *   "avatars": [{
+ *     "id": "2",
+ *     "name": { "zh": "墨子", "en": "Mozi" },
+ *     "enabled": true,
+ *     "thumbnail": "/avatars/avatar-2-preview.png",
+ *     "videos": { "idle": "...", "talk": "...", "dance": "...", "think": "...",
+ *                 "greet": "...", "nod": "...", "laugh": "...", "wave": "..." },  // 动作片段可选
+ *     "lipsyncSource": "...",                      // 可选，默认使用 videos.talk
+ *     "voice": { "zh": { "voiceType": 101013 } },   // 可选，未配置的语言使用默认音色
+ *     "persona": { "zh": "你是..." }                // 可选，覆盖默认人设
+ *   }]
+ * }
+ */
+
+/** 校验后的清单 */
+export interface AvatarManifest {
+  defaultAvatarId: string;
+  avatars: AvatarManifestEntry[];
+}
+
+/**
+ * 清单错误
+ * status 会作为 /api/avatars 的 HTTP 状态码返回给前端
+ */
+export class AvatarManifestError extends Error {
+  status: number;
+  details?: string;
+
+  constructor(message: string, status: number = 500, details?: string) {
+    super(message);
+    this.name = 'AvatarManifestError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/** 默认清单路径（只读） */
+const DEFAULT_MANIFEST_PATH = 'config/avatars.json';
+/** 运行时清单文件名（位于 AVATAR_MEDIA_DIR） */
+const RUNTIME_MANIFEST_NAME = 'manifest.json';
+
+const LANGUAGES: readonly Language[] = ['zh', 'en'];
+const AVATAR_ACTIONS: readonly AvatarAction[] = ['idle', 'talk', 'dance', 'think'];
+/** 形象 ID 允许的字符（上传的素材以 ID 作为目录名） */
+const AVATAR_ID_PATTERN = /^[\w-]{1,64}$/;
+
+type EntryResult = { ok: true; entry: AvatarManifestEntry } | { ok: false; error: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** 素材地址：站内绝对路径或 http(s) 地址 */
+function isAssetUrl(value: unknown): value is string {
+  return typeof value === 'string' && (value.startsWith('/') || /^https?:\/\//.test(value));
+}
+
+/**
+ * 判断是否为合法的形象 ID
+ */
+export function isAvatarId(value: unknown): value is string {
+  return typeof value === 'string' && AVATAR_ID_PATTERN.test(value);
+}
+
+/**
+ * 解析名称：字符串（所有语言相同）或 { zh, en }（缺少的语言使用另一种语言）
+ */
+function parseName(value: unknown): LocalizedText | null {
+  if (typeof value === 'string' && value.trim()) {
+    return { zh: value, en: value };
+  }
+  if (!isRecord(value)) return null;
+  const zh = typeof value.zh === 'string' ? value.zh.trim() : '';
+  const en = typeof value.en === 'string' ? value.en.trim() : '';
+  if (!zh && !en) return null;
+  return { zh: zh || en, en: en || zh };
+}
+
+/**
+ * 校验单个形象
+ */
+export function parseAvatarEntry(raw: unknown): EntryResult {
+  if (!isRecord(raw)) return { ok: false, error: '形象必须是对象' };
+
+  const { id, enabled = true, thumbnail, videos, lipsyncSource, voice, persona } = raw;
+  if (!isAvatarId(id)) return { ok: false, error: 'id 只能包含字母、数字、下划线和连字符（最长 64 位）' };
+
+  const name = parseName(raw.name);
+  if (!name) return { ok: false, error: 'name 必须是非空字符串或 { zh, en }' };
+  if (typeof enabled !== 'boolean') return { ok: false, error: 'enabled 必须是布尔值' };
+  if (!isAssetUrl(thumbnail)) return { ok: false, error: 'thumbnail 必须是 / 开头的路径或 http(s) 地址' };
+
+  if (!isRecord(videos)) return { ok: false, error: 'videos 必须是对象' };
+  for (const action of AVATAR_ACTIONS) {
+    if (!isAssetUrl(videos[action])) return { ok: false, error: `videos.${action} 必须是 / 开头的路径或 http(s) 地址` };
+  }
+  const gestureVideos: Partial<Record<AvatarGesture, string>> = {};
+  for (const gesture of AVATAR_GESTURES) {
+    const url = videos[gesture];
+    if (url === undefined) continue;
+    if (!isAssetUrl(url)) return { ok: false, error: `videos.${gesture} 必须是 / 开头的路径或 http(s) 地址` };
+    gestureVideos[gesture] = url;
+  }
+
+  if (lipsyncSource !== undefined && !isAssetUrl(lipsyncSource)) {
+    return { ok: false, error: 'lipsyncSource 必须是 / 开头的路径或 http(s) 地址' };
+  }
+
+  const voices: AvatarVoices = { ...DEFAULT_AVATAR_VOICES };
+  if (voice !== undefined) {
+    if (!isRecord(voice)) return { ok: false, error: 'voice 必须是以语言为键的对象' };
+    for (const language of LANGUAGES) {
+      if (voice[language] === undefined) continue;
+      if (!isRecord(voice[language])) return { ok: false, error: `voice.${language} 必须是对象` };
+      const parsed = parseVoiceParams(voice[language]);
+      if (!parsed.ok) return { ok: false, error: `voice.${language}: ${parsed.error}` };
+      voices[language] = parsed.voice;
+    }
+  }
+
+  let personas: Partial<LocalizedText> | undefined;
+  if (persona !== undefined) {
+    if (!isRecord(persona)) return { ok: false, error: 'persona 必须是以语言为键的对象' };
+    personas = {};
+    for (const language of LANGUAGES) {
+      const text = persona[language];
+      if (text === undefined) continue;
+      if (typeof text !== 'string' || !text.trim()) return { ok: false, error: `persona.${language} 必须是非空字符串` };
+      personas[language] = text.trim();
+    }
+  }
+
+  const videoUrls = videos as Record<string, string>;
+  return {
+    ok: true,
+    entry: {
+      id,
+      name,
+      enabled,
+      thumbnail,
+      lipsyncSource: (lipsyncSource as string | undefined) ?? videoUrls.talk,
+      videos: {
+        idle: videoUrls.idle,
+        talk: videoUrls.talk,
+        dance: videoUrls.dance,
+        think: videoUrls.think,
+        ...gestureVideos,
+      },
+      voice: voices,
+      persona: personas,
+    },
+  };
+}
+
+/**
+ * 校验清单：格式错误的形象跳过并打印原因，不影响其他形象
+ * @throws 清单整体格式错误时抛出 AvatarManifestError
+ */
+export function parseAvatarManifest(raw: unknown): AvatarManifest {
+  if (!isRecord(raw) || !Array.isArray(raw.avatars)) {
+    throw new AvatarManifestError('形象清单格式错误', 500, '清单必须是包含 avatars 数组的对象');
+  }
+
+  const avatars: AvatarManifestEntry[] = [];
+  raw.avatars.forEach((item, index) => {
+    const result = parseAvatarEntry(item);
+    if (!result.ok) {
+      console.error(`形象清单: 第 ${index + 1} 个形象无效，已跳过: ${result.error}`);
+      return;
+    }
+    if (avatars.some((avatar) => avatar.id === result.entry.id)) {
+      console.error(`形象清单: 形象 ID "${result.entry.id}" 重复，已跳过`);
+      return;
+    }
+    avatars.push(result.entry);
+  });
+
+  const enabled = avatars.filter((avatar) => avatar.enabled);
+  let defaultAvatarId = typeof raw.defaultAvatarId === 'string' ? raw.defaultAvatarId : '';
+  if (!enabled.some((avatar) => avatar.id === defaultAvatarId)) {
+    if (defaultAvatarId) {
+      console.error(`形象清单: 默认形象 "${defaultAvatarId}" 不存在或已停用，使用第一个启用的形象`);
+    }
+    defaultAvatarId = enabled[0]?.id ?? '';
+  }
+
+  return { defaultAvatarId, avatars };
+}
+
+/**
+ * 运行时清单路径（形象管理接口写入的位置）
+ */
+function getRuntimeManifestPath(): string {
+  return path.join(getAvatarMediaDir(), RUNTIME_MANIFEST_NAME);
+}
+
+/**
+ * 清单文件路径：AVATAR_MANIFEST > 运行时清单（已写入过时）> 默认清单
+ */
+export function getAvatarManifestPath(): string {
+  if (process.env.AVATAR_MANIFEST) return path.resolve(process.env.AVATAR_MANIFEST);
+
+  const runtimePath = getRuntimeManifestPath();
+  return fs.existsSync(runtimePath) ? runtimePath : path.resolve(DEFAULT_MANIFEST_PATH);
+}
+
+/**
+ * 可写入的清单路径
+ * @throws AVATAR_MANIFEST 位于 public 目录时抛出 AvatarManifestError（写入会公开人设）
+ */
+function getWritableManifestPath(): string {
+  if (!process.env.AVATAR_MANIFEST) return getRuntimeManifestPath();
+
+  const filePath = path.resolve(process.env.AVATAR_MANIFEST);
+  if (filePath.startsWith(path.resolve('public') + path.sep)) {
+    throw new AvatarManifestError('形象清单不可写入', 403, 'AVATAR_MANIFEST 位于 public 目录，请移到其他目录后再管理形象');
+  }
+  return filePath;
+}
+
+/** 清单缓存（按修改时间失效，修改文件后无需重启） */
+let manifestCache: { path: string; mtimeMs: number; manifest: AvatarManifest } | null = null;
+
+/**
+ * 读取并校验清单
+ * 文件被改坏时继续使用上一次有效的清单
+ * @throws 从未成功读取过清单时抛出 AvatarManifestError
+ */
+export function loadAvatarManifest(): AvatarManifest {
+  const filePath = getAvatarManifestPath();
+
+  try {
+    const { mtimeMs } = fs.statSync(filePath);
+    if (manifestCache?.path === filePath && manifestCache.mtimeMs === mtimeMs) {
+      return manifestCache.manifest;
+    }
+
+    const manifest = parseAvatarManifest(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    manifestCache = { path: filePath, mtimeMs, manifest };
+    console.log(`🧑 形象清单已加载: ${manifest.avatars.filter((avatar) => avatar.enabled).length}/${manifest.avatars.length} 个启用`);
+    return manifest;
+  } catch (error) {
+    console.error(`读取形象清单失败 (${filePath}):`, error);
+    if (manifestCache?.path === filePath) {
+      return manifestCache.manifest;
+    }
+    if (error instanceof AvatarManifestError) throw error;
+    throw new AvatarManifestError('读取形象清单失败', 500, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/** 清单原始内容（写入时保留无效形象和未知字段，不改动手工编辑的内容） */
+export interface RawAvatarManifest {
+  defaultAvatarId?: string;
+  avatars: unknown[];
+  [key: string]: unknown;
+}
+
+/**
+ * 清单写入队列（串行化并发的增删改，跨路由共享）
+ */
+const globalForManifest = globalThis as typeof globalThis & {
+  avatarManifestWriteQueue?: Promise<unknown>;
+};
+
+/**
+ * 修改清单
+ * 读取当前清单的原始 JSON 交给 mutator 修改后原子写入可写路径（临时文件 + 重命名），写入串行执行
+ * @throws mutator 抛出的错误原样抛出（清单不会被修改）
+ */
+export async function updateAvatarManifest<T>(mutator: (raw: RawAvatarManifest) => T): Promise<T> {
+  const run = async () => {
+    const filePath = getWritableManifestPath();
+    // 运行时清单还不存在时以默认清单为基础
+    const sourcePath = getAvatarManifestPath();
+    let raw: unknown = { avatars: [] };
+    try {
+      raw = JSON.parse(await fs.promises.readFile(sourcePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new AvatarManifestError('读取形象清单失败', 500, error instanceof Error ? error.message : String(error));
+      }
+    }
+    if (!isRecord(raw) || !Array.isArray(raw.avatars)) {
+      throw new AvatarManifestError('形象清单格式错误', 500, '清单必须是包含 avatars 数组的对象');
+    }
+
+    const result = mutator(raw as RawAvatarManifest);
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    // 写入队列只在本进程内串行，临时文件名带随机后缀，避免多个进程共用清单时互相覆盖
+    const tmpPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+    await fs.promises.writeFile(tmpPath, `${JSON.stringify(raw, null, 2)}\n`, 'utf-8');
+    await fs.promises.rename(tmpPath, filePath);
+    // 修改时间可能与缓存相同（同一毫秒内多次写入），直接清空缓存
+    manifestCache = null;
+    return result;
+  };
+
+  const task = (globalForManifest.avatarManifestWriteQueue ?? Promise.resolve()).then(run, run);
+  globalForManifest.avatarManifestWriteQueue = task.catch(() => undefined);
+  return task;
+}
+
+/**
+ * 查找原始清单中的形象位置（未找到返回 -1）
+ */
+export function findRawAvatarIndex(raw: RawAvatarManifest, avatarId: string): number {
+  return raw.avatars.findIndex((item) => isRecord(item) && item.id === avatarId);
+}
+
+/**
+ * 转换为下发给前端的形象数据（去掉 enabled、persona）
+ */
+export function toAvatarModel(entry: AvatarManifestEntry): AvatarModel {
+  const { id, name, thumbnail, lipsyncSource, videos, voice } = entry;
+  return { id, name, thumbnail, lipsyncSource, videos, voice };
+}
+
+/**
+ * 获取形象在指定语言下的人设（未配置时返回 undefined，使用默认人设）
+ */
+export function getAvatarPersona(avatarId: string, language?: string): string | undefined {
+  let manifest: AvatarManifest;
+  try {
+    manifest = loadAvatarManifest();
+  } catch {
+    return undefined;
+  }
+  const persona = manifest.avatars.find((avatar) => avatar.id === avatarId && avatar.enabled)?.persona;
+  if (!persona) return undefined;
+  return (language === 'en' ? persona.en : persona.zh) ?? persona.zh ?? persona.en;
+}
+
+/**
+ * 获取形象配置了视频的动作片段（形象不存在或已停用时返回空数组）
+ */
+export function getAvatarGestureClips(avatarId: string): AvatarGesture[] {
+  try {
+    const avatar = loadAvatarManifest().avatars.find((item) => item.id === avatarId && item.enabled);
+    return avatar ? getAvatarGestures(avatar) : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,348 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { AvatarAction } from '@/types/avatar';
+import { isAvatarGesture } from '@/types/avatar';
+
+/**
+ * 形象素材：校验与存储
+ * 上传的视频只做容器层解析（MP4 box），不依赖 ffprobe：
+ * 读取视频轨的编码、分辨率和时长，保证浏览器可以直接播放、各动作视频尺寸一致
+ */
+
+/** 视频信息 */
+export interface VideoInfo {
+  /** 视频编码（stsd 中的格式，如 avc1） */
+  codec: string;
+  width: number;
+  height: number;
+  durationMs: number;
+}
+
+/** 图片信息 */
+export interface ImageInfo {
+  type: 'png' | 'jpeg';
+  width: number;
+  height: number;
+}
+
+/** 上传的素材文件名 */
+export type AvatarMediaName = AvatarAction | 'thumbnail';
+
+/** 浏览器普遍支持的视频编码（H.264） */
+const SUPPORTED_VIDEO_CODECS = ['avc1', 'avc3'];
+/** 单个动作视频最大体积 */
+const MAX_VIDEO_BYTES = 100 * 1024 * 1024;
+/** 单个动作片段最大体积（片段不超过 10 秒） */
+const MAX_GESTURE_VIDEO_BYTES = 20 * 1024 * 1024;
+/** 缩略图最大体积 */
+const MAX_THUMBNAIL_BYTES = 5 * 1024 * 1024;
+/**
+ * 单次上传请求的最大体积（所有素材合计）
+ * 表单解析会把整个请求体读入内存，超出时先创建形象，再通过 PUT 分批上传其余素材
+ */
+export const MAX_UPLOAD_BYTES = 256 * 1024 * 1024;
+/** 视频分辨率范围（短边 / 长边，像素） */
+const MIN_VIDEO_SIDE = 256;
+const MAX_VIDEO_SIDE = 1920;
+/** 各动作视频的时长范围（毫秒） */
+const VIDEO_DURATION_RANGE: Record<AvatarAction, { min: number; max: number }> = {
+  idle: { min: 1000, max: 60 * 1000 },
+  think: { min: 1000, max: 60 * 1000 },
+  talk: { min: 1000, max: 60 * 1000 },
+  dance: { min: 1000, max: 120 * 1000 },
+  // 动作片段插在句子之间播放，需要短
+  greet: { min: 500, max: 10 * 1000 },
+  nod: { min: 500, max: 10 * 1000 },
+  laugh: { min: 500, max: 10 * 1000 },
+  wave: { min: 500, max: 10 * 1000 },
+};
+/** 缩略图最小边长（像素） */
+const MIN_THUMBNAIL_SIDE = 64;
+
+/** 默认素材目录 */
+const DEFAULT_MEDIA_DIR = '.data/avatars';
+/** 素材访问路径前缀（由 /api/avatars/media 提供） */
+const MEDIA_URL_PREFIX = '/api/avatars/media';
+
+/**
+ * 素材校验错误（作为 400 返回给调用方）
+ */
+export class AvatarMediaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AvatarMediaError';
+  }
+}
+
+// ============================ MP4 解析 ============================
+
+interface Box {
+  type: string;
+  /** 内容起始位置（跳过头部） */
+  start: number;
+  end: number;
+}
+
+/**
+ * 列出 [start, end) 范围内的 box
+ */
+function readBoxes(buffer: Buffer, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(buffer: Buffer, parent: Box | null, type: string): Box | undefined {
+  const start = parent ? parent.start : 0;
+  const end = parent ? parent.end : buffer.length;
+  return readBoxes(buffer, start, end).find((box) => box.type === type);
+}
+
+/**
+ * 解析视频轨：编码（stsd）、分辨率（视频采样描述）、时长（mdhd）
+ */
+function readVideoTrack(buffer: Buffer, trak: Box): VideoInfo | null {
+  const mdia = findBox(buffer, trak, 'mdia');
+  const hdlr = mdia && findBox(buffer, mdia, 'hdlr');
+  // hdlr: version/flags(4) + pre_defined(4) + handler_type(4)
+  if (!mdia || !hdlr || buffer.toString('latin1', hdlr.start + 8, hdlr.start + 12) !== 'vide') {
+    return null;
+  }
+
+  const mdhd = findBox(buffer, mdia, 'mdhd');
+  const stbl = ['minf', 'stbl'].reduce<Box | undefined>((box, type) => box && findBox(buffer, box, type), mdia);
+  const stsd = stbl && findBox(buffer, stbl, 'stsd');
+  if (!mdhd || !stsd) return null;
+
+  // mdhd version 1 使用 64 位时间字段
+  const version = buffer.readUInt8(mdhd.start);
+  const timescale = version === 1 ? buffer.readUInt32BE(mdhd.start + 20) : buffer.readUInt32BE(mdhd.start + 12);
+  const duration = version === 1 ? Number(buffer.readBigUInt64BE(mdhd.start + 24)) : buffer.readUInt32BE(mdhd.start + 16);
+
+  // stsd: version/flags(4) + entry_count(4) + 第一个采样描述 size(4) + format(4) + ...
+  // 视频采样描述中 width/height 位于描述起始的第 32/34 字节
+  const entry = stsd.start + 8;
+  if (entry + 36 > stsd.end) return null;
+  return {
+    codec: buffer.toString('latin1', entry + 4, entry + 8),
+    width: buffer.readUInt16BE(entry + 32),
+    height: buffer.readUInt16BE(entry + 34),
+    durationMs: timescale ? Math.round((duration / timescale) * 1000) : 0,
+  };
+}
+
+/**
+ * 解析 MP4 视频信息
+ * @throws 不是 MP4 或没有视频轨时抛出 AvatarMediaError
+ */
+export function probeMp4(buffer: Buffer): VideoInfo {
+  const ftyp = readBoxes(buffer, 0, Math.min(buffer.length, 64))[0];
+  if (ftyp?.type !== 'ftyp') {
+    throw new AvatarMediaError('不是 MP4 文件');
+  }
+
+  const moov = findBox(buffer, null, 'moov');
+  if (!moov) {
+    throw new AvatarMediaError('MP4 缺少 moov（文件可能不完整）');
+  }
+
+  for (const box of readBoxes(buffer, moov.start, moov.end)) {
+    if (box.type !== 'trak') continue;
+    const info = readVideoTrack(buffer, box);
+    if (info) return info;
+  }
+  throw new AvatarMediaError('MP4 中没有视频轨');
+}
+
+// ============================ 图片解析 ============================
+
+/**
+ * 解析 PNG / JPEG 尺寸
+ * @throws 格式不支持时抛出 AvatarMediaError
+ */
+export function probeImage(buffer: Buffer): ImageInfo {
+  // PNG：签名 + IHDR（宽高位于第 16/20 字节）
+  if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.toString('latin1', 12, 16) === 'IHDR') {
+    return { type: 'png', width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  // JPEG：逐段查找 SOF（0xC0-0xCF，除 DHT/JPG/DAC）
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) break;
+      const marker = buffer[offset + 1];
+      const length = buffer.readUInt16BE(offset + 2);
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { type: 'jpeg', height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + length;
+    }
+    throw new AvatarMediaError('无法读取 JPEG 尺寸');
+  }
+
+  throw new AvatarMediaError('缩略图只支持 PNG 或 JPEG');
+}
+
+// ============================ 校验 ============================
+
+/**
+ * 校验素材体积（读取文件内容之前调用）
+ * @throws 超过上限时抛出 AvatarMediaError
+ */
+export function checkMediaSize(name: AvatarMediaName, size: number) {
+  if (name === 'thumbnail') {
+    if (size > MAX_THUMBNAIL_BYTES) {
+      throw new AvatarMediaError(`缩略图超过 ${MAX_THUMBNAIL_BYTES / 1024 / 1024}MB`);
+    }
+    return;
+  }
+
+  const maxBytes = isAvatarGesture(name) ? MAX_GESTURE_VIDEO_BYTES : MAX_VIDEO_BYTES;
+  if (size > maxBytes) {
+    throw new AvatarMediaError(`${name} 视频超过 ${maxBytes / 1024 / 1024}MB`);
+  }
+}
+
+/**
+ * 校验动作视频
+ * @throws 不符合要求时抛出 AvatarMediaError（消息包含动作名）
+ */
+export function validateAvatarVideo(action: AvatarAction, buffer: Buffer): VideoInfo {
+  checkMediaSize(action, buffer.length);
+
+  let info: VideoInfo;
+  try {
+    info = probeMp4(buffer);
+  } catch (error) {
+    throw new AvatarMediaError(`${action} 视频: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!SUPPORTED_VIDEO_CODECS.includes(info.codec)) {
+    throw new AvatarMediaError(`${action} 视频编码为 ${info.codec}，只支持 H.264（${SUPPORTED_VIDEO_CODECS.join(' / ')}）`);
+  }
+
+  const shortSide = Math.min(info.width, info.height);
+  const longSide = Math.max(info.width, info.height);
+  if (shortSide < MIN_VIDEO_SIDE || longSide > MAX_VIDEO_SIDE) {
+    throw new AvatarMediaError(
+      `${action} 视频分辨率 ${info.width}x${info.height} 超出范围（短边 ≥ ${MIN_VIDEO_SIDE}，长边 ≤ ${MAX_VIDEO_SIDE}）`
+    );
+  }
+
+  const range = VIDEO_DURATION_RANGE[action];
+  if (info.durationMs < range.min || info.durationMs > range.max) {
+    throw new AvatarMediaError(
+      `${action} 视频时长 ${(info.durationMs / 1000).toFixed(1)} 秒超出范围（${range.min / 1000} ~ ${range.max / 1000} 秒）`
+    );
+  }
+
+  return info;
+}
+
+/**
+ * 校验各动作视频尺寸一致（切换动作时画面不跳动）
+ * @throws 尺寸不一致时抛出 AvatarMediaError
+ */
+export function validateVideoDimensions(videos: Partial<Record<AvatarAction, VideoInfo>>) {
+  const entries = Object.entries(videos) as Array<[AvatarAction, VideoInfo]>;
+  const [first] = entries;
+  if (!first) return;
+  for (const [action, info] of entries) {
+    if (info.width !== first[1].width || info.height !== first[1].height) {
+      throw new AvatarMediaError(
+        `各动作视频尺寸需一致：${first[0]} 为 ${first[1].width}x${first[1].height}，${action} 为 ${info.width}x${info.height}`
+      );
+    }
+  }
+}
+
+/**
+ * 校验缩略图
+ * @throws 不符合要求时抛出 AvatarMediaError
+ */
+export function validateThumbnail(buffer: Buffer): ImageInfo {
+  checkMediaSize('thumbnail', buffer.length);
+  const info = probeImage(buffer);
+  if (Math.min(info.width, info.height) < MIN_THUMBNAIL_SIDE) {
+    throw new AvatarMediaError(`缩略图尺寸 ${info.width}x${info.height} 过小（边长 ≥ ${MIN_THUMBNAIL_SIDE}）`);
+  }
+  return info;
+}
+
+// ============================ 存储 ============================
+
+/**
+ * 素材目录（AVATAR_MEDIA_DIR，默认 .data/avatars）
+ */
+export function getAvatarMediaDir(): string {
+  return path.resolve(process.env.AVATAR_MEDIA_DIR || DEFAULT_MEDIA_DIR);
+}
+
+/**
+ * 素材文件名
+ */
+export function getMediaFileName(name: AvatarMediaName, type: 'mp4' | ImageInfo['type']): string {
+  return `${name}.${type === 'jpeg' ? 'jpg' : type}`;
+}
+
+/**
+ * 素材访问地址
+ */
+export function getAvatarMediaUrl(avatarId: string, fileName: string): string {
+  return `${MEDIA_URL_PREFIX}/${avatarId}/${fileName}`;
+}
+
+/**
+ * 判断地址是否为上传的素材
+ */
+export function isManagedMediaUrl(url: string): boolean {
+  return url.startsWith(`${MEDIA_URL_PREFIX}/`);
+}
+
+/**
+ * 解析素材文件路径（防止路径穿越）
+ * @returns 素材目录外的路径返回 null
+ */
+export function resolveAvatarMediaPath(segments: string[]): string | null {
+  const dir = getAvatarMediaDir();
+  const filePath = path.resolve(dir, ...segments);
+  return filePath.startsWith(dir + path.sep) ? filePath : null;
+}
+
+/**
+ * 保存素材（先写临时文件再重命名，避免播放到写了一半的文件）
+ * 临时文件名带随机后缀，同一素材并发上传时互不影响
+ */
+export async function saveAvatarMedia(avatarId: string, fileName: string, data: Buffer): Promise<string> {
+  const dir = path.join(getAvatarMediaDir(), avatarId);
+  await fs.mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, fileName);
+  const tmpPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+  await fs.writeFile(tmpPath, data);
+  await fs.rename(tmpPath, filePath);
+  return getAvatarMediaUrl(avatarId, fileName);
+}
+
+/**
+ * 删除形象的全部素材
+ */
+export async function removeAvatarMedia(avatarId: string): Promise<void> {
+  await fs.rm(path.join(getAvatarMediaDir(), avatarId), { recursive: true, force: true });
+}
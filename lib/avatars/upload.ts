@@ -0,0 +1,345 @@
+import fs from 'fs/promises';
+import type {
+  AvatarAction,
+  AvatarDetail,
+  AvatarLipsyncRegistration,
+  AvatarManifestEntry,
+} from '@/types/avatar';
+import { AVATAR_GESTURES } from '@/types/avatar';
+import {
+  AvatarManifestError,
+  findRawAvatarIndex,
+  isAvatarId,
+  loadAvatarManifest,
+  parseAvatarEntry,
+  toAvatarModel,
+  updateAvatarManifest,
+} from '@/lib/avatars/manifest';
+import {
+  AvatarMediaError,
+  checkMediaSize,
+  getMediaFileName,
+  isManagedMediaUrl,
+  MAX_UPLOAD_BYTES,
+  probeMp4,
+  removeAvatarMedia,
+  resolveAvatarMediaPath,
+  saveAvatarMedia,
+  validateAvatarVideo,
+  validateThumbnail,
+  validateVideoDimensions,
+  type ImageInfo,
+  type VideoInfo,
+} from '@/lib/avatars/media';
+import { registerFace } from '@/lib/lipsync/faces';
+
+/**
+ * 形象管理：解析上传表单、保存素材、写入清单、预注册对口型
+ *
+ * 表单字段（multipart/form-data）：
+ * - id           形象 ID（仅创建时）
+ * - name         名称：字符串或 JSON { zh, en }
+ * - enabled      "true" / "false"（默认 true）
+ * - default      "true" 设为默认形象
+ * - voice        JSON，同清单中的 voice
+ * - persona      JSON，同清单中的 persona
+ * - idle / think / talk / dance   MP4 视频（H.264）
+ * - greet / nod / laugh / wave     动作片段 MP4（可选）
+ * - thumbnail    PNG / JPEG 缩略图
+ */
+
+const AVATAR_ACTIONS: readonly AvatarAction[] = ['idle', 'talk', 'dance', 'think'];
+/** 可上传的全部视频（必填动作 + 可选动作片段） */
+const AVATAR_CLIPS: readonly AvatarAction[] = [...AVATAR_ACTIONS, ...AVATAR_GESTURES];
+/** 保留 ID（/api/avatars/media 用于访问素材） */
+const RESERVED_IDS = ['media'];
+
+/** 表单中的素材 */
+interface AvatarUploadFiles {
+  videos: Partial<Record<AvatarAction, Buffer>>;
+  thumbnail?: { buffer: Buffer; info: ImageInfo };
+}
+
+/** 保存结果 */
+export interface AvatarSaveResult {
+  avatar: AvatarDetail;
+  lipsync?: AvatarLipsyncRegistration;
+}
+
+function badRequest(message: string, details?: string): AvatarManifestError {
+  return new AvatarManifestError(message, 400, details);
+}
+
+function getText(formData: FormData, key: string): string | undefined {
+  const value = formData.get(key);
+  return typeof value === 'string' ? value.trim() : undefined;
+}
+
+function parseJsonField(formData: FormData, key: string): unknown {
+  const text = getText(formData, key);
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw badRequest(`${key} 必须是 JSON`);
+  }
+}
+
+function parseBooleanField(formData: FormData, key: string): boolean | undefined {
+  const text = getText(formData, key);
+  if (!text) return undefined;
+  if (text === 'true' || text === 'false') return text === 'true';
+  throw badRequest(`${key} 必须是 true 或 false`);
+}
+
+/**
+ * 读取表单中的文字字段（未提供的字段不返回，更新时保持原值）
+ */
+function readFields(formData: FormData): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  const name = getText(formData, 'name');
+  if (name) fields.name = name.startsWith('{') ? parseJsonField(formData, 'name') : name;
+  const enabled = parseBooleanField(formData, 'enabled');
+  if (enabled !== undefined) fields.enabled = enabled;
+  const voice = parseJsonField(formData, 'voice');
+  if (voice !== undefined) fields.voice = voice;
+  const persona = parseJsonField(formData, 'persona');
+  if (persona !== undefined) fields.persona = persona;
+  return fields;
+}
+
+/**
+ * 解析上传表单
+ * 先按 Content-Length 拒绝超限的请求，避免把过大的请求体读入内存
+ * @throws 缺少 Content-Length（411）或超过 MAX_UPLOAD_BYTES（413）时抛出 AvatarManifestError
+ */
+export async function readUploadForm(request: Request): Promise<FormData> {
+  const contentLength = request.headers.get('content-length');
+  if (!contentLength) {
+    throw new AvatarManifestError('缺少 Content-Length', 411, '上传素材时不支持分块传输');
+  }
+  if (!(Number(contentLength) <= MAX_UPLOAD_BYTES)) {
+    throw new AvatarManifestError(
+      `上传内容超过 ${MAX_UPLOAD_BYTES / 1024 / 1024}MB`,
+      413,
+      '可先创建形象，再通过 PUT /api/avatars/:id 分批上传其余素材'
+    );
+  }
+  return request.formData();
+}
+
+/**
+ * 读取并校验表单中的素材
+ * @param existingVideos 未替换的已有视频（用于校验尺寸一致）
+ */
+async function readFiles(formData: FormData, existingVideos: Partial<Record<AvatarAction, VideoInfo>> = {}): Promise<AvatarUploadFiles> {
+  const files: AvatarUploadFiles = { videos: {} };
+  const infos: Partial<Record<AvatarAction, VideoInfo>> = { ...existingVideos };
+
+  for (const action of AVATAR_CLIPS) {
+    const file = formData.get(action);
+    if (!(file instanceof Blob)) continue;
+    checkMediaSize(action, file.size);
+    const buffer = Buffer.from(await file.arrayBuffer());
+    infos[action] = validateAvatarVideo(action, buffer);
+    files.videos[action] = buffer;
+  }
+  validateVideoDimensions(infos);
+
+  const thumbnail = formData.get('thumbnail');
+  if (thumbnail instanceof Blob) {
+    checkMediaSize('thumbnail', thumbnail.size);
+    const buffer = Buffer.from(await thumbnail.arrayBuffer());
+    files.thumbnail = { buffer, info: validateThumbnail(buffer) };
+  }
+
+  return files;
+}
+
+/**
+ * 读取已上传视频的信息（只处理素材目录中的文件，其他来源跳过）
+ */
+async function probeExistingVideos(entry: AvatarManifestEntry): Promise<Partial<Record<AvatarAction, VideoInfo>>> {
+  const infos: Partial<Record<AvatarAction, VideoInfo>> = {};
+  for (const action of AVATAR_CLIPS) {
+    const url = entry.videos[action]?.split('?')[0];
+    if (!url || !isManagedMediaUrl(url)) continue;
+    const filePath = resolveAvatarMediaPath(url.split('/').slice(4));
+    if (!filePath) continue;
+    try {
+      infos[action] = probeMp4(await fs.readFile(filePath));
+    } catch (error) {
+      console.error(`读取形象 ${entry.id} 的 ${action} 视频失败:`, error);
+    }
+  }
+  return infos;
+}
+
+/**
+ * 保存素材，返回各素材的访问地址（带版本号，替换后浏览器不会使用旧缓存）
+ */
+async function saveFiles(avatarId: string, files: AvatarUploadFiles): Promise<Record<string, string>> {
+  const version = Date.now();
+  const urls: Record<string, string> = {};
+  for (const action of AVATAR_CLIPS) {
+    const buffer = files.videos[action];
+    if (!buffer) continue;
+    urls[action] = `${await saveAvatarMedia(avatarId, getMediaFileName(action, 'mp4'), buffer)}?v=${version}`;
+  }
+  if (files.thumbnail) {
+    const { buffer, info } = files.thumbnail;
+    urls.thumbnail = `${await saveAvatarMedia(avatarId, getMediaFileName('thumbnail', info.type), buffer)}?v=${version}`;
+  }
+  return urls;
+}
+
+/**
+ * 预注册对口型：把 talk 视频上传到 Wav2Lip，提前发现人脸检测失败等问题
+ * 注册结果进入人脸文件缓存，前端切换到该形象时直接复用；失败只打印警告，不影响形象保存
+ */
+async function registerLipsyncFace(avatarId: string, talk: Buffer): Promise<AvatarLipsyncRegistration> {
+  try {
+    const { fileId } = await registerFace(avatarId, { bytes: new Uint8Array(talk), fileName: 'talk.mp4', type: 'video/mp4' });
+    return { registered: true, fileId };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`⚠️ 形象 ${avatarId} 对口型预注册失败:`, message);
+    return { registered: false, error: message };
+  }
+}
+
+/**
+ * 转换为管理接口返回的形象数据
+ */
+export function toAvatarDetail(entry: AvatarManifestEntry): AvatarDetail {
+  return { ...toAvatarModel(entry), enabled: entry.enabled };
+}
+
+/**
+ * 校验写入清单的原始形象（不通过时抛出 400）
+ */
+function validateRawEntry(raw: Record<string, unknown>): AvatarManifestEntry {
+  const result = parseAvatarEntry(raw);
+  if (!result.ok) throw badRequest('形象配置无效', result.error);
+  return result.entry;
+}
+
+/**
+ * 创建形象：4 个动作视频和缩略图必填
+ * @throws AvatarManifestError（400 / 409）或 AvatarMediaError
+ */
+export async function createAvatar(formData: FormData): Promise<AvatarSaveResult> {
+  const id = getText(formData, 'id');
+  if (!isAvatarId(id) || RESERVED_IDS.includes(id)) {
+    throw badRequest('id 只能包含字母、数字、下划线和连字符（最长 64 位），且不能为保留字');
+  }
+
+  if (loadAvatarManifest().avatars.some((avatar) => avatar.id === id)) {
+    throw new AvatarManifestError(`形象 ${id} 已存在`, 409);
+  }
+
+  const fields = readFields(formData);
+  const missing = [...AVATAR_ACTIONS, 'thumbnail'].filter((key) => !(formData.get(key) instanceof Blob));
+  if (missing.length > 0) throw badRequest(`缺少素材: ${missing.join(', ')}`);
+  const isDefault = parseBooleanField(formData, 'default') ?? false;
+
+  const files = await readFiles(formData);
+  // 先校验文字字段，避免保存素材后才发现配置无效
+  validateRawEntry({ id, ...fields, thumbnail: '/', videos: { idle: '/', talk: '/', dance: '/', think: '/' } });
+
+  const urls = await saveFiles(id, files);
+  const raw: Record<string, unknown> = {
+    id,
+    ...fields,
+    thumbnail: urls.thumbnail,
+    videos: Object.fromEntries(AVATAR_CLIPS.filter((action) => urls[action]).map((action) => [action, urls[action]])),
+  };
+  const entry = validateRawEntry(raw);
+
+  try {
+    await updateAvatarManifest((manifest) => {
+      if (findRawAvatarIndex(manifest, id) !== -1) {
+        throw new AvatarManifestError(`形象 ${id} 已存在`, 409);
+      }
+      manifest.avatars.push(raw);
+      if (isDefault) manifest.defaultAvatarId = id;
+    });
+  } catch (error) {
+    // 并发创建同一 ID 时素材目录属于先创建的形象，不能删除
+    if (!(error instanceof AvatarManifestError && error.status === 409)) {
+      await removeAvatarMedia(id);
+    }
+    throw error;
+  }
+  console.log(`🧑 已创建形象: ${id}`);
+
+  const lipsync = await registerLipsyncFace(id, files.videos.talk as Buffer);
+  return { avatar: toAvatarDetail(entry), lipsync };
+}
+
+/**
+ * 更新形象：只修改提供的字段和素材
+ * @throws AvatarManifestError（400 / 404）或 AvatarMediaError
+ */
+export async function updateAvatar(avatarId: string, existing: AvatarManifestEntry, formData: FormData): Promise<AvatarSaveResult> {
+  const fields = readFields(formData);
+  const isDefault = parseBooleanField(formData, 'default');
+  const files = await readFiles(formData, await probeExistingVideos(existing));
+
+  // 先用当前配置校验文字字段
+  validateRawEntry({ ...existing, ...fields });
+
+  const urls = await saveFiles(avatarId, files);
+  const entry = await updateAvatarManifest((manifest) => {
+    const index = findRawAvatarIndex(manifest, avatarId);
+    if (index === -1) throw new AvatarManifestError(`形象 ${avatarId} 不存在`, 404);
+
+    const current = manifest.avatars[index] as Record<string, unknown>;
+    const raw: Record<string, unknown> = {
+      ...current,
+      ...fields,
+      ...(urls.thumbnail ? { thumbnail: urls.thumbnail } : {}),
+      videos: {
+        ...(current.videos as Record<string, unknown>),
+        ...Object.fromEntries(AVATAR_CLIPS.filter((action) => urls[action]).map((action) => [action, urls[action]])),
+      },
+    };
+    const parsed = validateRawEntry(raw);
+    manifest.avatars[index] = raw;
+    if (isDefault === true) manifest.defaultAvatarId = avatarId;
+    if (isDefault === false && manifest.defaultAvatarId === avatarId) delete manifest.defaultAvatarId;
+    return parsed;
+  });
+  console.log(`🧑 已更新形象: ${avatarId}`);
+
+  const lipsync = files.videos.talk ? await registerLipsyncFace(avatarId, files.videos.talk) : undefined;
+  return { avatar: toAvatarDetail(entry), lipsync };
+}
+
+/**
+ * 删除形象（同时删除上传的素材）
+ * @throws 形象不存在时抛出 AvatarManifestError（404）
+ */
+export async function deleteAvatar(avatarId: string): Promise<void> {
+  await updateAvatarManifest((manifest) => {
+    const index = findRawAvatarIndex(manifest, avatarId);
+    if (index === -1) throw new AvatarManifestError(`形象 ${avatarId} 不存在`, 404);
+    manifest.avatars.splice(index, 1);
+    if (manifest.defaultAvatarId === avatarId) delete manifest.defaultAvatarId;
+  });
+  await removeAvatarMedia(avatarId);
+  console.log(`🧑 已删除形象: ${avatarId}`);
+}
+
+/**
+ * 形象管理接口的错误响应（非预期错误返回 null，由调用方继续抛出）
+ */
+export function avatarErrorResponse(error: unknown): Response | null {
+  if (error instanceof AvatarMediaError) {
+    return Response.json({ error: '素材校验失败', details: error.message }, { status: 400 });
+  }
+  if (error instanceof AvatarManifestError) {
+    return Response.json({ error: error.message, details: error.details }, { status: error.status });
+  }
+  return null;
+}
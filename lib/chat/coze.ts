@@ -0,0 +1,109 @@
+import { CozeAPI, ChatEventType, RoleType, COZE_COM_BASE_URL, APIError } from '@coze/api';
+import type { ChatProvider, ChatProviderRequest, ChatStreamEvent } from './types';
+import { ChatProviderError, isAbortError } from './errors';
+
+/** Coze Provider 配置 */
+export interface CozeProviderConfig {
+  apiKey: string;
+  botId: string;
+  /** API 地址，默认 COZE_COM_BASE_URL */
+  baseURL?: string;
+  /**
+   * 接收系统提示词的 Bot 变量名（Bot 人设中以 {{变量名}} 引用）
+   * 未配置时系统提示词以指令块形式附加在用户消息前
+   */
+  instructionsVariable?: string;
+}
+
+/**
+ * 将 Coze SDK 错误转换为 ChatProviderError
+ */
+function toProviderError(error: unknown): unknown {
+  if (error instanceof ChatProviderError || isAbortError(error)) {
+    return error;
+  }
+  if (error instanceof APIError) {
+    return new ChatProviderError(
+      'Coze 服务错误',
+      error.status ?? 502,
+      error.msg || error.message
+    );
+  }
+  const message = error instanceof Error ? error.message : '未知错误';
+  return new ChatProviderError('Coze 服务错误', 502, message);
+}
+
+/**
+ * 创建 Coze Chat Provider
+ */
+export function createCozeProvider(config: CozeProviderConfig): ChatProvider {
+  const client = new CozeAPI({
+    token: config.apiKey,
+    baseURL: config.baseURL || COZE_COM_BASE_URL,
+    allowPersonalAccessTokenInBrowser: false,
+  });
+
+  async function* stream({
+    message,
+    systemPrompt,
+    userId,
+    conversationId,
+    signal,
+  }: ChatProviderRequest): AsyncGenerator<ChatStreamEvent> {
+    // Coze v3 的 additional_messages 不支持 system 角色
+    const useVariable = Boolean(systemPrompt && config.instructionsVariable);
+    const content = systemPrompt && !useVariable
+      ? `[指令]\n${systemPrompt}\n\n[用户]\n${message}`
+      : message;
+
+    try {
+      // Coze 在服务端保存历史（auto_save_history），续聊时只需携带 conversation_id
+      const parts = client.chat.stream(
+        {
+          bot_id: config.botId,
+          user_id: userId,
+          conversation_id: conversationId,
+          additional_messages: [
+            {
+              role: RoleType.User,
+              content,
+              content_type: 'text',
+            },
+          ],
+          ...(useVariable && {
+            custom_variables: { [config.instructionsVariable!]: systemPrompt! },
+          }),
+          auto_save_history: true,
+        },
+        { signal }
+      );
+
+      for await (const part of parts) {
+        if (part.event === ChatEventType.CONVERSATION_CHAT_CREATED) {
+          if (!conversationId && part.data.conversation_id) {
+            yield { type: 'conversation', id: part.data.conversation_id };
+          }
+        } else if (part.event === ChatEventType.CONVERSATION_MESSAGE_DELTA) {
+          if (part.data.content) {
+            yield { type: 'delta', content: part.data.content };
+          }
+        } else if (part.event === ChatEventType.CONVERSATION_CHAT_FAILED) {
+          throw new ChatProviderError(
+            'Coze 对话失败',
+            502,
+            part.data.last_error?.msg
+          );
+        } else if (part.event === ChatEventType.ERROR) {
+          throw new ChatProviderError('Coze 对话失败', 502, part.data.msg);
+        }
+      }
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  return {
+    name: 'coze',
+    stream,
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Chat Provider 错误类型
+ * status 会作为 /api/chat 的 HTTP 状态码返回给前端
+ */
+export class ChatProviderError extends Error {
+  status: number;
+  details?: string;
+
+  constructor(message: string, status: number = 500, details?: string) {
+    super(message);
+    this.name = 'ChatProviderError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * 判断是否为取消请求导致的错误
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    (error instanceof Error || error instanceof DOMException) &&
+    error.name === 'AbortError'
+  );
+}
@@ -0,0 +1,118 @@
+import type { AvatarGesture } from '@/types/avatar';
+import { isAvatarGesture } from '@/types/avatar';
+
+/**
+ * 回复动作标签
+ * 每轮回复最多一个动作片段，来源按优先级：
+ * 1. 模型在回答开头输出的标记 [[gesture]]（系统提示词中只列出当前形象配置了视频的动作）
+ * 2. 关键词分类：用户消息（打招呼 / 道别，回答开始前即可确定）、回答内容（大笑 / 赞同，回答结束后确定）
+ * 标记会从回答中去掉，不进入 TTS、字幕和对话历史
+ */
+
+/** 动作说明（写入系统提示词） */
+const GESTURE_DESCRIPTIONS: Record<string, Record<AvatarGesture, string>> = {
+  zh: { greet: '打招呼', nod: '点头赞同', laugh: '大笑', wave: '挥手道别' },
+  en: { greet: 'greeting', nod: 'nodding in agreement', laugh: 'laughing', wave: 'waving goodbye' },
+};
+
+/** 标记格式：回答开头的 [[gesture]] */
+const MARKER_PATTERN = /^\s*\[\[(\w+)\]\]\s*/;
+/** 标记最大长度，超过仍未闭合视为普通文本 */
+const MAX_MARKER_LENGTH = 16;
+
+/** 关键词规则：message 匹配用户消息，reply 匹配回答 */
+const GESTURE_RULES: Array<{ gesture: AvatarGesture; source: 'message' | 'reply'; pattern: RegExp }> = [
+  { gesture: 'wave', source: 'message', pattern: /再见|拜拜|回头见|\b(bye|goodbye|see you)\b/i },
+  { gesture: 'greet', source: 'message', pattern: /^\s*(你好|您好|嗨|哈喽|早上好|下午好|晚上好)|^\s*(hello|hi|hey|good (morning|afternoon|evening))\b/i },
+  { gesture: 'laugh', source: 'reply', pattern: /哈哈|\b(haha|lol)\b/i },
+  // 赞同词后需紧跟标点、空白或结束，避免「对于」「好的方面」之类的开头被误判
+  { gesture: 'nod', source: 'reply', pattern: /^\s*(对|是的|没错|当然|好的)(?=[，。！？,.!?\s]|$)|^\s*(yes|sure|right|exactly|of course|absolutely)\b/i },
+];
+
+/**
+ * 生成动作标记说明（追加到系统提示词，没有可用动作时返回空字符串）
+ */
+export function buildGesturePrompt(language: string | undefined, gestures: readonly AvatarGesture[]): string {
+  if (gestures.length === 0) return '';
+
+  if (language === 'en') {
+    const options = gestures.map((gesture) => `[[${gesture}]] ${GESTURE_DESCRIPTIONS.en[gesture]}`).join(', ');
+    return (
+      'If a gesture suits your reply, start the reply with exactly one gesture marker ' +
+      `(one of: ${options}) and then continue with the answer. Omit the marker otherwise.`
+    );
+  }
+
+  const options = gestures.map((gesture) => `[[${gesture}]] ${GESTURE_DESCRIPTIONS.zh[gesture]}`).join('、');
+  return `如果回答适合配合动作，请在回答最开头输出一个动作标记（只能是 ${options} 之一），然后再开始回答；不适合时不要输出标记。`;
+}
+
+/** 标记解析结果 */
+interface MarkerResult {
+  /** 去掉标记后可以下发的内容 */
+  content: string;
+  /** 标记中的动作（未配置的动作忽略） */
+  gesture?: AvatarGesture;
+}
+
+/**
+ * 创建流式标记解析器
+ * 回答开头可能是标记时先缓存，确定后再下发内容；之后的分片原样返回
+ */
+export function createGestureMarkerParser(gestures: readonly AvatarGesture[]) {
+  let buffer = '';
+  let decided = false;
+
+  const decide = (content: string, gesture?: AvatarGesture): MarkerResult => {
+    decided = true;
+    buffer = '';
+    return gesture ? { content, gesture } : { content };
+  };
+
+  return {
+    /** 开头是否已处理完（之后的内容不会再有标记） */
+    get decided() {
+      return decided;
+    },
+
+    push(delta: string): MarkerResult {
+      if (decided) return { content: delta };
+
+      buffer += delta;
+      const text = buffer.trimStart();
+      if (!text) return { content: '' };
+      if (!text.startsWith('[[')) {
+        return '[['.startsWith(text) ? { content: '' } : decide(buffer);
+      }
+
+      const match = MARKER_PATTERN.exec(buffer);
+      if (match) {
+        // 未配置的动作也去掉标记，避免被朗读
+        const gesture = isAvatarGesture(match[1]) && gestures.includes(match[1]) ? match[1] : undefined;
+        return decide(buffer.slice(match[0].length), gesture);
+      }
+      return text.length > MAX_MARKER_LENGTH ? decide(buffer) : { content: '' };
+    },
+
+    /** 回答结束：下发仍在缓存中的内容 */
+    flush(): MarkerResult {
+      return decided ? { content: '' } : decide(buffer);
+    },
+  };
+}
+
+/**
+ * 按关键词分类动作
+ * @param source message 用户消息 / reply 回答内容
+ * @returns 没有匹配或形象未配置对应动作时返回 null
+ */
+export function classifyGesture(
+  source: 'message' | 'reply',
+  text: string,
+  gestures: readonly AvatarGesture[]
+): AvatarGesture | null {
+  const rule = GESTURE_RULES.find(
+    (item) => item.source === source && gestures.includes(item.gesture) && item.pattern.test(text)
+  );
+  return rule?.gesture ?? null;
+}
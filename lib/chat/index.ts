@@ -0,0 +1,59 @@
+import type { ChatProvider, ChatProviderName } from './types';
+import { ChatProviderError } from './errors';
+import { createCozeProvider } from './coze';
+import { createOpenAIProvider } from './openai';
+import { createMockProvider } from './mock';
+
+export type {
+  ChatProvider,
+  ChatProviderName,
+  ChatProviderRequest,
+  ChatStreamEvent,
+  ChatTurn,
+} from './types';
+export { ChatProviderError, isAbortError } from './errors';
+export { buildSystemPrompt, getPromptConfig } from './prompts';
+export { classifyGesture, createGestureMarkerParser } from './gestures';
+export { getChatSession, recordChatTurn, setProviderConversationId } from './session';
+
+/** 默认 OpenAI 兼容模型 */
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+/**
+ * 根据环境变量 CHAT_PROVIDER 创建 Chat Provider（默认 coze）
+ * @throws 配置缺失时抛出 ChatProviderError
+ */
+export function getChatProvider(): ChatProvider {
+  const name = (process.env.CHAT_PROVIDER || 'coze') as ChatProviderName;
+
+  switch (name) {
+    case 'coze': {
+      const apiKey = process.env.COZE_API_KEY;
+      const botId = process.env.COZE_BOT_ID;
+      if (!apiKey || !botId) {
+        console.error('Chat: Coze 凭证未配置');
+        throw new ChatProviderError('服务配置错误', 500);
+      }
+      return createCozeProvider({
+        apiKey,
+        botId,
+        baseURL: process.env.COZE_BASE_URL,
+        instructionsVariable: process.env.COZE_INSTRUCTIONS_VARIABLE,
+      });
+    }
+
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        baseURL: process.env.OPENAI_BASE_URL,
+        model: process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+      });
+
+    case 'mock':
+      return createMockProvider();
+
+    default:
+      console.error(`Chat: 未知的 CHAT_PROVIDER "${name}"`);
+      throw new ChatProviderError('服务配置错误', 500);
+  }
+}
@@ -0,0 +1,130 @@
+import fs from 'fs';
+import type { ChatProvider, ChatProviderRequest, ChatStreamEvent } from './types';
+
+/**
+ * 脚本化 Chat Provider（离线演示 / 联调用）
+ * 按关键词匹配预设回复并逐段流式输出，不访问任何上游服务
+ */
+
+/** 单条脚本规则 */
+export interface MockChatRule {
+  /** 匹配用户消息的正则（忽略大小写） */
+  match: string;
+  /** 回复内容，{message} 会替换为用户消息 */
+  reply: string;
+}
+
+/** 每个增量分片的字符数 */
+const DELTA_CHARS = 4;
+/** 分片间隔（毫秒），模拟模型逐字输出 */
+const DELTA_INTERVAL_MS = 40;
+
+/** 内置脚本（CHAT_MOCK_SCRIPT 未配置时使用） */
+const DEFAULT_RULES: MockChatRule[] = [
+  {
+    match: '你好|您好|墨子',
+    reply: '你好，我是墨子，你的智能双创导师。现在是离线演示模式。你可以问我创业相关的问题。',
+  },
+  {
+    match: '介绍|你是谁',
+    reply: '我是墨子，一位智能双创导师。我可以陪你梳理创业想法。也可以聊聊团队、融资和产品。',
+  },
+  {
+    match: '创业|公司|项目',
+    reply: '创业初期最重要的是验证需求。先找到愿意付费的第一批用户。再用最小的成本把产品做出来。',
+  },
+  {
+    match: '\\b(hello|hi|hey|mozi)\\b',
+    reply: "Hi, I'm Mozi, your startup mentor. This is offline demo mode. Feel free to ask me about starting a company.",
+  },
+  {
+    match: 'startup|company|business|yourself',
+    reply: 'The most important thing early on is validating demand. Find your first paying users. Then build the smallest product that serves them.',
+  },
+];
+
+/** 未匹配任何规则时的回复 */
+const FALLBACK_REPLY = {
+  zh: '这是离线演示模式下的预设回答。你刚才说的是：{message}。',
+  en: 'This is a scripted answer in offline demo mode. You said: {message}.',
+};
+
+/** 脚本文件缓存（按修改时间失效） */
+let fileCache: { path: string; mtimeMs: number; rules: MockChatRule[] } | null = null;
+
+/**
+ * 读取 CHAT_MOCK_SCRIPT 脚本
+ * 文件格式：[{ "match": "创业", "reply": "..." }]，按顺序匹配
+ */
+function loadRules(): MockChatRule[] {
+  const filePath = process.env.CHAT_MOCK_SCRIPT;
+  if (!filePath) return DEFAULT_RULES;
+
+  try {
+    const { mtimeMs } = fs.statSync(filePath);
+    if (fileCache?.path === filePath && fileCache.mtimeMs === mtimeMs) {
+      return fileCache.rules;
+    }
+
+    const rules = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!Array.isArray(rules) || rules.some((rule) => typeof rule?.match !== 'string' || typeof rule?.reply !== 'string')) {
+      throw new Error('脚本必须是 { match, reply } 数组');
+    }
+
+    fileCache = { path: filePath, mtimeMs, rules };
+    return rules;
+  } catch (error) {
+    console.error(`读取 CHAT_MOCK_SCRIPT 失败 (${filePath}):`, error);
+    return DEFAULT_RULES;
+  }
+}
+
+/**
+ * 选择回复
+ */
+function pickReply(message: string): string {
+  const rule = loadRules().find(({ match }) => {
+    try {
+      return new RegExp(match, 'i').test(message);
+    } catch {
+      return false;
+    }
+  });
+
+  const isChinese = /[\u4e00-\u9fff]/.test(message);
+  const template = rule?.reply ?? FALLBACK_REPLY[isChinese ? 'zh' : 'en'];
+  return template.replaceAll('{message}', message.trim());
+}
+
+/**
+ * 等待指定时间，取消时立即返回 false
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve(false);
+    const timer = setTimeout(() => resolve(true), ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve(false);
+    }, { once: true });
+  });
+}
+
+/**
+ * 创建脚本化 Chat Provider
+ */
+export function createMockProvider(): ChatProvider {
+  async function* stream({ message, signal }: ChatProviderRequest): AsyncGenerator<ChatStreamEvent> {
+    const chars = Array.from(pickReply(message));
+
+    for (let i = 0; i < chars.length; i += DELTA_CHARS) {
+      if (!(await wait(DELTA_INTERVAL_MS, signal))) return;
+      yield { type: 'delta', content: chars.slice(i, i + DELTA_CHARS).join('') };
+    }
+  }
+
+  return {
+    name: 'mock',
+    stream,
+  };
+}
@@ -0,0 +1,123 @@
+import type { ChatProvider, ChatProviderRequest, ChatStreamEvent } from './types';
+import { ChatProviderError, isAbortError } from './errors';
+
+/** 默认 OpenAI API 地址 */
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/** OpenAI 兼容 Provider 配置 */
+export interface OpenAIProviderConfig {
+  /** API Key（本地/自建模型可不填） */
+  apiKey?: string;
+  /** API 地址（包含 /v1），如 http://localhost:11434/v1 */
+  baseURL?: string;
+  /** 模型名称 */
+  model: string;
+}
+
+/** /v1/chat/completions 流式响应分片 */
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  error?: { message?: string };
+}
+
+/**
+ * 创建 OpenAI 兼容 Chat Provider
+ * 适用于 OpenAI 以及 vLLM / Ollama / LM Studio 等兼容 /v1/chat/completions 的服务
+ */
+export function createOpenAIProvider(config: OpenAIProviderConfig): ChatProvider {
+  const baseURL = (config.baseURL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+
+  async function* stream({
+    message,
+    systemPrompt,
+    userId,
+    history,
+    signal,
+  }: ChatProviderRequest): AsyncGenerator<ChatStreamEvent> {
+    let response: Response;
+    try {
+      response = await fetch(`${baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          // 无服务端会话，每轮回放之前的对话
+          messages: [
+            ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+            ...history,
+            { role: 'user', content: message },
+          ],
+          user: userId,
+          stream: true,
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const details = error instanceof Error ? error.message : '未知错误';
+      throw new ChatProviderError('模型服务连接失败', 502, details);
+    }
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new ChatProviderError('模型服务错误', response.status, details);
+    }
+
+    if (!response.body) {
+      throw new ChatProviderError('模型服务返回空响应', 502);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const data = trimmed.slice(5).trim();
+          if (data === '[DONE]') return;
+
+          let chunk: ChatCompletionChunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            console.error('解析模型响应失败:', data);
+            continue;
+          }
+
+          if (chunk.error) {
+            throw new ChatProviderError('模型服务错误', 502, chunk.error.message);
+          }
+
+          const content = chunk.choices?.[0]?.delta?.content;
+          if (content) {
+            yield { type: 'delta', content };
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  return {
+    name: 'openai',
+    stream,
+  };
+}
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import type { AvatarGesture } from '@/types/avatar';
+import { buildGesturePrompt } from './gestures';
+
+/**
+ * 单个语言的提示词配置
+ */
+export interface PromptConfig {
+  /** 人设：智能体是谁、做什么 */
+  persona: string;
+  /** 表达风格：回答会经过 TTS 播放，需要口语化 */
+  style: string;
+}
+
+/** 默认语言 */
+const DEFAULT_LANGUAGE = 'zh';
+
+/**
+ * 内置提示词
+ * 可通过 CHAT_PROMPTS_FILE 指向的 JSON 文件按语言覆盖或新增
+ */
+const DEFAULT_PROMPTS: Record<string, PromptConfig> = {
+  zh: {
+    persona: '你是墨子，一位智能双创导师，为来访者提供创业咨询和指导。',
+    style:
+      '你的回答会通过语音合成播放给来访者，请遵守：使用简体中文回答；' +
+      '用口语化的短句，每句不超过 30 个字；不要使用 Markdown、表格、列表、代码块、表情符号或链接；' +
+      '回答控制在 3 到 5 句话以内。',
+  },
+  en: {
+    persona:
+      'You are Mozi, an AI mentor for innovation and entrepreneurship who gives visitors startup advice and guidance.',
+    style:
+      'Your reply will be read aloud by text-to-speech. Always respond in English. ' +
+      'Use short, conversational sentences. Do not use Markdown, tables, lists, code blocks, emojis or links. ' +
+      'Keep the answer within three to five sentences.',
+  },
+};
+
+/** 配置文件缓存（按修改时间失效，修改文件后无需重启） */
+let fileCache: { path: string; mtimeMs: number; prompts: Record<string, Partial<PromptConfig>> } | null = null;
+
+/**
+ * 校验单个语言的覆盖配置
+ * 内置语言可以只覆盖 persona 或 style；新增语言必须同时提供两者，避免继承默认语言的表达风格（如「使用简体中文回答」）
+ * @returns 配置无效时返回 null
+ */
+function parsePromptOverride(language: string, value: unknown): Partial<PromptConfig> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const { persona, style } = value as Record<string, unknown>;
+  if (persona !== undefined && (typeof persona !== 'string' || !persona.trim())) return null;
+  if (style !== undefined && (typeof style !== 'string' || !style.trim())) return null;
+  if (!Object.hasOwn(DEFAULT_PROMPTS, language) && (persona === undefined || style === undefined)) return null;
+
+  const config: Partial<PromptConfig> = {};
+  if (persona !== undefined) config.persona = persona;
+  if (style !== undefined) config.style = style;
+  return config;
+}
+
+/**
+ * 读取 CHAT_PROMPTS_FILE 配置
+ * 文件格式：{ "zh": { "persona": "...", "style": "..." }, "ja": { ... } }
+ */
+function loadPromptFile(): Record<string, Partial<PromptConfig>> {
+  const filePath = process.env.CHAT_PROMPTS_FILE;
+  if (!filePath) return {};
+
+  try {
+    const { mtimeMs } = fs.statSync(filePath);
+    if (fileCache?.path === filePath && fileCache.mtimeMs === mtimeMs) {
+      return fileCache.prompts;
+    }
+
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new Error('配置必须是以语言为键的对象');
+    }
+
+    const prompts: Record<string, Partial<PromptConfig>> = {};
+    for (const [language, value] of Object.entries(raw as Record<string, unknown>)) {
+      const config = parsePromptOverride(language, value);
+      if (config) {
+        prompts[language] = config;
+      } else {
+        console.error(`提示词配置无效，已忽略 (${filePath}): ${language}`);
+      }
+    }
+
+    fileCache = { path: filePath, mtimeMs, prompts };
+    return prompts;
+  } catch (error) {
+    console.error(`读取提示词配置失败 (${filePath}):`, error);
+    return fileCache?.prompts ?? {};
+  }
+}
+
+/**
+ * 获取指定语言的提示词配置（未配置的语言回退到默认语言）
+ */
+export function getPromptConfig(language?: string): PromptConfig {
+  const overrides = loadPromptFile();
+  const lang = language && (Object.hasOwn(DEFAULT_PROMPTS, language) || Object.hasOwn(overrides, language))
+    ? language
+    : DEFAULT_LANGUAGE;
+
+  // 新增语言在读取时已校验为完整配置，不与默认语言合并
+  if (!Object.hasOwn(DEFAULT_PROMPTS, lang)) {
+    return overrides[lang] as PromptConfig;
+  }
+  return { ...DEFAULT_PROMPTS[lang], ...overrides[lang] };
+}
+
+/**
+ * 生成指定语言的系统提示词
+ * @param personaOverride 形象清单中配置的人设（覆盖默认人设）
+ * @param gestures 形象配置了视频的动作片段（提示模型在回答开头输出动作标记）
+ */
+export function buildSystemPrompt(
+  language?: string,
+  personaOverride?: string,
+  gestures: readonly AvatarGesture[] = []
+): string {
+  const { persona, style } = getPromptConfig(language);
+  return [personaOverride || persona, style, buildGesturePrompt(language, gestures)].filter(Boolean).join('\n\n');
+}
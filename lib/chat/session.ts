@@ -0,0 +1,82 @@
+import type { ChatTurn } from './types';
+
+/** 会话过期时间（毫秒）：访客离开后不再续聊 */
+const SESSION_TTL_MS = 30 * 60 * 1000;
+/** 单个会话保留的最大消息数（用于回放，超过后丢弃最早的轮次） */
+const MAX_HISTORY_MESSAGES = 20;
+/** 最多同时保留的会话数 */
+const MAX_SESSIONS = 500;
+
+/**
+ * 服务端会话状态
+ */
+export interface ChatSession {
+  /** 前端生成的会话 ID */
+  id: string;
+  /** 上游会话 ID（如 Coze conversation_id） */
+  providerConversationId?: string;
+  /** 已完成的对话轮次 */
+  history: ChatTurn[];
+  /** 最后活跃时间 */
+  updatedAt: number;
+}
+
+/** 会话表（进程内存，重启后会话重新开始） */
+const sessions = new Map<string, ChatSession>();
+
+/**
+ * 清理过期会话
+ */
+function pruneSessions(now: number) {
+  for (const [id, session] of sessions) {
+    if (now - session.updatedAt > SESSION_TTL_MS) {
+      sessions.delete(id);
+    }
+  }
+
+  // 超出上限时按插入顺序淘汰最早的会话
+  while (sessions.size > MAX_SESSIONS) {
+    const oldest = sessions.keys().next().value;
+    if (oldest === undefined) break;
+    sessions.delete(oldest);
+  }
+}
+
+/**
+ * 获取会话，不存在或已过期时创建新会话
+ */
+export function getChatSession(id: string): ChatSession {
+  const now = Date.now();
+  pruneSessions(now);
+
+  let session = sessions.get(id);
+  if (!session) {
+    session = { id, history: [], updatedAt: now };
+    sessions.set(id, session);
+  }
+  return session;
+}
+
+/**
+ * 记录上游会话 ID
+ */
+export function setProviderConversationId(id: string, providerConversationId: string) {
+  const session = getChatSession(id);
+  session.providerConversationId = providerConversationId;
+  session.updatedAt = Date.now();
+}
+
+/**
+ * 记录一轮完整对话
+ */
+export function recordChatTurn(id: string, userMessage: string, assistantMessage: string) {
+  const session = getChatSession(id);
+  session.history.push(
+    { role: 'user', content: userMessage },
+    { role: 'assistant', content: assistantMessage }
+  );
+  if (session.history.length > MAX_HISTORY_MESSAGES) {
+    session.history = session.history.slice(-MAX_HISTORY_MESSAGES);
+  }
+  session.updatedAt = Date.now();
+}
@@ -0,0 +1,56 @@
+/**
+ * Chat Provider 相关类型定义
+ */
+
+/** 支持的 Chat Provider */
+export type ChatProviderName = 'coze' | 'openai' | 'mock';
+
+/**
+ * 一轮对话中的单条消息
+ */
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * 单次对话请求
+ */
+export interface ChatProviderRequest {
+  /** 用户消息 */
+  message: string;
+  /** 系统提示词（人设 + 语言 + 表达风格） */
+  systemPrompt?: string;
+  /** 访客标识（用于上游区分用户） */
+  userId: string;
+  /** 上游会话 ID（如 Coze conversation_id），首轮为空 */
+  conversationId?: string;
+  /** 之前的对话轮次，供不支持服务端会话的 Provider 回放 */
+  history: ChatTurn[];
+  /** AbortSignal 用于取消上游请求（如客户端断开） */
+  signal?: AbortSignal;
+}
+
+/**
+ * Provider 流式事件
+ * - delta: 文本增量
+ * - conversation: 上游创建了会话，后续轮次应携带该 ID
+ */
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'conversation'; id: string };
+
+/**
+ * Chat Provider 接口
+ * 各实现只负责把上游的流式响应转换为 ChatStreamEvent，SSE 编码由 /api/chat 统一处理
+ */
+export interface ChatProvider {
+  /** Provider 名称（用于日志） */
+  readonly name: ChatProviderName;
+  /**
+   * 发起流式对话
+   * @returns 流式事件序列
+   * @throws 上游调用失败时抛出 ChatProviderError
+   */
+  stream(request: ChatProviderRequest): AsyncIterable<ChatStreamEvent>;
+}
@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { ConversationRecord } from '@/types/chat';
+import { parseConversationRecord } from '@/utils/conversation';
+
+/**
+ * 服务端会话存储（可选）
+ * 前端每次保存会话后同步到 /api/conversations，供内容团队集中导出访客问题；
+ * 默认关闭，对话记录只保存在各终端浏览器的 IndexedDB 中
+ *
+ * 前端为每个会话生成随机写入密钥，首次保存时记录密钥哈希，之后只有持有同一密钥的请求才能覆盖该会话
+ */
+
+/** 存储类型 */
+export type ConversationStoreType = 'memory' | 'disk' | 'off';
+
+export interface ConversationStore {
+  readonly type: ConversationStoreType;
+  /**
+   * 保存会话
+   * @returns 会话已存在且写入密钥不一致时返回 false（不覆盖）
+   */
+  save(record: ConversationRecord, writeKey: string): Promise<boolean>;
+  get(id: string): Promise<ConversationRecord | null>;
+  /** 所有会话（最近更新的在前） */
+  list(): Promise<ConversationRecord[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+/** 未开启服务端存储时的错误响应 */
+export const CONVERSATION_STORE_DISABLED = {
+  error: '服务端会话存储未开启',
+  details: '设置 CONVERSATION_STORE=memory 或 disk',
+};
+
+/** 默认磁盘存储目录 */
+const DEFAULT_STORE_DIR = '.data/conversations';
+/** 内存存储最多保留的会话数 */
+const MAX_MEMORY_CONVERSATIONS = 1000;
+/** 内存存储最多占用的字节数（按序列化后的 JSON 计算） */
+const MAX_MEMORY_BYTES = 64 * 1024 * 1024;
+/** 磁盘存储最多保留的会话数 */
+const MAX_DISK_CONVERSATIONS = 10000;
+/** 磁盘存储最多占用的字节数 */
+const MAX_DISK_BYTES = 512 * 1024 * 1024;
+
+const byUpdatedAtDesc = (a: ConversationRecord, b: ConversationRecord) => b.updatedAt - a.updatedAt;
+
+function hashWriteKey(writeKey: string): string {
+  return crypto.createHash('sha256').update(writeKey).digest('hex');
+}
+
+/**
+ * 内存存储（重启后丢失，超出会话数或字节数上限时淘汰最早更新的会话）
+ */
+function createMemoryStore(): ConversationStore {
+  const records = new Map<string, { record: ConversationRecord; writeKeyHash: string; bytes: number }>();
+  let totalBytes = 0;
+
+  const remove = (id: string) => {
+    const item = records.get(id);
+    if (!item) return false;
+    totalBytes -= item.bytes;
+    return records.delete(id);
+  };
+
+  return {
+    type: 'memory',
+    async save(record, writeKey) {
+      const writeKeyHash = hashWriteKey(writeKey);
+      const existing = records.get(record.id);
+      if (existing && existing.writeKeyHash !== writeKeyHash) return false;
+
+      // 重新插入，保持按更新时间排列
+      const bytes = Buffer.byteLength(JSON.stringify(record));
+      remove(record.id);
+      records.set(record.id, { record, writeKeyHash, bytes });
+      totalBytes += bytes;
+      while (records.size > MAX_MEMORY_CONVERSATIONS || totalBytes > MAX_MEMORY_BYTES) {
+        const oldest = records.keys().next().value;
+        if (oldest === undefined || oldest === record.id) break;
+        remove(oldest);
+      }
+      return true;
+    },
+    async get(id) {
+      return records.get(id)?.record ?? null;
+    },
+    async list() {
+      return [...records.values()].map((item) => item.record).sort(byUpdatedAtDesc);
+    },
+    async delete(id) {
+      return remove(id);
+    },
+  };
+}
+
+/**
+ * 磁盘存储（每个会话一个 JSON 文件，文件名为会话 ID，写入密钥哈希与记录保存在同一文件）
+ * 超出会话数或字节数上限时删除最早修改的文件
+ */
+function createDiskStore(dir: string): ConversationStore {
+  const filePath = (id: string) => path.join(dir, `${id}.json`);
+
+  const readRaw = async (file: string): Promise<Record<string, unknown> | null> => {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`会话存储: 读取 ${file} 失败:`, error);
+      }
+      return null;
+    }
+  };
+
+  const read = async (file: string) => parseConversationRecord(await readRaw(file));
+
+  const listFiles = async () => {
+    try {
+      return (await fs.readdir(dir)).filter((name) => name.endsWith('.json'));
+    } catch {
+      return [];
+    }
+  };
+
+  /** 删除最早修改的文件，直到会话数和总字节数都不超过上限（keep 为刚写入的文件，不删除） */
+  const prune = async (keep: string) => {
+    const files = await listFiles();
+    const stats = (
+      await Promise.all(
+        files.map(async (name) => {
+          try {
+            const stat = await fs.stat(path.join(dir, name));
+            return { name, mtimeMs: stat.mtimeMs, size: stat.size };
+          } catch {
+            return null;
+          }
+        })
+      )
+    )
+      .filter((item): item is { name: string; mtimeMs: number; size: number } => item !== null)
+      .sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+    let count = stats.length;
+    let totalBytes = stats.reduce((sum, item) => sum + item.size, 0);
+    const oldest: string[] = [];
+    for (const item of stats) {
+      if (count <= MAX_DISK_CONVERSATIONS && totalBytes <= MAX_DISK_BYTES) break;
+      if (item.name === keep) continue;
+      oldest.push(item.name);
+      count--;
+      totalBytes -= item.size;
+    }
+    if (oldest.length === 0) return;
+
+    await Promise.all(oldest.map((name) => fs.rm(path.join(dir, name), { force: true })));
+    console.log(`💾 会话存储: 超出上限（${MAX_DISK_CONVERSATIONS} 个会话 / ${MAX_DISK_BYTES / 1024 / 1024}MB），已删除最早的 ${oldest.length} 个`);
+  };
+
+  return {
+    type: 'disk',
+    async save(record, writeKey) {
+      const writeKeyHash = hashWriteKey(writeKey);
+      const existing = await readRaw(filePath(record.id));
+      if (existing && existing.writeKeyHash !== writeKeyHash) return false;
+
+      await fs.mkdir(dir, { recursive: true });
+      // 先写临时文件再重命名，避免并发读取到写了一半的文件；临时文件名带随机后缀，同一会话并发保存时互不影响
+      const tmp = `${filePath(record.id)}.${crypto.randomUUID()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify({ ...record, writeKeyHash }));
+      await fs.rename(tmp, filePath(record.id));
+
+      await prune(`${record.id}.json`);
+      return true;
+    },
+    async get(id) {
+      return read(filePath(id));
+    },
+    async list() {
+      const files = await listFiles();
+      const records = await Promise.all(files.map((name) => read(path.join(dir, name))));
+      return records.filter((record): record is ConversationRecord => record !== null).sort(byUpdatedAtDesc);
+    },
+    async delete(id) {
+      try {
+        await fs.rm(filePath(id));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+/**
+ * 根据环境变量创建存储
+ * - CONVERSATION_STORE: off（默认）| memory | disk
+ * - CONVERSATION_STORE_DIR: 磁盘存储目录，默认 .data/conversations
+ */
+function createConversationStore(): ConversationStore | null {
+  const type = (process.env.CONVERSATION_STORE || 'off') as ConversationStoreType;
+  switch (type) {
+    case 'off':
+      return null;
+    case 'memory':
+      return createMemoryStore();
+    case 'disk':
+      return createDiskStore(process.env.CONVERSATION_STORE_DIR || DEFAULT_STORE_DIR);
+    default:
+      console.error(`会话存储: 未知的 CONVERSATION_STORE "${type}"，已关闭服务端存储`);
+      return null;
+  }
+}
+
+/** 挂在 globalThis 上，保证各路由及开发模式热更新后共享同一个存储 */
+const globalForConversations = globalThis as typeof globalThis & {
+  conversationStore?: ConversationStore | null;
+};
+
+/**
+ * 获取会话存储单例（未开启时返回 null）
+ */
+export function getConversationStore(): ConversationStore | null {
+  if (globalForConversations.conversationStore === undefined) {
+    globalForConversations.conversationStore = createConversationStore();
+  }
+  return globalForConversations.conversationStore;
+}
@@ -0,0 +1,15 @@
+import type { TranscriptFormat } from '@/types/chat';
+
+/**
+ * 生成对话记录下载响应
+ * @param filename 文件名（不含扩展名）
+ */
+export function transcriptResponse(content: string, format: TranscriptFormat, filename: string) {
+  const ext = format === 'markdown' ? 'md' : 'json';
+  return new Response(content, {
+    headers: {
+      'Content-Type': format === 'markdown' ? 'text/markdown; charset=utf-8' : 'application/json; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}.${ext}"`,
+    },
+  });
+}
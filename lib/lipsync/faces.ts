@@ -0,0 +1,128 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { isManagedMediaUrl, resolveAvatarMediaPath } from '@/lib/avatars/media';
+import { checkFaceFile, uploadFaceToWav2Lip } from '@/lib/lipsync/wav2lip';
+
+/**
+ * 人脸文件注册缓存
+ * 按「形象 ID + 文件内容哈希」缓存 Wav2Lip 返回的 file_id，页面刷新或切换形象时不再重复上传大视频；
+ * 命中缓存时先向后端确认 file_id 仍然有效，后端明确返回丢失（重启、清理）时才重新上传；
+ * 后端不支持检查接口时直接使用缓存（接口约定见 checkFaceFile），生成帧时后端找不到文件再由 forgetFaceFile 清除
+ */
+
+/** 人脸文件 */
+export interface FaceFile {
+  bytes: Uint8Array;
+  fileName: string;
+  type: string;
+}
+
+/** 注册结果 */
+export interface FaceRegistration {
+  fileId: string;
+  /** 是否复用了已注册的 file_id */
+  cached: boolean;
+}
+
+/** 最多缓存的注册数 */
+const MAX_CACHED_FACES = 100;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+};
+
+/** 挂在 globalThis 上，开发模式热更新和多个路由共享同一份缓存 */
+const globalForFaces = globalThis as typeof globalThis & {
+  lipsyncFaceCache?: Map<string, string>;
+  lipsyncFacePending?: Map<string, Promise<FaceRegistration>>;
+};
+const faceCache = (globalForFaces.lipsyncFaceCache ??= new Map<string, string>());
+/** 进行中的注册（同一文件的并发请求共用一次上传） */
+const pending = (globalForFaces.lipsyncFacePending ??= new Map<string, Promise<FaceRegistration>>());
+
+function hashContent(bytes: Uint8Array): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+/**
+ * 读取形象的对口型源（站内路径从磁盘读取，http(s) 地址下载）
+ * @throws 文件不存在或下载失败时抛出 Error
+ */
+export async function readFaceSource(source: string): Promise<FaceFile> {
+  const pathname = source.split('?')[0];
+  const fileName = pathname.split('/').pop() || 'avatar.mp4';
+  const type = CONTENT_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream';
+
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`无法下载人脸文件: ${response.status}`);
+    }
+    return {
+      bytes: new Uint8Array(await response.arrayBuffer()),
+      fileName,
+      type: response.headers.get('content-type') || type,
+    };
+  }
+
+  // 上传的素材在 AVATAR_MEDIA_DIR，其余站内路径在 public 目录
+  const publicDir = path.resolve('public');
+  const filePath = isManagedMediaUrl(pathname)
+    ? resolveAvatarMediaPath(pathname.split('/').slice(4))
+    : path.resolve(publicDir, `.${decodeURIComponent(pathname)}`);
+  if (!filePath || (!isManagedMediaUrl(pathname) && !filePath.startsWith(publicDir + path.sep))) {
+    throw new Error(`人脸文件路径无效: ${source}`);
+  }
+  return { bytes: new Uint8Array(await fs.readFile(filePath)), fileName, type };
+}
+
+async function register(key: string, avatarId: string, file: FaceFile): Promise<FaceRegistration> {
+  const cachedId = faceCache.get(key);
+  if (cachedId) {
+    if ((await checkFaceFile(cachedId)) !== 'missing') {
+      console.log(`👤 复用人脸文件: ${avatarId} → ${cachedId}`);
+      return { fileId: cachedId, cached: true };
+    }
+    console.log(`👤 Wav2Lip 已丢失人脸文件 ${cachedId}，重新上传: ${avatarId}`);
+    faceCache.delete(key);
+  }
+
+  const data = await uploadFaceToWav2Lip(new Blob([new Uint8Array(file.bytes)], { type: file.type }), file.fileName);
+  faceCache.set(key, data.file_id);
+  while (faceCache.size > MAX_CACHED_FACES) {
+    const oldest = faceCache.keys().next().value;
+    if (oldest === undefined) break;
+    faceCache.delete(oldest);
+  }
+  return { fileId: data.file_id, cached: false };
+}
+
+/**
+ * 清除缓存中的 file_id（后端已丢失该文件），下次注册时重新上传
+ */
+export function forgetFaceFile(fileId: string): void {
+  for (const [key, cachedId] of faceCache) {
+    if (cachedId === fileId) {
+      faceCache.delete(key);
+      console.log(`👤 Wav2Lip 找不到人脸文件 ${fileId}，已清除缓存`);
+    }
+  }
+}
+
+/**
+ * 注册形象的人脸文件：已注册且后端仍保留时直接返回缓存的 file_id，否则上传
+ * @throws 上传失败时抛出 Wav2LipError
+ */
+export async function registerFace(avatarId: string, file: FaceFile): Promise<FaceRegistration> {
+  const key = `${avatarId}:${hashContent(file.bytes)}`;
+  const existing = pending.get(key);
+  if (existing) return existing;
+
+  const task = register(key, avatarId, file).finally(() => pending.delete(key));
+  pending.set(key, task);
+  return task;
+}
@@ -0,0 +1,130 @@
+/**
+ * 极简 JPEG 编码器（仅供 mock 使用）
+ * 输出灰度 baseline JPEG，每个 8x8 块为纯色（只编码 DC 系数），
+ * 足以让浏览器的 createImageBitmap 正常解码，无需任何图像库
+ */
+
+/** 块尺寸 */
+const BLOCK = 8;
+
+/** 标准亮度 DC 哈夫曼表（ITU T.81 K.3） */
+const DC_BITS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+const DC_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+/** AC 表只需要 EOB（所有 AC 系数为 0），一个 1 位码即可 */
+const AC_BITS = [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+const AC_VALUES = [0x00];
+
+/**
+ * 根据码长表生成范式哈夫曼码
+ */
+function buildHuffmanCodes(bits: number[], values: number[]): Map<number, { code: number; length: number }> {
+  const codes = new Map<number, { code: number; length: number }>();
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < bits[length - 1]; i++) {
+      codes.set(values[k++], { code, length });
+      code++;
+    }
+    code <<= 1;
+  }
+  return codes;
+}
+
+const DC_CODES = buildHuffmanCodes(DC_BITS, DC_VALUES);
+const EOB = buildHuffmanCodes(AC_BITS, AC_VALUES).get(0x00)!;
+
+/**
+ * 位写入器（处理 0xFF 字节填充）
+ */
+function createBitWriter() {
+  const bytes: number[] = [];
+  let current = 0;
+  let count = 0;
+
+  const writeBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      current = (current << 1) | ((value >> i) & 1);
+      count++;
+      if (count === 8) {
+        bytes.push(current);
+        if (current === 0xff) bytes.push(0x00);
+        current = 0;
+        count = 0;
+      }
+    }
+  };
+
+  // 末尾不足一个字节时用 1 补齐
+  const flush = () => {
+    if (count > 0) {
+      writeBits((1 << (8 - count)) - 1, 8 - count);
+    }
+    return bytes;
+  };
+
+  return { writeBits, flush };
+}
+
+/**
+ * 写入带长度的段
+ */
+function segment(marker: number, payload: number[]): number[] {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+}
+
+/**
+ * 编码块级灰度图
+ * @param blocks 每个 8x8 块的灰度值（0-255），行优先
+ * @param blocksX 横向块数
+ * @param blocksY 纵向块数
+ * @returns JPEG 字节（宽高为 blocksX*8 x blocksY*8）
+ */
+export function encodeBlockJpeg(blocks: Uint8Array, blocksX: number, blocksY: number): Uint8Array {
+  const width = blocksX * BLOCK;
+  const height = blocksY * BLOCK;
+
+  const header: number[] = [
+    0xff, 0xd8,
+    // JFIF
+    ...segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    // 量化表全为 1：DC 系数无损
+    ...segment(0xdb, [0x00, ...new Array(64).fill(1)]),
+    // SOF0：8 位精度，单分量
+    ...segment(0xc0, [8, height >> 8, height & 0xff, width >> 8, width & 0xff, 1, 1, 0x11, 0]),
+    // 哈夫曼表
+    ...segment(0xc4, [0x00, ...DC_BITS, ...DC_VALUES]),
+    ...segment(0xc4, [0x10, ...AC_BITS, ...AC_VALUES]),
+    // SOS
+    ...segment(0xda, [1, 1, 0x00, 0, 63, 0]),
+  ];
+
+  const writer = createBitWriter();
+  let previousDc = 0;
+
+  for (let i = 0; i < blocksX * blocksY; i++) {
+    // 纯色块的 DC 系数 = 8 * (灰度 - 128)
+    const dc = 8 * (blocks[i] - 128);
+    const diff = dc - previousDc;
+    previousDc = dc;
+
+    const magnitude = Math.abs(diff);
+    const category = magnitude === 0 ? 0 : Math.floor(Math.log2(magnitude)) + 1;
+    const { code, length } = DC_CODES.get(category)!;
+    writer.writeBits(code, length);
+    if (category > 0) {
+      // 负数写入 diff - 1 的低位（即反码）
+      writer.writeBits(diff > 0 ? diff : diff + (1 << category) - 1, category);
+    }
+    writer.writeBits(EOB.code, EOB.length);
+  }
+
+  const scan = writer.flush();
+  const jpeg = new Uint8Array(header.length + scan.length + 2);
+  jpeg.set(header);
+  jpeg.set(scan, header.length);
+  jpeg.set([0xff, 0xd9], header.length + scan.length);
+  return jpeg;
+}
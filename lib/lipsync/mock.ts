@@ -0,0 +1,310 @@
+import { randomUUID } from 'crypto';
+import { encodeBlockJpeg } from './jpeg';
+
+/**
+ * Wav2Lip mock 后端
+ * 实现与 Python 服务相同的上传 / 生成接口和 SSE 事件，生成的帧是合成的卡通脸，
+ * 帧数与音频时长一致，用于在没有 GPU 服务的机器上跑通对口型流程
+ */
+
+/** 基准画面尺寸（resize_factor=1 时） */
+const BASE_WIDTH = 512;
+const BASE_HEIGHT = 640;
+/** 最多保留的上传文件数 */
+const MAX_STORED_FILES = 200;
+/** 最多保留的上传文件总大小 */
+const MAX_STORED_BYTES = 512 * 1024 * 1024;
+/** 单个上传文件的最大大小（人脸视频与形象素材上限一致） */
+export const MAX_MOCK_UPLOAD_BYTES: Record<StoredFileKind, number> = {
+  face: 100 * 1024 * 1024,
+  audio: 20 * 1024 * 1024,
+};
+/** 默认生成速度（相对实时的倍数） */
+const DEFAULT_SPEED = 2;
+
+/** 上传的文件类型 */
+type StoredFileKind = 'face' | 'audio';
+
+/** 上传的文件 */
+interface StoredFile {
+  kind: StoredFileKind;
+  name: string;
+  type: string;
+  bytes: Uint8Array;
+}
+
+/** 生成参数 */
+export interface MockGenerateParams {
+  faceFileId: string;
+  audioFileId: string;
+  outputFps?: number;
+  resizeFactor?: number;
+  /** 生成速度（相对实时的倍数），<=0 表示不等待 */
+  speed?: number;
+  signal?: AbortSignal;
+}
+
+/** mock 错误（对应 Python 服务的 HTTP 错误） */
+export class MockWav2LipError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'MockWav2LipError';
+    this.status = status;
+  }
+}
+
+/** 挂在 globalThis 上，保证开发模式热更新后上传的文件仍然可用 */
+const globalForMock = globalThis as typeof globalThis & { wav2lipMockFiles?: Map<string, StoredFile> };
+const files = (globalForMock.wav2lipMockFiles ??= new Map<string, StoredFile>());
+
+/**
+ * mock 是否启用：开发环境默认启用，生产环境需设置 WAV2LIP_MOCK_ENABLED=true
+ */
+export function isWav2LipMockEnabled(): boolean {
+  return process.env.WAV2LIP_MOCK_ENABLED === 'true' || process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * 保存上传的文件，返回 file_id
+ * 超出文件数或总大小时淘汰最早上传的文件
+ */
+export function storeMockFile(kind: StoredFileKind, name: string, type: string, bytes: Uint8Array): string {
+  const fileId = `${kind}-${randomUUID()}`;
+  files.set(fileId, { kind, name, type, bytes });
+
+  let totalBytes = 0;
+  for (const file of files.values()) totalBytes += file.bytes.length;
+
+  while (files.size > MAX_STORED_FILES || totalBytes > MAX_STORED_BYTES) {
+    const oldest = files.keys().next().value;
+    if (oldest === undefined || oldest === fileId) break;
+    totalBytes -= files.get(oldest)?.bytes.length ?? 0;
+    files.delete(oldest);
+  }
+  return fileId;
+}
+
+/**
+ * 读取上传的文件
+ */
+export function getMockFile(fileId: string): StoredFile | undefined {
+  return files.get(fileId);
+}
+
+/** MPEG 比特率表（kbps）：[MPEG1 Layer3, MPEG2/2.5 Layer3] */
+const MP3_BITRATES = [
+  [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+];
+/** 采样率表：[MPEG1, MPEG2, MPEG2.5] */
+const MP3_SAMPLE_RATES = [
+  [44100, 48000, 32000],
+  [22050, 24000, 16000],
+  [11025, 12000, 8000],
+];
+
+/**
+ * 计算 MP3 时长（逐帧累加，兼容 VBR）
+ */
+function getMp3Duration(bytes: Uint8Array): number {
+  let offset = 0;
+
+  // 跳过 ID3v2 标签
+  if (bytes[0] === 0x49 && bytes[1] === 0x44 && bytes[2] === 0x33) {
+    const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+    offset = 10 + size;
+  }
+
+  let duration = 0;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) {
+      offset++;
+      continue;
+    }
+
+    const versionBits = (bytes[offset + 1] >> 3) & 0x03;   // 3=MPEG1, 2=MPEG2, 0=MPEG2.5
+    const layerBits = (bytes[offset + 1] >> 1) & 0x03;     // 1=Layer3
+    const bitrateIndex = bytes[offset + 2] >> 4;
+    const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+    const padding = (bytes[offset + 2] >> 1) & 0x01;
+
+    if (versionBits === 1 || layerBits !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+      offset++;
+      continue;
+    }
+
+    const isMpeg1 = versionBits === 3;
+    const bitrate = MP3_BITRATES[isMpeg1 ? 0 : 1][bitrateIndex] * 1000;
+    const sampleRate = MP3_SAMPLE_RATES[isMpeg1 ? 0 : versionBits === 2 ? 1 : 2][sampleRateIndex];
+    const samplesPerFrame = isMpeg1 ? 1152 : 576;
+    const frameLength = Math.floor((samplesPerFrame / 8) * bitrate / sampleRate) + padding;
+
+    duration += samplesPerFrame / sampleRate;
+    offset += Math.max(frameLength, 1);
+  }
+  return duration;
+}
+
+/**
+ * 计算 WAV 时长
+ */
+function getWavDuration(bytes: Uint8Array): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let byteRate = 0;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const chunkId = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const chunkSize = view.getUint32(offset + 4, true);
+    if (chunkId === 'fmt ') {
+      byteRate = view.getUint32(offset + 16, true);
+    } else if (chunkId === 'data' && byteRate) {
+      return Math.min(chunkSize, bytes.length - offset - 8) / byteRate;
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return 0;
+}
+
+/**
+ * 计算音频时长（秒），支持 WAV 和 MP3
+ */
+export function getAudioDuration(bytes: Uint8Array): number {
+  const isWav = bytes.length > 12 &&
+    String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF' &&
+    String.fromCharCode(...bytes.subarray(8, 12)) === 'WAVE';
+  return isWav ? getWavDuration(bytes) : getMp3Duration(bytes);
+}
+
+/**
+ * 合成的口型开合程度（0-1），模拟说话时的音节节奏
+ */
+function mouthOpenness(time: number): number {
+  const syllable = Math.abs(Math.sin(time * Math.PI * 3.3));
+  const phrase = 0.6 + 0.4 * Math.sin(time * 1.7);
+  return syllable * phrase;
+}
+
+/**
+ * 绘制一帧卡通脸（块级灰度）
+ */
+function renderFaceFrame(blocksX: number, blocksY: number, openness: number): Uint8Array {
+  const blocks = new Uint8Array(blocksX * blocksY);
+  const cx = blocksX / 2;
+  const cy = blocksY / 2;
+  const rx = blocksX * 0.35;
+  const ry = blocksY * 0.38;
+
+  for (let y = 0; y < blocksY; y++) {
+    for (let x = 0; x < blocksX; x++) {
+      const px = x + 0.5;
+      const py = y + 0.5;
+      let value = 60;
+
+      // 脸
+      if (((px - cx) / rx) ** 2 + ((py - cy) / ry) ** 2 <= 1) {
+        value = 200;
+      }
+
+      // 眼睛
+      const eyeY = cy - ry * 0.3;
+      const eyeR = Math.max(rx * 0.12, 0.8);
+      if (
+        Math.hypot(px - (cx - rx * 0.4), py - eyeY) <= eyeR ||
+        Math.hypot(px - (cx + rx * 0.4), py - eyeY) <= eyeR
+      ) {
+        value = 40;
+      }
+
+      // 嘴：高度随开合程度变化
+      const mouthY = cy + ry * 0.45;
+      const mouthRx = rx * 0.4;
+      const mouthRy = Math.max(ry * 0.03, ry * 0.22 * openness);
+      if (((px - cx) / mouthRx) ** 2 + ((py - mouthY) / mouthRy) ** 2 <= 1) {
+        value = 90;
+      }
+
+      blocks[y * blocksX + x] = value;
+    }
+  }
+
+  return encodeBlockJpeg(blocks, blocksX, blocksY);
+}
+
+/**
+ * 等待指定时间（可取消）
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * 生成对口型事件流（与 Wav2Lip 服务 /api/generate/frames 的 SSE 事件一致）
+ */
+export async function* generateMockFrames(params: MockGenerateParams): AsyncGenerator<Record<string, unknown>> {
+  const { faceFileId, audioFileId, outputFps = 25, resizeFactor = 1, speed = DEFAULT_SPEED, signal } = params;
+
+  const face = getMockFile(faceFileId);
+  if (!face || face.kind !== 'face') {
+    throw new MockWav2LipError(`face file not found: ${faceFileId}`, 404);
+  }
+  const audio = getMockFile(audioFileId);
+  if (!audio || audio.kind !== 'audio') {
+    throw new MockWav2LipError(`audio file not found: ${audioFileId}`, 404);
+  }
+
+  const startedAt = Date.now();
+  yield { type: 'start', message: '开始生成（mock）' };
+
+  const audioDuration = getAudioDuration(audio.bytes);
+  // 减去极小值，避免浮点误差多出一帧
+  const totalFrames = Math.max(1, Math.ceil(audioDuration * outputFps - 1e-6));
+  const blocksX = Math.max(4, Math.round((BASE_WIDTH * resizeFactor) / 8));
+  const blocksY = Math.max(4, Math.round((BASE_HEIGHT * resizeFactor) / 8));
+
+  yield {
+    type: 'info',
+    total_frames: totalFrames,
+    fps: outputFps,
+    width: blocksX * 8,
+    height: blocksY * 8,
+    audio_duration: audioDuration,
+    audio_url: `/api/audio/${audioFileId}`,
+  };
+
+  for (let index = 0; index < totalFrames; index++) {
+    if (signal?.aborted) return;
+
+    const jpeg = renderFaceFrame(blocksX, blocksY, mouthOpenness(index / outputFps));
+    yield {
+      type: 'frame',
+      index,
+      data: Buffer.from(jpeg).toString('base64'),
+      progress: (index + 1) / totalFrames,
+    };
+
+    // 按生成速度节流，模拟真实服务的生成耗时
+    if (speed > 0) {
+      const due = startedAt + ((index + 1) / outputFps / speed) * 1000;
+      const wait = due - Date.now();
+      if (wait > 0) await sleep(wait, signal);
+    }
+  }
+
+  const totalTime = (Date.now() - startedAt) / 1000;
+  yield {
+    type: 'complete',
+    total_frames: totalFrames,
+    total_time: totalTime,
+    fps_actual: totalTime > 0 ? totalFrames / totalTime : totalFrames,
+  };
+}
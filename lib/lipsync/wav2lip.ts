@@ -0,0 +1,79 @@
+/**
+ * Wav2Lip 后端客户端（服务端使用）
+ * 浏览器经 /api/lipsync/* 转发，服务端内部（如注册新形象）直接调用这里的函数
+ */
+
+const WAV2LIP_BASE_URL = process.env.WAV2LIP_BASE_URL || 'http://localhost:8000';
+/** 后端是否提供人脸文件检查接口（见 checkFaceFile） */
+const WAV2LIP_FACE_CHECK = process.env.WAV2LIP_FACE_CHECK === 'true';
+
+/**
+ * Wav2Lip 后端返回的错误
+ * status 为后端的 HTTP 状态码，details 为后端返回的原始内容
+ */
+export class Wav2LipError extends Error {
+  status: number;
+  details?: string;
+
+  constructor(message: string, status: number, details?: string) {
+    super(message);
+    this.name = 'Wav2LipError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * 上传人脸文件（图片或视频）到 Wav2Lip 后端
+ * @returns Wav2Lip 返回的数据（包含 file_id）
+ * @throws 后端返回错误时抛出 Wav2LipError
+ */
+export async function uploadFaceToWav2Lip(file: Blob, fileName: string): Promise<{ file_id: string }> {
+  const formData = new FormData();
+  formData.append('file', file, fileName);
+
+  console.log(`转发到 Wav2Lip: ${WAV2LIP_BASE_URL}/api/upload/face`);
+
+  const response = await fetch(`${WAV2LIP_BASE_URL}/api/upload/face`, {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Wav2Lip upload-face 失败:', errorText);
+    throw new Wav2LipError('Wav2Lip 上传失败', response.status, errorText);
+  }
+
+  const data = await response.json();
+  console.log('Wav2Lip 上传成功:', data);
+  return data;
+}
+
+/** 人脸文件状态：present 仍保留 / missing 已丢失 / unknown 无法确认 */
+export type FaceFileStatus = 'present' | 'missing' | 'unknown';
+
+/**
+ * 检查 Wav2Lip 后端是否仍保留人脸文件
+ *
+ * 接口约定：HEAD /api/files/face/:fileId，文件存在返回 200，不存在返回 404（内置 mock 已实现）。
+ * 未实现该接口的后端对未知路由同样返回 404，无法与文件丢失区分，
+ * 因此只有设置 WAV2LIP_FACE_CHECK=true 时才检查，否则直接返回 unknown；
+ * 开启后 404 视为已丢失，其他状态或网络错误返回 unknown，由调用方继续使用缓存
+ */
+export async function checkFaceFile(fileId: string): Promise<FaceFileStatus> {
+  if (!WAV2LIP_FACE_CHECK) return 'unknown';
+
+  try {
+    const response = await fetch(`${WAV2LIP_BASE_URL}/api/files/face/${encodeURIComponent(fileId)}`, {
+      method: 'HEAD',
+    });
+    if (response.ok) return 'present';
+    if (response.status === 404) return 'missing';
+    console.warn(`检查 Wav2Lip 人脸文件返回 ${response.status}，继续使用缓存的 file_id`);
+    return 'unknown';
+  } catch (error) {
+    console.warn('检查 Wav2Lip 人脸文件失败:', error);
+    return 'unknown';
+  }
+}
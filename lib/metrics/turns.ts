@@ -0,0 +1,153 @@
+import type {
+  MetricSummary,
+  TurnMark,
+  TurnMetricsReport,
+  TurnMetricsSnapshot,
+  TurnOutcome,
+} from '@/types/metrics';
+import { TURN_MARKS, TURN_OUTCOMES } from '@/constants/metrics';
+
+/**
+ * 轮次延迟指标聚合（内存）
+ * 每个计时点保留最近 MAX_SAMPLES 个样本，查询时计算分位数；服务重启后重置
+ */
+
+/** 每个计时点保留的样本数 */
+const MAX_SAMPLES = 1000;
+
+/** 计时点的合理上限（毫秒），超过视为无效数据 */
+const MAX_MARK_MS = 10 * 60 * 1000;
+/** 每个客户端每分钟最多上报的轮次数（正常对话每轮至少数秒） */
+const MAX_REPORTS_PER_MINUTE = 30;
+/** 限流窗口（毫秒） */
+const RATE_WINDOW_MS = 60 * 1000;
+
+interface TurnMetricsStore {
+  since: number;
+  turns: number;
+  outcomes: Record<TurnOutcome, number>;
+  samples: Partial<Record<TurnMark, number[]>>;
+}
+
+/** 全局状态（开发模式热更新、不同路由之间共享） */
+const globalForMetrics = globalThis as typeof globalThis & {
+  turnMetrics?: TurnMetricsStore;
+  turnMetricsRate?: Map<string, { windowStart: number; count: number }>;
+};
+
+function getStore(): TurnMetricsStore {
+  globalForMetrics.turnMetrics ??= {
+    since: Date.now(),
+    turns: 0,
+    outcomes: { completed: 0, interrupted: 0, error: 0 },
+    samples: {},
+  };
+  return globalForMetrics.turnMetrics;
+}
+
+/**
+ * 按客户端限流（固定窗口），防止少数客户端灌入样本左右分位数
+ * @param clientKey 客户端标识（IP）
+ * @returns 超出限额时返回 false
+ */
+export function allowTurnMetricsReport(clientKey: string): boolean {
+  const rate = (globalForMetrics.turnMetricsRate ??= new Map());
+  const now = Date.now();
+
+  for (const [key, entry] of rate) {
+    if (now - entry.windowStart >= RATE_WINDOW_MS) rate.delete(key);
+  }
+
+  const entry = rate.get(clientKey);
+  if (!entry) {
+    rate.set(clientKey, { windowStart: now, count: 1 });
+    return true;
+  }
+  entry.count++;
+  return entry.count <= MAX_REPORTS_PER_MINUTE;
+}
+
+/**
+ * 校验上报数据
+ * @returns 规范化后的数据；格式错误时返回 null
+ */
+export function parseTurnMetricsReport(body: unknown): TurnMetricsReport | null {
+  if (!body || typeof body !== 'object') return null;
+  const { outcome, marks } = body as Record<string, unknown>;
+
+  if (!TURN_OUTCOMES.includes(outcome as TurnOutcome)) return null;
+  if (!marks || typeof marks !== 'object') return null;
+
+  const parsed: TurnMetricsReport['marks'] = {};
+  for (const mark of TURN_MARKS) {
+    const value = (marks as Record<string, unknown>)[mark];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_MARK_MS) {
+      return null;
+    }
+    parsed[mark] = value;
+  }
+
+  return { outcome: outcome as TurnOutcome, marks: parsed };
+}
+
+/**
+ * 记录一个轮次
+ */
+export function recordTurnMetrics(report: TurnMetricsReport) {
+  const store = getStore();
+  store.turns++;
+  store.outcomes[report.outcome]++;
+
+  for (const mark of TURN_MARKS) {
+    const value = report.marks[mark];
+    if (value === undefined) continue;
+    const samples = (store.samples[mark] ??= []);
+    samples.push(value);
+    if (samples.length > MAX_SAMPLES) samples.shift();
+  }
+}
+
+/**
+ * 计算分位数（最近秩法，sorted 为升序）
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+/**
+ * 汇总样本
+ */
+function summarize(samples: number[]): MetricSummary {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const sum = sorted.reduce((total, value) => total + value, 0);
+  return {
+    count: sorted.length,
+    mean: Math.round(sum / sorted.length),
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * 获取统计快照
+ */
+export function getTurnMetricsSnapshot(): TurnMetricsSnapshot {
+  const store = getStore();
+  const marks: TurnMetricsSnapshot['marks'] = {};
+  for (const mark of TURN_MARKS) {
+    const samples = store.samples[mark];
+    if (samples?.length) marks[mark] = summarize(samples);
+  }
+
+  return {
+    since: new Date(store.since).toISOString(),
+    turns: store.turns,
+    outcomes: { ...store.outcomes },
+    marks,
+  };
+}
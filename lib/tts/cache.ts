@@ -0,0 +1,385 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * TTS 音频缓存
+ * 以「清理后的文本 + 合成参数」的哈希为键，缓存 TextToVoice 返回的音频，
+ * 避免常用问候语、FAQ 回答被重复合成
+ */
+
+/** 缓存键参数 */
+export interface TtsCacheKeyParams {
+  text: string;
+  voiceType: number;
+  speed: number;
+  volume: number;
+  codec: string;
+  sampleRate: number;
+}
+
+/** 缓存统计 */
+export interface TtsCacheStats {
+  store: TtsCacheStoreType;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  ttlMs: number;
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+}
+
+/** 缓存存储类型 */
+export type TtsCacheStoreType = 'memory' | 'disk' | 'off';
+
+/**
+ * 缓存存储接口
+ * 存储只负责按键读写字节，统计与键生成由 TtsCache 统一处理
+ */
+export interface TtsCacheStore {
+  readonly type: TtsCacheStoreType;
+  get(key: string): Promise<Buffer | null>;
+  set(key: string, value: Buffer): Promise<void>;
+  clear(): Promise<void>;
+  /** 当前条目数与占用字节数 */
+  size(): Promise<{ entries: number; bytes: number }>;
+  /** 累计淘汰条目数（过期或超出容量） */
+  readonly evictions: number;
+}
+
+/** 默认最大容量（MB） */
+const DEFAULT_MAX_MB = 100;
+/** 默认过期时间（小时） */
+const DEFAULT_TTL_HOURS = 24 * 7;
+/** 默认磁盘缓存目录 */
+const DEFAULT_CACHE_DIR = '.cache/tts';
+
+/**
+ * 生成缓存键（sha256）
+ */
+export function createTtsCacheKey(params: TtsCacheKeyParams): string {
+  const { text, voiceType, speed, volume, codec, sampleRate } = params;
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([text.trim(), voiceType, speed, volume, codec, sampleRate]))
+    .digest('hex');
+}
+
+/** 缓存条目元信息 */
+interface EntryMeta {
+  bytes: number;
+  createdAt: number;
+}
+
+/**
+ * 内存 LRU 存储
+ * Map 保持插入顺序，读取时重新插入即可实现 LRU
+ */
+export function createMemoryStore(maxBytes: number, ttlMs: number): TtsCacheStore {
+  const entries = new Map<string, { value: Buffer; createdAt: number }>();
+  let totalBytes = 0;
+  let evictions = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    totalBytes -= entry.value.length;
+    evictions++;
+  };
+
+  return {
+    type: 'memory',
+
+    get evictions() {
+      return evictions;
+    },
+
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      if (Date.now() - entry.createdAt > ttlMs) {
+        remove(key);
+        return null;
+      }
+
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    async set(key, value) {
+      if (value.length > maxBytes) return;
+
+      const existing = entries.get(key);
+      if (existing) {
+        entries.delete(key);
+        totalBytes -= existing.value.length;
+      }
+
+      entries.set(key, { value, createdAt: Date.now() });
+      totalBytes += value.length;
+
+      // 超出容量时淘汰最久未使用的条目
+      while (totalBytes > maxBytes) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        remove(oldest);
+      }
+    },
+
+    async clear() {
+      entries.clear();
+      totalBytes = 0;
+    },
+
+    async size() {
+      return { entries: entries.size, bytes: totalBytes };
+    },
+  };
+}
+
+/**
+ * 磁盘目录存储
+ * 每个条目一个文件（<key>.bin），索引在首次访问时从目录重建，按最近访问淘汰
+ */
+export function createDiskStore(dir: string, maxBytes: number, ttlMs: number): TtsCacheStore {
+  const index = new Map<string, EntryMeta>();
+  let totalBytes = 0;
+  let evictions = 0;
+  let ready: Promise<void> | null = null;
+
+  const filePath = (key: string) => path.join(dir, `${key}.bin`);
+
+  // 从目录重建索引（按修改时间排序，旧的在前）
+  const load = () => {
+    ready ??= (async () => {
+      await fs.mkdir(dir, { recursive: true });
+      const files = (await fs.readdir(dir)).filter((name) => name.endsWith('.bin'));
+      const metas: Array<[string, EntryMeta]> = [];
+      for (const name of files) {
+        try {
+          const stat = await fs.stat(path.join(dir, name));
+          metas.push([name.slice(0, -4), { bytes: stat.size, createdAt: stat.mtimeMs }]);
+        } catch {
+          // 文件可能已被并发删除
+        }
+      }
+      metas.sort((a, b) => a[1].createdAt - b[1].createdAt);
+      for (const [key, meta] of metas) {
+        index.set(key, meta);
+        totalBytes += meta.bytes;
+      }
+    })();
+    return ready;
+  };
+
+  const remove = async (key: string) => {
+    const meta = index.get(key);
+    if (!meta) return;
+    index.delete(key);
+    totalBytes -= meta.bytes;
+    evictions++;
+    await fs.rm(filePath(key), { force: true });
+  };
+
+  return {
+    type: 'disk',
+
+    get evictions() {
+      return evictions;
+    },
+
+    async get(key) {
+      await load();
+      const meta = index.get(key);
+      if (!meta) return null;
+
+      if (Date.now() - meta.createdAt > ttlMs) {
+        await remove(key);
+        return null;
+      }
+
+      try {
+        const value = await fs.readFile(filePath(key));
+        index.delete(key);
+        index.set(key, meta);
+        return value;
+      } catch {
+        // 文件被外部删除，同步索引
+        index.delete(key);
+        totalBytes -= meta.bytes;
+        return null;
+      }
+    },
+
+    async set(key, value) {
+      await load();
+      if (value.length > maxBytes) return;
+
+      // 先写临时文件再重命名，避免并发读到半个文件；临时文件名带随机后缀，同一个 key 并发写入时互不影响
+      const tmpPath = `${filePath(key)}.${crypto.randomUUID()}.tmp`;
+      await fs.writeFile(tmpPath, value);
+      await fs.rename(tmpPath, filePath(key));
+
+      const existing = index.get(key);
+      if (existing) {
+        index.delete(key);
+        totalBytes -= existing.bytes;
+      }
+      index.set(key, { bytes: value.length, createdAt: Date.now() });
+      totalBytes += value.length;
+
+      while (totalBytes > maxBytes) {
+        const oldest = index.keys().next().value;
+        if (oldest === undefined) break;
+        await remove(oldest);
+      }
+    },
+
+    async clear() {
+      await load();
+      for (const key of [...index.keys()]) {
+        await fs.rm(filePath(key), { force: true });
+      }
+      index.clear();
+      totalBytes = 0;
+    },
+
+    async size() {
+      await load();
+      return { entries: index.size, bytes: totalBytes };
+    },
+  };
+}
+
+/**
+ * 不缓存（TTS_CACHE=off）
+ */
+function createNoopStore(): TtsCacheStore {
+  return {
+    type: 'off',
+    evictions: 0,
+    async get() {
+      return null;
+    },
+    async set() {},
+    async clear() {},
+    async size() {
+      return { entries: 0, bytes: 0 };
+    },
+  };
+}
+
+/**
+ * TTS 缓存（存储 + 命中统计）
+ */
+export interface TtsCache {
+  /** 读取缓存，返回 base64 音频 */
+  get(params: TtsCacheKeyParams): Promise<string | null>;
+  /** 写入缓存（base64 音频） */
+  set(params: TtsCacheKeyParams, audio: string): Promise<void>;
+  clear(): Promise<void>;
+  stats(): Promise<TtsCacheStats>;
+}
+
+/**
+ * 读取正数配置，未配置、不是数字或不大于 0 时使用默认值
+ */
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * 根据环境变量创建缓存
+ * - TTS_CACHE: memory（默认）| disk | off
+ * - TTS_CACHE_DIR: 磁盘缓存目录，默认 .cache/tts
+ * - TTS_CACHE_MAX_MB: 最大容量，默认 100
+ * - TTS_CACHE_TTL_HOURS: 过期时间，默认 168（7 天）
+ */
+function createTtsCache(): TtsCache {
+  const type = (process.env.TTS_CACHE || 'memory') as TtsCacheStoreType;
+  const maxBytes = readPositiveNumber(process.env.TTS_CACHE_MAX_MB, DEFAULT_MAX_MB) * 1024 * 1024;
+  const ttlMs = readPositiveNumber(process.env.TTS_CACHE_TTL_HOURS, DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+
+  let store: TtsCacheStore;
+  switch (type) {
+    case 'disk':
+      // mock 音频只放内存，避免切回腾讯云后命中磁盘上的提示音
+      if (process.env.TTS_PROVIDER === 'mock') {
+        console.log('TTS 缓存: TTS_PROVIDER=mock，使用内存缓存');
+        store = createMemoryStore(maxBytes, ttlMs);
+        break;
+      }
+      store = createDiskStore(process.env.TTS_CACHE_DIR || DEFAULT_CACHE_DIR, maxBytes, ttlMs);
+      break;
+    case 'off':
+      store = createNoopStore();
+      break;
+    case 'memory':
+      store = createMemoryStore(maxBytes, ttlMs);
+      break;
+    default:
+      console.error(`TTS 缓存: 未知的 TTS_CACHE "${type}"，使用内存缓存`);
+      store = createMemoryStore(maxBytes, ttlMs);
+  }
+
+  const counters = { hits: 0, misses: 0, writes: 0 };
+
+  return {
+    async get(params) {
+      try {
+        const value = await store.get(createTtsCacheKey(params));
+        if (value) {
+          counters.hits++;
+          return value.toString('base64');
+        }
+      } catch (error) {
+        console.error('TTS 缓存读取失败:', error);
+      }
+      counters.misses++;
+      return null;
+    },
+
+    async set(params, audio) {
+      try {
+        await store.set(createTtsCacheKey(params), Buffer.from(audio, 'base64'));
+        counters.writes++;
+      } catch (error) {
+        console.error('TTS 缓存写入失败:', error);
+      }
+    },
+
+    async clear() {
+      await store.clear();
+    },
+
+    async stats() {
+      const { entries, bytes } = await store.size();
+      return {
+        store: store.type,
+        entries,
+        bytes,
+        maxBytes,
+        ttlMs,
+        ...counters,
+        evictions: store.evictions,
+      };
+    },
+  };
+}
+
+/** 挂在 globalThis 上，保证各路由及开发模式热更新后共享同一个缓存 */
+const globalForTtsCache = globalThis as typeof globalThis & { ttsCache?: TtsCache };
+
+/**
+ * 获取 TTS 缓存单例
+ */
+export function getTtsCache(): TtsCache {
+  globalForTtsCache.ttsCache ??= createTtsCache();
+  return globalForTtsCache.ttsCache;
+}
@@ -0,0 +1,116 @@
+import { randomUUID } from 'crypto';
+import type { TtsClientInstance } from './synthesize';
+
+/**
+ * TTS mock（离线演示 / 联调用）
+ * 生成按音节起伏的提示音，时长与文本长度、语速成正比，不访问腾讯云。
+ * codec 为 pcm 时返回裸 PCM，其余一律返回 WAV（浏览器按内容识别格式，mp3 请求也能正常播放）
+ */
+
+/** 每个汉字的发音时长（秒） */
+const CJK_CHAR_SECONDS = 0.22;
+/** 每个英文单词的发音时长（秒） */
+const WORD_SECONDS = 0.3;
+/** 标点停顿（秒） */
+const PAUSE_SECONDS = 0.25;
+/** 最短音频时长（秒） */
+const MIN_SECONDS = 0.3;
+/** 基础振幅（满幅度的比例） */
+const BASE_AMPLITUDE = 0.25;
+
+/** 音节 / 停顿 */
+type Segment = { kind: 'syllable' | 'pause'; seconds: number };
+
+/**
+ * 把文本拆成音节和停顿
+ */
+function toSegments(text: string): Segment[] {
+  const tokens = text.match(/[\u4e00-\u9fff]|[A-Za-z0-9']+|[，。！？；：、,.!?;:]/g) ?? [];
+  return tokens.map((token): Segment => {
+    if (/^[\u4e00-\u9fff]$/.test(token)) return { kind: 'syllable', seconds: CJK_CHAR_SECONDS };
+    if (/^[A-Za-z0-9']+$/.test(token)) return { kind: 'syllable', seconds: WORD_SECONDS };
+    return { kind: 'pause', seconds: PAUSE_SECONDS };
+  });
+}
+
+/**
+ * 腾讯云语速参数（-2 ~ 6）对应的播放倍率
+ */
+function speedFactor(speed: number): number {
+  return speed >= 0 ? 1 + speed * 0.25 : 1 + speed * 0.2;
+}
+
+/**
+ * 生成 16 位单声道 PCM
+ */
+function synthesizeTone(text: string, sampleRate: number, speed: number, volume: number): Int16Array {
+  const factor = speedFactor(speed);
+  const segments = toSegments(text).map(({ kind, seconds }) => ({ kind, seconds: seconds / factor }));
+  const total = Math.max(MIN_SECONDS, segments.reduce((sum, segment) => sum + segment.seconds, 0));
+  // 音量参数 -10 ~ 10
+  const amplitude = Math.min(0.5, Math.max(0.05, BASE_AMPLITUDE * (1 + volume / 10))) * 32767;
+
+  const samples = new Int16Array(Math.round(total * sampleRate));
+  let offset = 0;
+
+  segments.forEach(({ kind, seconds }, index) => {
+    const length = Math.round(seconds * sampleRate);
+    if (kind === 'syllable') {
+      // 每个音节音高略有不同，正弦包络模拟音节起伏
+      const frequency = 180 + 30 * (index % 5);
+      for (let i = 0; i < length && offset + i < samples.length; i++) {
+        const envelope = Math.sin((Math.PI * i) / length);
+        samples[offset + i] = Math.round(amplitude * envelope * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+      }
+    }
+    offset += length;
+  });
+
+  return samples;
+}
+
+/**
+ * PCM 封装为 WAV
+ */
+function toWav(samples: Int16Array, sampleRate: number): Buffer {
+  const dataBytes = samples.length * 2;
+  const wav = Buffer.alloc(44 + dataBytes);
+
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + dataBytes, 4);
+  wav.write('WAVE', 8);
+  wav.write('fmt ', 12);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);               // PCM
+  wav.writeUInt16LE(1, 22);               // 单声道
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28);  // byteRate
+  wav.writeUInt16LE(2, 32);               // blockAlign
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36);
+  wav.writeUInt32LE(dataBytes, 40);
+  Buffer.from(samples.buffer, samples.byteOffset, dataBytes).copy(wav, 44);
+
+  return wav;
+}
+
+/**
+ * 创建 mock TTS 客户端（接口与腾讯云 TextToVoice 一致）
+ */
+export function createMockTtsClient(): TtsClientInstance {
+  return {
+    async TextToVoice(request) {
+      const sampleRate = request.SampleRate || 16000;
+      const samples = synthesizeTone(request.Text ?? '', sampleRate, request.Speed ?? 0, request.Volume ?? 0);
+      const bytes = request.Codec === 'pcm'
+        ? Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength)
+        : toWav(samples, sampleRate);
+
+      return {
+        Audio: bytes.toString('base64'),
+        SessionId: request.SessionId,
+        RequestId: `mock-${randomUUID()}`,
+      };
+    },
+  };
+}
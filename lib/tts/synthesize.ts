@@ -0,0 +1,75 @@
+import * as tencentcloud from 'tencentcloud-sdk-nodejs';
+import { randomUUID } from 'crypto';
+import { getTtsCache, type TtsCacheKeyParams } from './cache';
+import { createMockTtsClient } from './mock';
+
+const TtsClient = tencentcloud.tts.v20190823.Client;
+
+/** TTS 客户端（腾讯云 SDK 或 mock，只用到 TextToVoice） */
+export type TtsClientInstance = Pick<InstanceType<typeof TtsClient>, 'TextToVoice'>;
+
+/**
+ * 是否使用 mock TTS（TTS_PROVIDER=mock）
+ */
+export function isMockTts(): boolean {
+  return process.env.TTS_PROVIDER === 'mock';
+}
+
+/**
+ * 创建流式 TTS 使用的客户端，未配置凭证时返回 null
+ * TTS_PROVIDER=mock 时返回 mock 客户端，无需凭证
+ */
+export function createTtsClient(): TtsClientInstance | null {
+  if (isMockTts()) return createMockTtsClient();
+
+  const secretId = process.env.TENCENT_SECRET_ID;
+  const secretKey = process.env.TENCENT_SECRET_KEY;
+  const region = process.env.TENCENT_REGION || 'ap-beijing';
+
+  if (!secretId || !secretKey) return null;
+
+  return new TtsClient({
+    credential: { secretId, secretKey },
+    region,
+    profile: {
+      httpProfile: {
+        endpoint: 'tts.tencentcloudapi.com',
+      },
+    },
+  });
+}
+
+/**
+ * 合成一段文本（先查缓存，未命中再调用 TextToVoice 并写入缓存）
+ * 返回 base64 音频
+ */
+export async function synthesizeWithCache(
+  client: TtsClientInstance,
+  params: TtsCacheKeyParams
+): Promise<{ audio: string; cached: boolean }> {
+  const cache = getTtsCache();
+
+  const cached = await cache.get(params);
+  if (cached) {
+    return { audio: cached, cached: true };
+  }
+
+  const result = await client.TextToVoice({
+    Text: params.text,
+    SessionId: randomUUID(),
+    ModelType: 1,
+    VoiceType: params.voiceType,
+    Volume: params.volume,
+    Speed: params.speed,
+    ProjectId: 0,
+    Codec: params.codec,
+    SampleRate: params.sampleRate,
+  });
+
+  if (!result?.Audio) {
+    throw new Error('未收到音频数据');
+  }
+
+  await cache.set(params, result.Audio);
+  return { audio: result.Audio, cached: false };
+}
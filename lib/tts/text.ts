@@ -0,0 +1,84 @@
+/**
+ * TTS 文本预处理（服务端）
+ */
+
+/** 单段最大字符（SDK TextToVoice 中文上限约 150） */
+export const MAX_STREAM_CHARS = 150;
+
+/**
+ * 清理 Markdown 格式，提取纯文本用于语音合成
+ * - 移除代码块、行内代码、HTML 标签
+ * - 标题/列表/引用仅去掉标记，保留文本
+ * - 移除 **粗体**、*斜体* 标记
+ * - 移除 [链接](url) 格式，保留链接文字
+ * - 图片保留 alt 文本
+ * - 移除 --- 分隔线
+ */
+export function cleanMarkdown(text: string): string {
+  return text
+    // 移除代码块 ```...```
+    .replace(/```[\s\S]*?```/g, '')
+    // 移除行内代码 `code`
+    .replace(/`([^`]+)`/g, '$1')
+    // 移除 HTML 标签
+    .replace(/<\/?[^>]+>/g, '')
+    // 标题：移除 # 标记，保留标题文本
+    .replace(/^#{1,6}\s+/gm, '')
+    // Setext 标题下划线
+    .replace(/^\s*(=+|-+)\s*$/gm, '')
+    // 引用与列表标记
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*([-*+]|(\d+\.))\s+/gm, '')
+    // 移除粗体标记 **text** 或 __text__，保留内容
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    // 移除斜体标记 *text* 或 _text_，保留内容（尽量避开单词内下划线）
+    .replace(/(^|[\s(])\*(?!\s)([^*\n]+?)(?<!\s)\*(?=[\s).,!?;:]|$)/g, '$1$2')
+    .replace(/(^|[\s(])_(?!\s)([^_\n]+?)(?<!\s)_(?=[\s).,!?;:]|$)/g, '$1$2')
+    // 移除图片 ![alt](url)，保留 alt 文本
+    .replace(/!\[([^\]]*)\]\([^)]+\)/g, '$1')
+    // 移除链接 [text](url)，保留链接文字
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+    // 移除裸露链接
+    .replace(/https?:\/\/[^\s\]\)]+/g, '')
+    // 处理表格分隔符 |
+    .replace(/\|/g, ' ')
+    // 移除分隔线 ---
+    .replace(/^-{3,}$/gm, '')
+    // 移除多余空行（连续多个换行变成单个）
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * 按句末标点分段，确保每段不超过 MAX_STREAM_CHARS
+ */
+export function splitText(text: string): string[] {
+  const trimmed = text.trim();
+  if (trimmed.length <= MAX_STREAM_CHARS) return [trimmed];
+
+  const sentences = trimmed.split(/(?<=[。？！!?；;])/);
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    const s = sentence.trim();
+    if (!s) continue;
+
+    if (s.length > MAX_STREAM_CHARS) {
+      for (let i = 0; i < s.length; i += MAX_STREAM_CHARS) {
+        chunks.push(s.slice(i, i + MAX_STREAM_CHARS));
+      }
+      continue;
+    }
+
+    if ((current + s).length <= MAX_STREAM_CHARS) {
+      current += s;
+    } else {
+      if (current) chunks.push(current);
+      current = s;
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
@@ -0,0 +1,57 @@
+import type { VoiceSettings } from '@/types/tts';
+import {
+  DEFAULT_VOICE_TYPE,
+  TTS_SPEED_RANGE,
+  TTS_VOLUME_RANGE,
+  VOICE_CATALOG,
+} from '@/constants/tts';
+
+/** 解析结果 */
+export type VoiceParamsResult =
+  | { ok: true; voice: Required<VoiceSettings> }
+  | { ok: false; error: string };
+
+/**
+ * 判断数值是否在范围内
+ */
+function inRange(value: number, range: { min: number; max: number }): boolean {
+  return value >= range.min && value <= range.max;
+}
+
+/**
+ * 解析并校验请求体中的音色参数（voiceType / speed / volume）
+ * 未提供的参数使用默认值；body 不是对象时返回错误
+ */
+export function parseVoiceParams(body: unknown): VoiceParamsResult {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, error: '音色参数必须是对象' };
+  }
+
+  const params = body as Record<string, unknown>;
+  const voiceType = params.voiceType ?? DEFAULT_VOICE_TYPE;
+  const speed = params.speed ?? 0;
+  const volume = params.volume ?? 0;
+
+  if (
+    typeof voiceType !== 'number' ||
+    !VOICE_CATALOG.some((voice) => voice.voiceType === voiceType)
+  ) {
+    return { ok: false, error: '不支持的音色' };
+  }
+
+  if (typeof speed !== 'number' || !inRange(speed, TTS_SPEED_RANGE)) {
+    return {
+      ok: false,
+      error: `语速超出范围 (${TTS_SPEED_RANGE.min} ~ ${TTS_SPEED_RANGE.max})`,
+    };
+  }
+
+  if (typeof volume !== 'number' || !inRange(volume, TTS_VOLUME_RANGE)) {
+    return {
+      ok: false,
+      error: `音量超出范围 (${TTS_VOLUME_RANGE.min} ~ ${TTS_VOLUME_RANGE.max})`,
+    };
+  }
+
+  return { ok: true, voice: { voiceType, speed, volume } };
+}
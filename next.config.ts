@@ -1,7 +1,18 @@
 import type { NextConfig } from "next";
 
+/** 实时 ASR 代理端口（与 lib/asr/proxy.ts 一致） */
+const asrProxyPort = process.env.ASR_PROXY_PORT || "8766";
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  async rewrites() {
+    return [
+      // 同源 WebSocket：/api/asr/stream 的升级请求由 Next 转发给本机 ASR 代理
+      {
+        source: "/api/asr/stream",
+        destination: `http://127.0.0.1:${asrProxyPort}/asr/stream`,
+      },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -1,11 +1,160 @@
+/**
+ * 录音 AudioWorklet 处理器
+ *
+ * 发送给主线程的消息（见 types/audio.ts RecorderMessage）：
+ * - { type: 'audio', samples }：音频数据
+ * - { type: 'speech-start' } / { type: 'speech-end', durationMs }：VAD 事件（启用 VAD 时）
+ *
+ * VAD 基于能量 + 过零率：能量高于自适应噪声基底一定幅度，且过零率不像宽带噪声时判定为语音帧。
+ * 启用 pauseAfterMs 后，静音超过该时长暂停发送音频，检测到语音时先补发最近 preRollMs 的音频再恢复
+ */
+
+/** 默认 VAD 参数（与 constants/audio.ts 中的默认值一致） */
+const DEFAULT_VAD_OPTIONS = {
+  enabled: false,
+  /** 语音结束前需要持续的静音时长（毫秒） */
+  hangoverMs: 800,
+  /** 判定为语音开始需要的语音时长（毫秒） */
+  minSpeechMs: 120,
+  /** 静音超过该时长后暂停发送音频（毫秒，0 表示不暂停） */
+  pauseAfterMs: 0,
+  /** 恢复发送时补发的音频时长（毫秒） */
+  preRollMs: 300,
+  /** 语音帧能量需高于噪声基底的幅度（dB） */
+  thresholdDb: 10,
+  /** 语音帧最低能量（dBFS） */
+  minEnergyDb: -55,
+  /** 过零率上限，超过时需要更高能量才判定为语音（区分宽带噪声） */
+  maxZeroCrossingRate: 0.35,
+};
+
+/** 初始噪声基底（dBFS） */
+const INITIAL_NOISE_DB = -60;
+
+/** 噪声基底跟随速度：下降快、上升慢，语音期间更慢（持续的背景噪声最终会并入基底） */
+const NOISE_FALL_RATE = 0.2;
+const NOISE_RISE_RATE = 0.01;
+const NOISE_RISE_RATE_SPEECH = 0.001;
+
 class RecorderProcessor extends AudioWorkletProcessor {
-  // AudioWorkletProcessor 的 process 方法有固定签名，未使用的参数用下划线前缀
-  process(inputs, _outputs, _parameters) {
+  constructor(options) {
+    super();
+    const vad = options?.processorOptions?.vad;
+    this.vad = { ...DEFAULT_VAD_OPTIONS, ...vad, enabled: Boolean(vad?.enabled) };
+
+    this.noiseDb = INITIAL_NOISE_DB;
+    this.speaking = false;
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.speechStartedAt = 0;
+    this.elapsedMs = 0;
+    this.paused = false;
+    this.preRoll = [];
+    this.preRollMs = 0;
+  }
+
+  /**
+   * 计算一帧的能量（dBFS）和过零率
+   */
+  analyze(samples) {
+    let sum = 0;
+    let crossings = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sum += samples[i] * samples[i];
+      if (i > 0 && (samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+    }
+    const rms = Math.sqrt(sum / samples.length);
+    return {
+      energyDb: 20 * Math.log10(rms + 1e-10),
+      zeroCrossingRate: crossings / samples.length,
+    };
+  }
+
+  /**
+   * 判断是否为语音帧，并更新噪声基底
+   */
+  isSpeechFrame(samples) {
+    const { energyDb, zeroCrossingRate } = this.analyze(samples);
+    const { thresholdDb, minEnergyDb, maxZeroCrossingRate } = this.vad;
+
+    const aboveNoise = energyDb - this.noiseDb;
+    const isSpeech = energyDb > minEnergyDb && aboveNoise > thresholdDb &&
+      (zeroCrossingRate <= maxZeroCrossingRate || aboveNoise > thresholdDb * 2);
+
+    const rate = energyDb < this.noiseDb
+      ? NOISE_FALL_RATE
+      : this.speaking ? NOISE_RISE_RATE_SPEECH : NOISE_RISE_RATE;
+    this.noiseDb += (energyDb - this.noiseDb) * rate;
+
+    return isSpeech;
+  }
+
+  /**
+   * 更新 VAD 状态，发送语音开始/结束事件
+   */
+  updateVad(samples, frameMs) {
+    const isSpeech = this.isSpeechFrame(samples);
+    this.elapsedMs += frameMs;
+
+    if (isSpeech) {
+      this.speechMs += frameMs;
+      this.silenceMs = 0;
+    } else {
+      this.silenceMs += frameMs;
+      // 语音开始前的短暂停顿不清零，避免单个静音帧打断判定
+      if (!this.speaking && this.silenceMs > this.vad.minSpeechMs) this.speechMs = 0;
+    }
+
+    if (!this.speaking && this.speechMs >= this.vad.minSpeechMs) {
+      this.speaking = true;
+      this.speechStartedAt = this.elapsedMs - this.speechMs;
+      this.port.postMessage({ type: 'speech-start' });
+    } else if (this.speaking && this.silenceMs >= this.vad.hangoverMs) {
+      this.speaking = false;
+      this.speechMs = 0;
+      this.port.postMessage({
+        type: 'speech-end',
+        durationMs: Math.round(this.elapsedMs - this.silenceMs - this.speechStartedAt),
+      });
+    }
+  }
+
+  /**
+   * 发送音频；静音期间暂停发送，只保留最近的音频用于恢复时补发
+   */
+  sendAudio(samples, frameMs) {
+    const { pauseAfterMs, preRollMs } = this.vad;
+    const shouldPause = this.vad.enabled && pauseAfterMs > 0 && !this.speaking && this.silenceMs >= pauseAfterMs;
+
+    if (shouldPause) {
+      this.paused = true;
+      this.preRoll.push(samples.slice());
+      this.preRollMs += frameMs;
+      while (this.preRollMs > preRollMs && this.preRoll.length > 1) {
+        this.preRoll.shift();
+        this.preRollMs -= frameMs;
+      }
+      return;
+    }
+
+    if (this.paused) {
+      this.paused = false;
+      this.preRoll.forEach((frame) => this.port.postMessage({ type: 'audio', samples: frame }));
+      this.preRoll = [];
+      this.preRollMs = 0;
+    }
+    this.port.postMessage({ type: 'audio', samples });
+  }
+
+  process(inputs) {
     const input = inputs[0];
     if (input && input.length > 0) {
       const channelData = input[0];
-      // 发送音频数据到主线程
-      this.port.postMessage(channelData);
+      const frameMs = (channelData.length / sampleRate) * 1000;
+      if (this.vad.enabled) {
+        this.updateVad(channelData, frameMs);
+      }
+      this.sendAudio(channelData, frameMs);
     }
     return true;
   }
@@ -1,19 +1,35 @@
 import request from '@/utils/request';
+import type { Language } from '@/store/languageStore';
+import type { AsrEngineSetting } from '@/types/asr';
 
 /** ASR 响应类型 */
 interface AsrResponse {
   text: string;
 }
 
+/** 语音识别选项 */
+export interface SpeechToTextOptions {
+  /** 当前语言（auto 模式下据此选择引擎） */
+  language?: Language;
+  /** 引擎设置，默认 auto */
+  engine?: AsrEngineSetting;
+}
+
 /**
  * 语音转文字
  * @param audioBlob 音频数据
+ * @param options 识别语言 / 引擎
  * @returns 识别的文本
  * @throws 识别失败时抛出 RequestError
  */
-export async function speechToText(audioBlob: Blob): Promise<string> {
+export async function speechToText(
+  audioBlob: Blob,
+  options: SpeechToTextOptions = {}
+): Promise<string> {
   const formData = new FormData();
   formData.append('audio', audioBlob, 'recording.mp3');
+  if (options.language) formData.append('language', options.language);
+  if (options.engine) formData.append('engine', options.engine);
 
   const data = await request.postForm<AsrResponse>('/api/asr', formData, {
     timeout: 30000, // ASR 30秒超时
@@ -0,0 +1,66 @@
+import request from '@/utils/request';
+import type { AvatarListResponse, AvatarSaveResponse } from '@/types/avatar';
+
+/** 上传素材超时（视频较大，且服务端会预注册对口型） */
+const UPLOAD_TIMEOUT = 5 * 60 * 1000;
+/** 管理令牌在 sessionStorage 中的键（关闭标签页后失效） */
+const ADMIN_TOKEN_KEY = 'adminToken';
+
+/**
+ * 设置管理令牌（与服务端 ADMIN_TOKEN 一致，形象管理接口需要）
+ * @param token 传 null 清除
+ */
+export function setAdminToken(token: string | null): void {
+  if (token) {
+    sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+  } else {
+    sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+  }
+}
+
+/**
+ * 管理接口请求头
+ */
+function adminHeaders(): Record<string, string> {
+  const token = sessionStorage.getItem(ADMIN_TOKEN_KEY);
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * 获取启用的形象列表
+ * @throws 请求失败时抛出 RequestError
+ */
+export async function getAvatars(): Promise<AvatarListResponse> {
+  return request.get<AvatarListResponse>('/api/avatars');
+}
+
+/**
+ * 创建形象（需先通过 setAdminToken 设置管理令牌）
+ * @param formData 形象字段和素材（idle / think / talk / dance 视频、thumbnail 缩略图，字段见 lib/avatars/upload.ts）
+ * @throws 请求失败或素材校验失败时抛出 RequestError
+ */
+export async function createAvatar(formData: FormData): Promise<AvatarSaveResponse> {
+  return request.postForm<AvatarSaveResponse>('/api/avatars', formData, {
+    timeout: UPLOAD_TIMEOUT,
+    headers: adminHeaders(),
+  });
+}
+
+/**
+ * 更新形象（只修改提供的字段和素材）
+ * @throws 请求失败或素材校验失败时抛出 RequestError
+ */
+export async function updateAvatar(id: string, formData: FormData): Promise<AvatarSaveResponse> {
+  return request.put<AvatarSaveResponse>(`/api/avatars/${encodeURIComponent(id)}`, formData, {
+    timeout: UPLOAD_TIMEOUT,
+    headers: { ...adminHeaders(), 'Content-Type': 'multipart/form-data' },
+  });
+}
+
+/**
+ * 删除形象
+ * @throws 请求失败时抛出 RequestError
+ */
+export async function deleteAvatar(id: string): Promise<void> {
+  await request.delete(`/api/avatars/${encodeURIComponent(id)}`, { headers: adminHeaders() });
+}
@@ -1,17 +1,24 @@
 import request from '@/utils/request';
 import { Language } from '@/store/languageStore';
+import { isAvatarGesture, type AvatarGesture } from '@/types/avatar';
 
 /**
  * 流式聊天
  * @param message 用户消息
  * @param onMessage 收到消息回调
+ * @param options.conversationId 会话 ID（同一会话内的请求共享上下文）
  * @param options.signal AbortSignal 用于取消请求（如用户打断）
  * @throws 请求失败时抛出 RequestError
  */
 export interface ChatStreamOptions {
+  /** 回答语言（服务端据此选择系统提示词） */
   language?: Language;
-  systemPrompt?: string;
+  conversationId?: string;
+  /** 当前形象 ID（服务端据此使用形象清单中的人设） */
+  avatarId?: string;
   signal?: AbortSignal;
+  /** 收到回复的动作标签（每轮最多一次，形象未配置动作片段时不会触发） */
+  onGesture?: (gesture: AvatarGesture) => void;
 }
 
 export async function chatStream(
@@ -24,9 +31,16 @@ export async function chatStream(
     {
       message,
       language: options?.language,
-      systemPrompt: options?.systemPrompt,
+      conversationId: options?.conversationId,
+      avatarId: options?.avatarId,
     },
     onMessage,
-    { timeout: 60000, signal: options?.signal }
+    {
+      timeout: 60000,
+      signal: options?.signal,
+      onEvent: (event) => {
+        if (isAvatarGesture(event.gesture)) options?.onGesture?.(event.gesture);
+      },
+    }
   );
 }
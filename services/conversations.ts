@@ -0,0 +1,41 @@
+import request, { RequestError } from '@/utils/request';
+import type { ConversationRecord } from '@/types/chat';
+
+/** 服务端未开启会话存储时不再同步（直到刷新页面） */
+let serverStoreDisabled = false;
+
+/** 各会话的写入密钥（会话 ID → 密钥），服务端只允许持有同一密钥的请求覆盖会话 */
+const writeKeys = new Map<string, string>();
+
+/**
+ * 获取会话的写入密钥（首次同步时随机生成）
+ */
+function getWriteKey(id: string): string {
+  let key = writeKeys.get(id);
+  if (!key) {
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    key = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+    writeKeys.set(id, key);
+  }
+  return key;
+}
+
+/**
+ * 同步会话到服务端（失败只打印日志，不影响对话）
+ */
+export async function syncConversation(record: ConversationRecord): Promise<void> {
+  if (serverStoreDisabled) return;
+  try {
+    await request.post('/api/conversations', record, {
+      timeout: 10000,
+      headers: { 'X-Conversation-Key': getWriteKey(record.id) },
+    });
+  } catch (error) {
+    if (error instanceof RequestError && error.code === 503) {
+      serverStoreDisabled = true;
+      console.log('💾 服务端会话存储未开启，对话记录仅保存在本地');
+      return;
+    }
+    console.warn('同步会话失败:', error);
+  }
+}
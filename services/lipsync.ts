@@ -3,6 +3,12 @@
  * 提供与 Wav2Lip 后端交互的方法
  */
 
+import {
+  LIPSYNC_BINARY_CONTENT_TYPE,
+  createLipsyncFrameParser,
+  type LipsyncBinaryFrame,
+} from '@/utils/lipsyncFrames';
+
 /** SSE 事件类型 */
 export interface LipsyncStartEvent {
   type: 'start';
@@ -24,6 +30,7 @@ export interface LipsyncInfoEvent {
   audio_url: string;
 }
 
+/** SSE 模式下的帧事件（二进制模式下不会出现） */
 export interface LipsyncFrameEvent {
   type: 'frame';
   index: number;
@@ -31,6 +38,12 @@ export interface LipsyncFrameEvent {
   progress: number;
 }
 
+/** 回调收到的帧（两种传输模式统一为 JPEG 字节） */
+export type LipsyncFrame = LipsyncBinaryFrame;
+
+/** 帧传输方式：binary 为长度前缀的二进制流，sse 为 base64 JSON（兼容旧部署） */
+export type LipsyncTransport = 'binary' | 'sse';
+
 export interface LipsyncCompleteEvent {
   type: 'complete';
   total_frames: number;
@@ -54,6 +67,8 @@ export type LipsyncEvent =
 /** 上传响应 */
 export interface UploadResponse {
   file_id: string;
+  /** 人脸文件是否复用了服务端缓存的注册 */
+  cached?: boolean;
 }
 
 /**
@@ -112,6 +127,30 @@ export async function uploadFaceImage(fileUrl: string): Promise<string> {
   return data.file_id;
 }
 
+/**
+ * 注册形象的人脸文件（服务端读取形象清单中的对口型源）
+ * 服务端按形象和文件内容缓存 file_id，Wav2Lip 仍保留该文件时不会重新上传
+ * @param avatarId 形象 ID
+ * @returns file_id
+ */
+export async function registerAvatarFace(avatarId: string): Promise<string> {
+  const response = await fetch('/api/lipsync/upload-face', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ avatarId }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: '注册失败' }));
+    console.error('注册人脸文件失败:', error);
+    throw new Error(error.error || error.details || '注册人脸文件失败');
+  }
+
+  const data: UploadResponse = await response.json();
+  console.log(`人脸文件${data.cached ? '已注册（复用）' : '上传成功'}, file_id:`, data.file_id);
+  return data.file_id;
+}
+
 /**
  * 上传 TTS 音频
  * @param audioBytes 音频字节数据
@@ -144,6 +183,8 @@ export interface GenerateOptions {
   outputFps?: number;
   jpegQuality?: number;
   resizeFactor?: number;
+  /** 帧传输方式（默认 binary） */
+  transport?: LipsyncTransport;
   signal?: AbortSignal;
 }
 
@@ -152,13 +193,115 @@ export interface GenerateCallbacks {
   onStart?: (event: LipsyncStartEvent) => void;
   onStatus?: (event: LipsyncStatusEvent) => void;
   onInfo?: (event: LipsyncInfoEvent) => void;
-  onFrame?: (event: LipsyncFrameEvent) => void;
+  onFrame?: (frame: LipsyncFrame) => void;
   onComplete?: (event: LipsyncCompleteEvent) => void;
   onError?: (event: LipsyncErrorEvent) => void;
 }
 
+/**
+ * base64 转字节
+ */
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * 分发事件到回调
+ */
+function dispatchEvent(event: LipsyncEvent, callbacks: GenerateCallbacks) {
+  switch (event.type) {
+    case 'start':
+      callbacks.onStart?.(event);
+      break;
+    case 'status':
+      callbacks.onStatus?.(event);
+      break;
+    case 'info':
+      callbacks.onInfo?.(event);
+      break;
+    case 'frame':
+      callbacks.onFrame?.({
+        index: event.index,
+        progress: event.progress,
+        bytes: base64ToBytes(event.data),
+      });
+      break;
+    case 'complete':
+      callbacks.onComplete?.(event);
+      break;
+    case 'error':
+      callbacks.onError?.(event);
+      break;
+  }
+}
+
+/**
+ * 读取二进制帧流
+ */
+async function readBinaryStream(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  callbacks: GenerateCallbacks
+): Promise<void> {
+  const parser = createLipsyncFrameParser({
+    onEvent: (event) => dispatchEvent(event as LipsyncEvent, callbacks),
+    onFrame: (frame) => callbacks.onFrame?.(frame),
+  });
+  
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(value);
+  }
+  
+  if (parser.hasPendingBytes()) {
+    console.warn('lip-sync 二进制流在消息中途结束');
+  }
+}
+
+/**
+ * 读取 SSE 流（回退模式）
+ */
+async function readSseStream(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  callbacks: GenerateCallbacks
+): Promise<void> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  
+  while (true) {
+    const { done, value } = await reader.read();
+    
+    if (done) break;
+    
+    buffer += decoder.decode(value, { stream: true });
+    
+    // 解析 SSE 事件
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    
+    for (const line of lines) {
+      if (line.startsWith('data: ')) {
+        const jsonStr = line.slice(6).trim();
+        if (jsonStr && jsonStr !== '[DONE]') {
+          try {
+            dispatchEvent(JSON.parse(jsonStr) as LipsyncEvent, callbacks);
+          } catch (e) {
+            console.error('解析 SSE 事件失败:', e, jsonStr);
+          }
+        }
+      }
+    }
+  }
+}
+
 /**
  * 流式生成对口型帧
+ * 默认使用二进制传输；服务端返回 SSE 时自动按 SSE 解析
  * @param faceFileId 人脸文件 ID
  * @param audioFileId 音频文件 ID
  * @param options 生成选项
@@ -173,6 +316,7 @@ export async function generateFrames(
   const formData = new FormData();
   formData.append('face_file_id', faceFileId);
   formData.append('audio_file_id', audioFileId);
+  formData.append('transport', options.transport ?? 'binary');
   
   if (options.batchSize) formData.append('batch_size', options.batchSize.toString());
   if (options.outputFps) formData.append('output_fps', options.outputFps.toString());
@@ -194,55 +338,14 @@ export async function generateFrames(
     throw new Error('响应体为空');
   }
   
+  const contentType = response.headers.get('content-type') || '';
   const reader = response.body.getReader();
-  const decoder = new TextDecoder();
-  let buffer = '';
   
   try {
-    while (true) {
-      const { done, value } = await reader.read();
-      
-      if (done) break;
-      
-      buffer += decoder.decode(value, { stream: true });
-      
-      // 解析 SSE 事件
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-      
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const jsonStr = line.slice(6).trim();
-          if (jsonStr && jsonStr !== '[DONE]') {
-            try {
-              const event = JSON.parse(jsonStr) as LipsyncEvent;
-              
-              switch (event.type) {
-                case 'start':
-                  callbacks.onStart?.(event);
-                  break;
-                case 'status':
-                  callbacks.onStatus?.(event);
-                  break;
-                case 'info':
-                  callbacks.onInfo?.(event);
-                  break;
-                case 'frame':
-                  callbacks.onFrame?.(event);
-                  break;
-                case 'complete':
-                  callbacks.onComplete?.(event);
-                  break;
-                case 'error':
-                  callbacks.onError?.(event);
-                  break;
-              }
-            } catch (e) {
-              console.error('解析 SSE 事件失败:', e, jsonStr);
-            }
-          }
-        }
-      }
+    if (contentType.includes(LIPSYNC_BINARY_CONTENT_TYPE)) {
+      await readBinaryStream(reader, callbacks);
+    } else {
+      await readSseStream(reader, callbacks);
     }
   } finally {
     reader.releaseLock();
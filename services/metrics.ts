@@ -0,0 +1,21 @@
+import request from '@/utils/request';
+import type { TurnMetricsReport, TurnMetricsSnapshot } from '@/types/metrics';
+
+/**
+ * 上报轮次计时（失败只打印日志，不影响对话）
+ */
+export async function reportTurnMetrics(report: TurnMetricsReport): Promise<void> {
+  try {
+    await request.post('/api/metrics', report, { timeout: 5000 });
+  } catch (error) {
+    console.warn('上报轮次指标失败:', error);
+  }
+}
+
+/**
+ * 获取服务端聚合的延迟统计
+ * @throws 请求失败时抛出 RequestError
+ */
+export async function getTurnMetrics(): Promise<TurnMetricsSnapshot> {
+  return request.get<TurnMetricsSnapshot>('/api/metrics');
+}
@@ -1,4 +1,5 @@
 import request, { RequestError } from '@/utils/request';
+import type { VoiceSettings } from '@/types/tts';
 
 /** 单次调用腾讯云 TTS 的最大安全字符数（经验值，官方有更低限制） */
 const MAX_TTS_CHARS = 300;
@@ -58,15 +59,16 @@ function splitTextToChunks(text: string): string[] {
 
 /**
  * 文字转语音（自动分段避免超长报错），返回合并后的音频数据
+ * @param voice 音色 / 语速 / 音量（不传使用服务端默认音色）
  */
-export async function textToSpeech(text: string): Promise<ArrayBuffer> {
+export async function textToSpeech(text: string, voice?: VoiceSettings): Promise<ArrayBuffer> {
   const chunks = splitTextToChunks(text);
 
   const audioParts: Uint8Array[] = [];
   for (const chunk of chunks) {
     const data = await request.post<TtsResponse>(
       '/api/tts',
-      { text: chunk },
+      { text: chunk, ...voice },
       { timeout: 30000 } // 单段 30 秒超时
     );
 
@@ -92,6 +94,8 @@ export async function textToSpeech(text: string): Promise<ArrayBuffer> {
 interface StreamEvents {
   onAudio: (bytes: Uint8Array) => void | Promise<void>;
   onStatus?: (status: unknown) => void;
+  /** 音色 / 语速 / 音量（不传使用服务端默认音色） */
+  voice?: VoiceSettings;
   /** AbortSignal 用于取消请求（如用户打断） */
   signal?: AbortSignal;
 }
@@ -112,7 +116,7 @@ export async function streamTextToSpeech(
   const response = await fetch('/api/tts/stream', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ text }),
+    body: JSON.stringify({ text, ...events.voice }),
     signal: events.signal,
   });
 
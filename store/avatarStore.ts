@@ -1,10 +1,19 @@
 import { create } from 'zustand';
-import { AvatarAction, AVATAR_LIST } from '@/types/avatar';
+import type { AvatarAction, AvatarGesture, AvatarModel } from '@/types/avatar';
+import { isAvatarGesture } from '@/types/avatar';
+import { getAvatars } from '@/services/avatars';
+
+/** 动作片段最长等待时间（视频加载失败等情况下不会一直卡住回复） */
+const MAX_GESTURE_WAIT_MS = 10000;
 
 /** Lip-sync 模式 */
 export type LipsyncMode = 'idle' | 'buffering' | 'playing';
 
 interface AvatarState {
+  /** 启用的形象（来自 /api/avatars 形象清单） */
+  avatars: AvatarModel[];
+  /** 形象列表是否已加载 */
+  avatarsLoaded: boolean;
   currentAvatarId: string;
   action: AvatarAction;
   isPlaying: boolean;
@@ -15,8 +24,15 @@ interface AvatarState {
   faceFileId: string | null;      // 当前 avatar 的人脸文件 ID
   
   // Actions
+  /** 加载形象列表（当前形象已停用时切换到默认形象） */
+  loadAvatars: () => Promise<void>;
   setAvatarId: (id: string) => void;
   setAction: (action: AvatarAction) => void;
+  /**
+   * 播放动作片段，片段结束（回到 idle）或被其他动作替换时 resolve
+   * 当前形象没有该片段时直接 resolve
+   */
+  playGesture: (gesture: AvatarGesture, signal?: AbortSignal) => Promise<void>;
   setIsPlaying: (isPlaying: boolean) => void;
   
   // Lip-sync Actions
@@ -25,8 +41,10 @@ interface AvatarState {
   setFaceFileId: (id: string | null) => void;
 }
 
-export const useAvatarStore = create<AvatarState>((set) => ({
-  currentAvatarId: AVATAR_LIST[0].id,
+export const useAvatarStore = create<AvatarState>((set, get) => ({
+  avatars: [],
+  avatarsLoaded: false,
+  currentAvatarId: '',
   action: 'idle',
   isPlaying: true,
   
@@ -35,7 +53,30 @@ export const useAvatarStore = create<AvatarState>((set) => ({
   lipsyncMode: 'idle',    // idle=不显示Canvas, buffering=缓冲中, playing=播放中
   faceFileId: null,
 
-  setAvatarId: (id) => set({ currentAvatarId: id, faceFileId: null }), // 切换 avatar 时清空 faceFileId
+  loadAvatars: async () => {
+    try {
+      const { avatars, defaultAvatarId } = await getAvatars();
+      const { currentAvatarId } = get();
+      const keepCurrent = avatars.some((avatar) => avatar.id === currentAvatarId);
+      set({
+        avatars,
+        avatarsLoaded: true,
+        ...(keepCurrent ? {} : { currentAvatarId: defaultAvatarId, faceFileId: null }),
+      });
+      console.log(`🧑 已加载 ${avatars.length} 个形象`);
+    } catch (error) {
+      console.error('加载形象列表失败:', error);
+      set({ avatarsLoaded: true });
+    }
+  },
+
+  // 切换 avatar 时清空 faceFileId；新形象可能没有正在播放的动作片段，回到 idle
+  setAvatarId: (id) =>
+    set((state) => ({
+      currentAvatarId: id,
+      faceFileId: null,
+      ...(isAvatarGesture(state.action) ? { action: 'idle' as const } : {}),
+    })),
   setAction: (nextAction) =>
     set((state) => {
       // Prevent talk -> dance interruption per state spec
@@ -47,6 +88,29 @@ export const useAvatarStore = create<AvatarState>((set) => ({
       }
       return { action: nextAction };
     }),
+  playGesture: (gesture, signal) => {
+    if (!selectCurrentAvatar(get())?.videos[gesture] || signal?.aborted) {
+      return Promise.resolve();
+    }
+    get().setAction(gesture);
+
+    return new Promise<void>((resolve) => {
+      const finish = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        signal?.removeEventListener('abort', finish);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        if (get().action === gesture) set({ action: 'idle' });
+        finish();
+      }, MAX_GESTURE_WAIT_MS);
+      const unsubscribe = useAvatarStore.subscribe((state) => {
+        if (state.action !== gesture) finish();
+      });
+      signal?.addEventListener('abort', finish);
+    });
+  },
   setIsPlaying: (isPlaying) => set({ isPlaying }),
   
   // Lip-sync Actions
@@ -55,3 +119,9 @@ export const useAvatarStore = create<AvatarState>((set) => ({
   setFaceFileId: (id) => set({ faceFileId: id }),
 }));
 
+
+/**
+ * 当前形象（未加载或没有启用的形象时为 null）
+ */
+export const selectCurrentAvatar = (state: AvatarState): AvatarModel | null =>
+  state.avatars.find((avatar) => avatar.id === state.currentAvatarId) ?? state.avatars[0] ?? null;
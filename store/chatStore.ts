@@ -1,18 +1,32 @@
 import { create } from 'zustand';
 import { Message } from '@/types/chat';
 
+/** 生成会话 ID */
+function createConversationId(): string {
+  return `conv-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
 interface ChatState {
   messages: Message[];
+  /** 当前会话 ID（随 /api/chat 请求发送，用于多轮对话） */
+  conversationId: string;
+  /** 当前会话开始时间戳（毫秒） */
+  startedAt: number;
   
   // Actions
   addMessage: (message: Message) => void;
   updateMessageStatus: (id: string, status: Message['status']) => void;
   updateMessageContent: (id: string, content: string) => void;
+  /** 清空消息（同时开启新会话） */
   clearMessages: () => void;
+  /** 开启新会话（访客离开或手动重置时调用） */
+  newConversation: () => void;
 }
 
 export const useChatStore = create<ChatState>((set) => ({
   messages: [], // 移除初始消息，使用 Welcome 组件展示空状态
+  conversationId: createConversationId(),
+  startedAt: Date.now(),
 
   addMessage: (message) => 
     set((state) => ({ messages: [...state.messages, message] })),
@@ -31,5 +45,7 @@ export const useChatStore = create<ChatState>((set) => ({
       ),
     })),
     
-  clearMessages: () => set({ messages: [] }),
+  clearMessages: () => set({ messages: [], conversationId: createConversationId(), startedAt: Date.now() }),
+
+  newConversation: () => set({ messages: [], conversationId: createConversationId(), startedAt: Date.now() }),
 }));
@@ -0,0 +1,112 @@
+import { create } from 'zustand';
+import type {
+  ConversationEvent,
+  ConversationEventType,
+  ConversationLogEntry,
+  ConversationState,
+} from '@/types/conversation';
+
+/** 事件日志最大条数 */
+const MAX_LOG_ENTRIES = 200;
+
+/** 状态转移目标：固定状态，或根据事件内容决定 */
+type TransitionTarget = ConversationState | ((event: ConversationEvent) => ConversationState);
+
+/**
+ * 状态转移表：未列出的事件在该状态下会被拒绝
+ * ERROR 和 RESET 在任何状态下都允许
+ */
+const TRANSITIONS: Record<ConversationState, Partial<Record<ConversationEventType, TransitionTarget>>> = {
+  idle: { WAKE: 'wake', LISTEN: 'listening', SUBMIT: 'thinking' },
+  wake: { LISTEN: 'listening', SUBMIT: 'thinking', STOP_LISTENING: 'idle' },
+  listening: { SPEECH: 'recognizing', SUBMIT: 'thinking', STOP_LISTENING: 'idle' },
+  recognizing: { SPEECH: 'recognizing', SUBMIT: 'thinking', STOP_LISTENING: 'idle' },
+  thinking: { SPEAK: 'speaking', REPLY_END: 'idle', INTERRUPT: 'interrupted' },
+  speaking: {
+    SPEAK: 'speaking',
+    REPLY_END: (event) => (event.type === 'REPLY_END' && event.followUp ? 'followUp' : 'idle'),
+    INTERRUPT: 'interrupted',
+  },
+  followUp: { LISTEN: 'followUp', SPEECH: 'recognizing', SUBMIT: 'thinking', STOP_LISTENING: 'idle' },
+  interrupted: { WAKE: 'wake', LISTEN: 'listening', SUBMIT: 'thinking' },
+  error: { WAKE: 'wake', LISTEN: 'listening', SUBMIT: 'thinking' },
+};
+
+/**
+ * 计算事件的目标状态
+ * @returns 目标状态；当前状态不允许该事件时返回 null
+ */
+function resolveTransition(state: ConversationState, event: ConversationEvent): ConversationState | null {
+  if (event.type === 'ERROR') return 'error';
+  if (event.type === 'RESET') return 'idle';
+
+  const target = TRANSITIONS[state][event.type];
+  if (!target) return null;
+  return typeof target === 'function' ? target(event) : target;
+}
+
+interface ConversationStore {
+  /** 当前状态 */
+  state: ConversationState;
+  /** 最近一次错误信息（离开 error 状态后清空） */
+  error: string | null;
+  /** 事件日志（最近 MAX_LOG_ENTRIES 条，包括被拒绝的事件） */
+  log: ConversationLogEntry[];
+
+  /**
+   * 发送事件
+   * @returns 是否被接受（当前状态不允许该事件时返回 false，状态不变）
+   */
+  send: (event: ConversationEvent) => boolean;
+  /** 清空事件日志 */
+  clearLog: () => void;
+}
+
+/**
+ * 对话状态机
+ * 对话轮次的生命周期（唤醒 → 录音 → 识别 → 思考 → 回答 → 继续对话，以及打断和出错）统一由这里管理，
+ * Hook 和组件通过 send 发送事件、订阅 state 派生界面状态
+ */
+export const useConversationStore = create<ConversationStore>((set, get) => ({
+  state: 'idle',
+  error: null,
+  log: [],
+
+  send: (event) => {
+    const from = get().state;
+    const to = resolveTransition(from, event);
+    const entry: ConversationLogEntry = {
+      at: Date.now(),
+      event: event.type,
+      from,
+      to: to ?? from,
+      accepted: to !== null,
+      detail: event.type === 'ERROR' ? event.message : undefined,
+    };
+
+    if (to !== null && to !== from) {
+      console.log(`🔄 对话状态: ${from} → ${to} (${event.type})`);
+    }
+
+    set((store) => ({
+      state: to ?? from,
+      error: event.type === 'ERROR' ? event.message : to !== null && to !== 'error' ? null : store.error,
+      log: [...store.log, entry].slice(-MAX_LOG_ENTRIES),
+    }));
+
+    return to !== null;
+  },
+
+  clearLog: () => set({ log: [] }),
+}));
+
+/** 是否正在处理回复（思考或回答中） */
+export const selectIsProcessing = (store: ConversationStore) =>
+  store.state === 'thinking' || store.state === 'speaking';
+
+/** 是否正在聆听（唤醒后、录音、识别或继续对话窗口中） */
+export const selectIsListening = (store: ConversationStore) =>
+  store.state === 'wake' ||
+  store.state === 'listening' ||
+  store.state === 'recognizing' ||
+  store.state === 'followUp';
@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/** 输入方式：仅语音 | 仅文字 | 语音 + 文字 */
+export type InputMode = 'voice' | 'text' | 'both';
+
+const INPUT_MODES: readonly InputMode[] = ['voice', 'text', 'both'];
+
+/** 默认输入方式（NEXT_PUBLIC_INPUT_MODE，默认 both） */
+function getDefaultInputMode(): InputMode {
+  const mode = process.env.NEXT_PUBLIC_INPUT_MODE as InputMode | undefined;
+  return mode && INPUT_MODES.includes(mode) ? mode : 'both';
+}
+
+interface InputState {
+  /** 输入方式 */
+  inputMode: InputMode;
+  /** 是否使用屏幕键盘（触屏一体机，无实体键盘） */
+  onScreenKeyboard: boolean;
+  setInputMode: (mode: InputMode) => void;
+  setOnScreenKeyboard: (enabled: boolean) => void;
+}
+
+/**
+ * 输入方式设置
+ * 默认值来自环境变量，现场工作人员可在控制台修改（保存在本地，刷新后保留）
+ */
+export const useInputStore = create<InputState>()(
+  persist(
+    (set) => ({
+      inputMode: getDefaultInputMode(),
+      onScreenKeyboard: process.env.NEXT_PUBLIC_ON_SCREEN_KEYBOARD === 'true',
+      setInputMode: (mode) => {
+        if (!INPUT_MODES.includes(mode)) {
+          console.error(`未知的输入方式 "${mode}"，可选: ${INPUT_MODES.join(' | ')}`);
+          return;
+        }
+        set({ inputMode: mode });
+      },
+      setOnScreenKeyboard: (enabled) => set({ onScreenKeyboard: enabled }),
+    }),
+    {
+      name: 'x-mozi-input',
+    }
+  )
+);
+
+/** 是否允许语音输入 */
+export const selectVoiceInputEnabled = (state: InputState) => state.inputMode !== 'text';
+/** 是否允许文字输入 */
+export const selectTextInputEnabled = (state: InputState) => state.inputMode !== 'voice';
@@ -1,23 +1,29 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { AsrEngineSetting } from '@/types/asr';
 
 export type Language = 'zh' | 'en';
 
 interface LanguageState {
   language: Language;
+  /** 语音识别引擎（auto: 跟随当前语言） */
+  asrEngine: AsrEngineSetting;
   setLanguage: (lang: Language) => void;
   toggleLanguage: () => void;
+  setAsrEngine: (engine: AsrEngineSetting) => void;
 }
 
 export const useLanguageStore = create<LanguageState>()(
   persist(
     (set, get) => ({
       language: 'zh',
+      asrEngine: 'auto',
       setLanguage: (lang) => set({ language: lang }),
       toggleLanguage: () => {
         const next = get().language === 'zh' ? 'en' : 'zh';
         set({ language: next });
       },
+      setAsrEngine: (engine) => set({ asrEngine: engine }),
     }),
     {
       name: 'x-mozi-language',
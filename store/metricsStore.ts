@@ -0,0 +1,106 @@
+import { create } from 'zustand';
+import type { TurnMark, TurnOutcome, TurnTiming } from '@/types/metrics';
+import { SPEECH_END_MAX_AGE_MS, MAX_RECENT_TURNS } from '@/constants/metrics';
+import { reportTurnMetrics } from '@/services/metrics';
+
+interface MetricsState {
+  /** 当前轮次（未开始或已结束时为 null） */
+  currentTurn: TurnTiming | null;
+  /** 最近结束的轮次（新的在前） */
+  recentTurns: TurnTiming[];
+  /** 是否显示调试浮层 */
+  overlayVisible: boolean;
+
+  /** 记录用户语音结束（客户端 VAD），作为下一轮次的开始时间 */
+  noteSpeechEnd: () => void;
+  /** 记录收到最终识别结果（同一轮次可能有多句，以最后一句为准） */
+  noteAsrFinal: () => void;
+  /** 开始新轮次（提交用户输入时） */
+  startTurn: () => void;
+  /** 记录计时点（每个计时点只记录第一次，没有进行中的轮次时忽略） */
+  mark: (name: TurnMark) => void;
+  /** 结束当前轮次并上报 */
+  endTurn: (outcome: TurnOutcome) => void;
+  setOverlayVisible: (visible: boolean) => void;
+}
+
+/** 最近一次用户语音结束的时间（performance.now()） */
+let speechEndedAt: number | null = null;
+/** 最近一次收到最终识别结果的时间（performance.now()） */
+let asrFinalAt: number | null = null;
+/** 当前轮次开始的时间（performance.now()），计时点以此为基准 */
+let turnOrigin = 0;
+
+/**
+ * 轮次延迟计时
+ * 各 Hook 在关键节点调用 mark，轮次结束时上报 POST /api/metrics，并在调试浮层中显示
+ */
+export const useMetricsStore = create<MetricsState>((set, get) => ({
+  currentTurn: null,
+  recentTurns: [],
+  overlayVisible: false,
+
+  noteSpeechEnd: () => {
+    speechEndedAt = performance.now();
+  },
+
+  noteAsrFinal: () => {
+    asrFinalAt = performance.now();
+  },
+
+  startTurn: () => {
+    const now = performance.now();
+    const speechEnd = speechEndedAt !== null && now - speechEndedAt < SPEECH_END_MAX_AGE_MS ? speechEndedAt : null;
+    const asrFinal = asrFinalAt !== null && now - asrFinalAt < SPEECH_END_MAX_AGE_MS ? asrFinalAt : null;
+    turnOrigin = speechEnd ?? now;
+    speechEndedAt = null;
+    asrFinalAt = null;
+
+    // 语音输入：识别结果可能早于 VAD 判定的语音结束，记为 0；提交时间包含等待识别结束的时间
+    const marks: TurnTiming['marks'] = {};
+    if (speechEnd !== null) {
+      if (asrFinal !== null) marks.asrFinal = Math.max(0, Math.round(asrFinal - turnOrigin));
+      marks.submit = Math.round(now - turnOrigin);
+    }
+
+    set({
+      currentTurn: {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+        startedAt: Date.now() - (now - turnOrigin),
+        marks,
+      },
+    });
+  },
+
+  mark: (name) => {
+    const turn = get().currentTurn;
+    if (!turn || turn.marks[name] !== undefined) return;
+    set({
+      currentTurn: {
+        ...turn,
+        marks: { ...turn.marks, [name]: Math.round(performance.now() - turnOrigin) },
+      },
+    });
+  },
+
+  endTurn: (outcome) => {
+    const turn = get().currentTurn;
+    if (!turn) return;
+
+    const finished: TurnTiming = {
+      ...turn,
+      marks: { ...turn.marks, turnEnd: Math.round(performance.now() - turnOrigin) },
+      outcome,
+    };
+    console.log('⏱️ 轮次计时:', finished.marks, outcome);
+
+    set((state) => ({
+      currentTurn: null,
+      recentTurns: [finished, ...state.recentTurns].slice(0, MAX_RECENT_TURNS),
+    }));
+
+    reportTurnMetrics({ outcome, marks: finished.marks });
+  },
+
+  setOverlayVisible: (visible) => set({ overlayVisible: visible }),
+}));
@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+
+/** 正在播放的回复句子 */
+export interface SubtitleSentence {
+  text: string;
+  /** TTS 任务顺序号 */
+  order: number;
+  /** 开始播放的时间（performance.now()） */
+  startedAt: number;
+  /** 音频时长（毫秒，未知时不做逐字高亮） */
+  durationMs?: number;
+}
+
+interface SubtitleState {
+  /** 是否显示字幕 */
+  enabled: boolean;
+  /** 用户说话的实时识别文本 */
+  userText: string;
+  /** 数字人正在说的句子 */
+  sentence: SubtitleSentence | null;
+
+  // Actions
+  setEnabled: (enabled: boolean) => void;
+  setUserText: (text: string) => void;
+  /** 开始回复：显示用户的问题，清空上一轮的句子 */
+  startReply: (question: string) => void;
+  /** 开始播放一句回复 */
+  showSentence: (sentence: Omit<SubtitleSentence, 'startedAt'>) => void;
+  /** 清空字幕（新一轮开始时） */
+  clear: () => void;
+}
+
+/**
+ * 字幕状态
+ * 聆听时显示用户的实时识别文本，回答时显示正在播放的句子（由播放器在每句开始播放时更新）
+ */
+export const useSubtitleStore = create<SubtitleState>((set) => ({
+  enabled: true,
+  userText: '',
+  sentence: null,
+
+  setEnabled: (enabled) => set({ enabled }),
+  setUserText: (text) => set({ userText: text }),
+  startReply: (question) => set({ userText: question, sentence: null }),
+  showSentence: (sentence) => set({ sentence: { ...sentence, startedAt: performance.now() } }),
+  clear: () => set({ userText: '', sentence: null }),
+}));
@@ -1,40 +1,34 @@
 import { create } from 'zustand';
+import { useConversationStore, selectIsListening, selectIsProcessing } from '@/store/conversationStore';
 
-/** 处理阶段 */
-export type ProcessingPhase = 'idle' | 'thinking' | 'speaking';
-
+/**
+ * 唤醒与对话模式设置
+ * 对话轮次的状态（录音、思考、回答等）由 conversationStore 状态机管理
+ */
 interface WakeState {
-  /** 是否正在录音 */
-  isRecording: boolean;
-  /** 是否正在处理（AI 思考或播放中） */
-  isProcessing: boolean;
-  /** 当前处理阶段 */
-  phase: ProcessingPhase;
+  /** 是否启用插话打断（全双工：数字人说话时保持麦克风开启，用户说话即打断） */
+  bargeInEnabled: boolean;
+  /** 继续对话：回复结束后自动聆听的时长（秒，0 表示关闭） */
+  followUpSeconds: number;
 
   // Actions
-  setIsRecording: (isRecording: boolean) => void;
-  setIsProcessing: (isProcessing: boolean) => void;
-  setPhase: (phase: ProcessingPhase) => void;
-  /** 重置所有状态到空闲（用于打断场景） */
-  reset: () => void;
+  setBargeInEnabled: (enabled: boolean) => void;
+  setFollowUpSeconds: (seconds: number) => void;
 }
 
 export const useWakeStore = create<WakeState>((set) => ({
-  isRecording: false,
-  isProcessing: false,
-  phase: 'idle',
+  bargeInEnabled: false,
+  followUpSeconds: 0,
 
-  setIsRecording: (isRecording) => set({ isRecording }),
-  setIsProcessing: (isProcessing) => set({ isProcessing }),
-  setPhase: (phase) => set({ phase }),
-  reset: () => set({ isProcessing: false, phase: 'idle' }),
+  setBargeInEnabled: (enabled) => set({ bargeInEnabled: enabled }),
+  setFollowUpSeconds: (seconds) => set({ followUpSeconds: Math.max(0, seconds) }),
 }));
 
 /**
  * 计算是否应该禁用唤醒
- * 当正在录音或 AI 正在处理时禁用
+ * 当正在聆听或 AI 正在处理时禁用
  */
 export const selectShouldDisableWake = () => {
-  const { isRecording, isProcessing } = useWakeStore.getState();
-  return isProcessing || isRecording;
+  const conversation = useConversationStore.getState();
+  return selectIsProcessing(conversation) || selectIsListening(conversation);
 };
@@ -2,6 +2,33 @@
  * ASR (语音识别) 相关类型定义
  */
 
+/**
+ * 腾讯云 ASR 引擎模型类型（16k 采样率）
+ * - 16k_zh: 中文普通话
+ * - 16k_zh-PY: 中英粤混合
+ * - 16k_zh_dialect: 多方言
+ * - 16k_en: 英语
+ * - 16k_yue: 粤语
+ * - 16k_ja: 日语
+ * - 16k_ko: 韩语
+ * @see https://cloud.tencent.com/document/product/1093/48982
+ */
+export type AsrEngine =
+  | '16k_zh'
+  | '16k_zh-PY'
+  | '16k_zh_dialect'
+  | '16k_en'
+  | '16k_yue'
+  | '16k_ja'
+  | '16k_ko';
+
+/**
+ * ASR 引擎设置
+ * - auto: 每次识别会话根据当前语言选择引擎
+ * - 其他: 固定使用指定引擎
+ */
+export type AsrEngineSetting = AsrEngine | 'auto';
+
 /**
  * 腾讯云实时 ASR 响应类型
  * @see https://cloud.tencent.com/document/product/1093/48982
@@ -15,12 +42,16 @@ export interface TencentAsrResponse {
   voice_id?: string;
   /** 识别结果 */
   result?: TencentAsrResult;
+  /** 为 1 时表示整个识别结束（收到客户端 end 后的最后一条消息） */
+  final?: number;
 }
 
 /**
  * 腾讯云 ASR 识别结果
  */
 export interface TencentAsrResult {
+  /** 句子序号 */
+  index?: number;
   /** 
    * 识别结果类型
    * - 0: 一段话开始
@@ -46,12 +77,49 @@ export interface TencentAsrWord {
   end_time: number;
 }
 
+/**
+ * 识别出的词（统一格式）
+ */
+export interface AsrWord {
+  /** 词内容 */
+  text: string;
+  /** 开始时间（毫秒，相对音频流开始） */
+  startMs: number;
+  /** 结束时间（毫秒，相对音频流开始） */
+  endMs: number;
+  /** 置信度（0-1，识别服务提供时才有） */
+  confidence?: number;
+}
+
+/**
+ * 流式识别事件（与识别服务无关）
+ * 由服务端 ASR 代理把上游消息转换后下发，前端 Hook 只处理这一种格式
+ * - partial: 当前句子的临时结果，同一句子的后续结果会整体替换
+ * - final: 当前句子识别完成（VAD 检测到句尾），文本不再变化
+ * - endpoint: 识别结束，之后不会再有结果
+ * - error: 识别服务或代理出错
+ */
+export type AsrEvent =
+  | {
+      type: 'partial' | 'final';
+      /** 句子序号（从 0 开始） */
+      sentenceIndex: number;
+      /** 句子文本 */
+      text: string;
+      /** 词级别时间戳（识别服务提供时才有） */
+      words?: AsrWord[];
+      /** 整句置信度（0-1，识别服务提供时才有） */
+      confidence?: number;
+    }
+  | { type: 'endpoint' }
+  | { type: 'error'; code: number; message: string };
+
 /**
  * 实时 ASR 参数配置
  */
 export interface RealtimeAsrParams {
   /** 引擎模型类型，如 16k_zh */
-  engine_model_type: string;
+  engine_model_type: AsrEngine;
   /** 音频格式：1-pcm, 4-speex, 6-silk, 8-mp3, 10-opus, 12-wav, 14-m4a */
   voice_format: number;
   /** 是否需要 VAD（0: 关闭, 1: 开启） */
@@ -0,0 +1,43 @@
+/**
+ * 录音（AudioWorklet）相关类型定义
+ */
+
+/**
+ * 录音处理器的 VAD 参数（通过 AudioWorkletNode 的 processorOptions.vad 传入）
+ * 未传入的字段使用 public/audio-processor.js 中的默认值
+ */
+export interface RecorderVadOptions {
+  /** 是否启用 VAD（默认关闭，只转发音频） */
+  enabled: boolean;
+  /** 语音结束前需要持续的静音时长（毫秒） */
+  hangoverMs?: number;
+  /** 判定为语音开始需要的语音时长（毫秒） */
+  minSpeechMs?: number;
+  /** 静音超过该时长后暂停发送音频（毫秒，0 表示不暂停） */
+  pauseAfterMs?: number;
+  /** 恢复发送时补发的音频时长（毫秒） */
+  preRollMs?: number;
+  /** 语音帧能量需高于噪声基底的幅度（dB） */
+  thresholdDb?: number;
+}
+
+/**
+ * 录音处理器发送给主线程的消息
+ * - audio: 音频数据（单声道，AudioContext 采样率）
+ * - speech-start: 检测到语音开始
+ * - speech-end: 检测到语音结束（已持续 hangoverMs 静音），durationMs 为语音时长
+ */
+export type RecorderMessage =
+  | { type: 'audio'; samples: Float32Array }
+  | { type: 'speech-start' }
+  | { type: 'speech-end'; durationMs: number };
+
+/**
+ * 移交给新一轮识别的音频（插话打断时已采集的音频和麦克风流）
+ */
+export interface CapturedAudioHandoff {
+  /** 麦克风音频流（移交后由识别方负责停止） */
+  stream: MediaStream;
+  /** 取出已采集的 PCM（16k 16 位单声道），调用后采集方停止采集 */
+  takeAudio: () => ArrayBuffer[];
+}
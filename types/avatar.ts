@@ -1,60 +1,120 @@
-export type AvatarAction = 'idle' | 'talk' | 'dance' | 'think';
+import type { Language } from '@/store/languageStore';
+import type { VoiceSettings } from '@/types/tts';
+import { DEFAULT_VOICE_TYPE } from '@/constants/tts';
+
+/**
+ * 动作片段（形象可选配置）
+ * 根据回复的情绪 / 意图播放一次：greet 打招呼、nod 点头赞同、laugh 大笑、wave 挥手道别
+ */
+export type AvatarGesture = 'greet' | 'nod' | 'laugh' | 'wave';
+
+export const AVATAR_GESTURES: readonly AvatarGesture[] = ['greet', 'nod', 'laugh', 'wave'];
+
+export type AvatarAction = 'idle' | 'talk' | 'dance' | 'think' | AvatarGesture;
+
+/** 各语言使用的音色 */
+export type AvatarVoices = Record<Language, VoiceSettings>;
+
+/** 各语言的文本 */
+export type LocalizedText = Record<Language, string>;
 
 export interface AvatarModel {
   id: string;
-  name: string;
-  thumbnail: string;   // 预览缩略图：/avatars/avatar-${id}-preview.png
-  faceImage: string;   // 对口型全身照：/avatars/avatar-${id}.png
+  /** 各语言的显示名称 */
+  name: LocalizedText;
+  thumbnail: string;   // 预览缩略图
+  /** 对口型源（上传到 Wav2Lip 的人脸视频或图片） */
+  lipsyncSource: string;
   videos: {
     idle: string;
     talk: string;
     dance: string;
     think: string;     // 思考/等待动画
+    // 动作片段（可选，未配置的动作不会播放）
+    greet?: string;
+    nod?: string;
+    laugh?: string;
+    wave?: string;
   };
+  voice: AvatarVoices; // 各语言的 TTS 音色
 }
 
 /**
- * 创建 Avatar 模型数据
- * @param id Avatar ID
- * @param name 显示名称
- */
-function createAvatar(id: string, name: string): AvatarModel {
-  const basePath = `/videos/avatar-${id}`;
-  return {
-    id,
-    name,
-    thumbnail: `/avatars/avatar-${id}-preview.png`,  // 预览图
-    faceImage: `${basePath}/avatar-${id}-talk.mp4`,  // 对口型视频源
-    videos: {
-      idle: `${basePath}/avatar-${id}-idle.mp4`,
-      talk: `${basePath}/avatar-${id}-talk.mp4`,
-      dance: `${basePath}/avatar-${id}-dance.mp4`,
-      think: `${basePath}/avatar-${id}-think.mp4`,   // 等待生成时播放
-    },
-  };
+ * Avatar 清单中的形象（服务端，manifest.json 校验后的结果）
+ * persona 只在服务端使用，不下发给前端
+ */
+export interface AvatarManifestEntry extends AvatarModel {
+  /** 是否启用（停用的形象不下发给前端） */
+  enabled: boolean;
+  /** 各语言的人设（覆盖默认系统提示词中的人设，可选） */
+  persona?: Partial<LocalizedText>;
+}
+
+/**
+ * GET /api/avatars 返回的形象列表
+ */
+export interface AvatarListResponse {
+  avatars: AvatarModel[];
+  /** 默认形象 ID */
+  defaultAvatarId: string;
 }
 
+/** 默认音色配置 */
+export const DEFAULT_AVATAR_VOICES: AvatarVoices = {
+  zh: { voiceType: DEFAULT_VOICE_TYPE },
+  en: { voiceType: 101050 },  // WeJack 英文男声
+};
+
 /**
- * Avatar 形象列表
+ * 获取 Avatar 在指定语言下的音色（没有形象时使用默认音色）
  */
-export const AVATAR_LIST: AvatarModel[] = [
-  // createAvatar('1', '形象 1'),
-  createAvatar('2', '形象 2'),
-  // createAvatar('3', '形象 3'),
-  // createAvatar('4', '形象 4'),
-  // createAvatar('5', '形象 5'),
-];
+export function getAvatarVoice(avatar: AvatarModel | null, language: Language): VoiceSettings {
+  return avatar?.voice[language] ?? DEFAULT_AVATAR_VOICES[language];
+}
+
+/**
+ * 判断是否为动作片段
+ */
+export function isAvatarGesture(value: unknown): value is AvatarGesture {
+  return AVATAR_GESTURES.includes(value as AvatarGesture);
+}
+
+/**
+ * 获取 Avatar 配置了视频的动作片段
+ */
+export function getAvatarGestures(avatar: AvatarModel | null): AvatarGesture[] {
+  return AVATAR_GESTURES.filter((gesture) => avatar?.videos[gesture]);
+}
+
+/**
+ * 获取 Avatar 在指定语言下的名称
+ */
+export function getAvatarName(avatar: AvatarModel, language: Language): string {
+  return avatar.name[language] || avatar.name.zh || avatar.id;
+}
+
+/**
+ * 形象管理接口返回的形象（包含启用状态，人设不返回）
+ */
+export interface AvatarDetail extends AvatarModel {
+  enabled: boolean;
+}
 
 /**
- * 根据 ID 获取 Avatar
+ * 对口型预注册结果（上传 talk 视频到 Wav2Lip）
+ * 失败不影响形象保存，切换到该形象时会重新上传
  */
-export function getAvatarById(id: string): AvatarModel | undefined {
-  return AVATAR_LIST.find(avatar => avatar.id === id);
+export interface AvatarLipsyncRegistration {
+  registered: boolean;
+  fileId?: string;
+  error?: string;
 }
 
 /**
- * 获取默认 Avatar
+ * POST /api/avatars、PUT /api/avatars/[id] 的返回
  */
-export function getDefaultAvatar(): AvatarModel {
-  return AVATAR_LIST[0];
+export interface AvatarSaveResponse {
+  avatar: AvatarDetail;
+  /** 上传了 talk 视频时才有 */
+  lipsync?: AvatarLipsyncRegistration;
 }
@@ -1,3 +1,5 @@
+import type { Language } from '@/store/languageStore';
+
 export interface Message {
   id: string;
   role: 'user' | 'ai';
@@ -6,3 +8,35 @@ export interface Message {
   timestamp: number;
 }
 
+
+/**
+ * 持久化的会话记录（IndexedDB 及服务端会话存储）
+ */
+export interface ConversationRecord {
+  /** 会话 ID（与 /api/chat 的 conversationId 一致） */
+  id: string;
+  /** 会话语言（最后一次保存时的界面语言） */
+  language: Language;
+  /** 开始时间戳（毫秒） */
+  startedAt: number;
+  /** 最后更新时间戳（毫秒） */
+  updatedAt: number;
+  messages: Message[];
+}
+
+/**
+ * 会话列表项（不含消息内容）
+ */
+export interface ConversationSummary {
+  id: string;
+  language: Language;
+  startedAt: number;
+  updatedAt: number;
+  /** 消息数 */
+  messageCount: number;
+  /** 第一条用户消息（用于列表预览） */
+  preview: string;
+}
+
+/** 会话导出格式 */
+export type TranscriptFormat = 'json' | 'markdown';
@@ -0,0 +1,70 @@
+/**
+ * 对话状态机相关类型定义
+ */
+
+/**
+ * 对话状态
+ * - idle: 空闲（等待唤醒或点击）
+ * - wake: 已唤醒，准备开始录音
+ * - listening: 录音中，尚未检测到语音
+ * - recognizing: 识别中（已检测到语音）
+ * - thinking: 等待 AI 回复
+ * - speaking: 数字人回答中
+ * - followUp: 回答结束后的继续对话聆听窗口
+ * - interrupted: 回答被打断
+ * - error: 出错
+ */
+export type ConversationState =
+  | 'idle'
+  | 'wake'
+  | 'listening'
+  | 'recognizing'
+  | 'thinking'
+  | 'speaking'
+  | 'followUp'
+  | 'interrupted'
+  | 'error';
+
+/**
+ * 对话事件
+ * - WAKE: 语音/摄像头唤醒
+ * - LISTEN: 开始录音
+ * - SPEECH: 检测到用户语音（收到识别中间结果）
+ * - STOP_LISTENING: 录音结束且没有识别结果
+ * - SUBMIT: 提交用户输入，开始请求回复
+ * - SPEAK: 开始播放回答
+ * - REPLY_END: 回答完整播放结束（followUp 为 true 时进入继续对话）
+ * - INTERRUPT: 打断回答
+ * - ERROR: 出错
+ * - RESET: 回到空闲
+ */
+export type ConversationEvent =
+  | { type: 'WAKE' }
+  | { type: 'LISTEN' }
+  | { type: 'SPEECH' }
+  | { type: 'STOP_LISTENING' }
+  | { type: 'SUBMIT' }
+  | { type: 'SPEAK' }
+  | { type: 'REPLY_END'; followUp: boolean }
+  | { type: 'INTERRUPT' }
+  | { type: 'ERROR'; message: string }
+  | { type: 'RESET' };
+
+/** 对话事件类型 */
+export type ConversationEventType = ConversationEvent['type'];
+
+/** 事件日志条目 */
+export interface ConversationLogEntry {
+  /** 时间戳（毫秒） */
+  at: number;
+  /** 事件类型 */
+  event: ConversationEventType;
+  /** 事件发生时的状态 */
+  from: ConversationState;
+  /** 事件处理后的状态（被拒绝时与 from 相同） */
+  to: ConversationState;
+  /** 是否被接受（当前状态不允许该事件时拒绝） */
+  accepted: boolean;
+  /** 附加信息（如错误信息） */
+  detail?: string;
+}
@@ -12,16 +12,83 @@ declare namespace NodeJS {
     TENCENT_SECRET_KEY?: string;
     /** 腾讯云代理地址（可选） */
     TENCENT_PROXY?: string;
+    /** 腾讯云地域（流式 TTS，默认 ap-beijing） */
+    TENCENT_REGION?: string;
+
+    /** 管理接口令牌（Authorization: Bearer <token>），未配置时管理接口不可用 */
+    ADMIN_TOKEN?: string;
+
+    /** 语音识别 Provider：tencent | mock（默认 tencent） */
+    ASR_PROVIDER?: string;
+    /** 实时 ASR 代理端口（仅监听 127.0.0.1，默认 8766） */
+    ASR_PROXY_PORT?: string;
+    /** 实时 ASR 单个会话最长时长（秒，默认 300） */
+    ASR_SESSION_MAX_SECONDS?: string;
+    /** 实时 ASR 会话令牌签名密钥（可选，默认每个进程随机生成） */
+    ASR_SESSION_SECRET?: string;
+    /** ASR mock WebSocket 服务端口（默认 8765） */
+    ASR_MOCK_PORT?: string;
+    /** ASR mock 识别脚本 JSON 文件路径（可选） */
+    ASR_MOCK_SCRIPT?: string;
+    /** 语音合成 Provider：tencent | mock（默认 tencent） */
+    TTS_PROVIDER?: string;
+
+    /** TTS 缓存存储：memory | disk | off（默认 memory） */
+    TTS_CACHE?: string;
+    /** TTS 磁盘缓存目录（默认 .cache/tts） */
+    TTS_CACHE_DIR?: string;
+    /** TTS 缓存最大容量（MB，默认 100） */
+    TTS_CACHE_MAX_MB?: string;
+    /** TTS 缓存过期时间（小时，默认 168） */
+    TTS_CACHE_TTL_HOURS?: string;
     
+    /** 服务端会话存储：off | memory | disk（默认 off） */
+    CONVERSATION_STORE?: string;
+    /** 会话磁盘存储目录（默认 .data/conversations） */
+    CONVERSATION_STORE_DIR?: string;
+
+    /** 对话服务 Provider：coze | openai | mock（默认 coze） */
+    CHAT_PROVIDER?: string;
+    /** 按语言覆盖系统提示词的 JSON 文件路径（可选） */
+    CHAT_PROMPTS_FILE?: string;
+    /** mock 对话脚本 JSON 文件路径（可选） */
+    CHAT_MOCK_SCRIPT?: string;
+
     /** Coze API Key */
     COZE_API_KEY?: string;
     /** Coze Bot ID */
     COZE_BOT_ID?: string;
+    /** Coze API 地址（可选，默认 coze.com） */
+    COZE_BASE_URL?: string;
+    /** 接收系统提示词的 Coze Bot 变量名（可选） */
+    COZE_INSTRUCTIONS_VARIABLE?: string;
+
+    /** OpenAI 兼容服务地址（包含 /v1） */
+    OPENAI_BASE_URL?: string;
+    /** OpenAI 兼容服务 API Key（本地模型可不填） */
+    OPENAI_API_KEY?: string;
+    /** OpenAI 兼容服务模型名称 */
+    OPENAI_MODEL?: string;
     
+    /** 形象清单 JSON 文件路径（可选，默认读取 config/avatars.json，管理接口写入 AVATAR_MEDIA_DIR/manifest.json） */
+    AVATAR_MANIFEST?: string;
+    /** 上传的形象素材和运行时清单目录（默认 .data/avatars） */
+    AVATAR_MEDIA_DIR?: string;
+
     /** Wav2Lip 后端服务地址 */
     WAV2LIP_BASE_URL?: string;
+    /** Wav2Lip 后端提供 HEAD /api/files/face/:file_id 时设为 true，复用缓存的人脸 file_id 前先检查 */
+    WAV2LIP_FACE_CHECK?: string;
+    /** Wav2Lip mock 生成速度（相对实时的倍数，默认 2） */
+    WAV2LIP_MOCK_SPEED?: string;
+    /** 生产环境启用 Wav2Lip mock 路由（true，开发环境默认启用） */
+    WAV2LIP_MOCK_ENABLED?: string;
     /** 是否启用 Lip-sync（客户端可见） */
     NEXT_PUBLIC_LIPSYNC_ENABLED?: string;
+    /** 输入方式：voice | text | both（客户端可见，默认 both） */
+    NEXT_PUBLIC_INPUT_MODE?: string;
+    /** 是否使用屏幕键盘（客户端可见，true 开启） */
+    NEXT_PUBLIC_ON_SCREEN_KEYBOARD?: string;
     
     /** Node 环境 */
     NODE_ENV: 'development' | 'production' | 'test';
@@ -0,0 +1,69 @@
+/**
+ * 轮次延迟指标相关类型定义
+ */
+
+/**
+ * 轮次计时点（相对轮次开始的毫秒数）
+ * 轮次开始于用户语音结束（客户端 VAD 检测到），没有语音时（文本输入）开始于提交
+ * - asrFinal: 拿到最后一个最终识别结果（识别结果早于语音结束时为 0）
+ * - submit: 提交用户输入（识别结束后）
+ * - chatFirstToken: 收到第一个对话 token
+ * - firstSentence: 提取出第一个完整句子
+ * - firstTtsAudio: 收到第一段 TTS 音频
+ * - lipsyncFirstFrame: 第一帧口型画面就绪
+ * - playbackStart: 开始播放回答
+ * - turnEnd: 轮次结束（播放完成、打断或出错）
+ */
+export type TurnMark =
+  | 'asrFinal'
+  | 'submit'
+  | 'chatFirstToken'
+  | 'firstSentence'
+  | 'firstTtsAudio'
+  | 'lipsyncFirstFrame'
+  | 'playbackStart'
+  | 'turnEnd';
+
+/** 轮次结果 */
+export type TurnOutcome = 'completed' | 'interrupted' | 'error';
+
+/** 单个轮次的计时 */
+export interface TurnTiming {
+  /** 轮次 ID */
+  id: string;
+  /** 开始时间戳（毫秒） */
+  startedAt: number;
+  /** 各计时点（只记录第一次） */
+  marks: Partial<Record<TurnMark, number>>;
+  /** 轮次结果（进行中为空） */
+  outcome?: TurnOutcome;
+}
+
+/** 上报给 POST /api/metrics 的轮次数据 */
+export interface TurnMetricsReport {
+  outcome: TurnOutcome;
+  marks: Partial<Record<TurnMark, number>>;
+}
+
+/** 单个计时点的统计（毫秒） */
+export interface MetricSummary {
+  count: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+/** GET /api/metrics 返回的统计 */
+export interface TurnMetricsSnapshot {
+  /** 开始统计的时间（ISO 字符串，服务重启后重置） */
+  since: string;
+  /** 上报的轮次数 */
+  turns: number;
+  /** 各结果的轮次数 */
+  outcomes: Record<TurnOutcome, number>;
+  /** 各计时点的统计（基于最近的样本） */
+  marks: Partial<Record<TurnMark, MetricSummary>>;
+}
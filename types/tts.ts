@@ -0,0 +1,37 @@
+/**
+ * TTS (语音合成) 相关类型定义
+ */
+
+import type { Language } from '@/store/languageStore';
+
+/** 音色性别 */
+export type VoiceGender = 'male' | 'female' | 'child';
+
+/**
+ * 音色信息
+ * @see https://cloud.tencent.com/document/product/1073/92668
+ */
+export interface VoiceInfo {
+  /** 腾讯云音色 ID（TextToVoice 的 VoiceType） */
+  voiceType: number;
+  /** 音色名称 */
+  name: string;
+  /** 适用语言 */
+  language: Language;
+  /** 性别 */
+  gender: VoiceGender;
+  /** 风格描述 */
+  description: string;
+}
+
+/**
+ * 合成参数
+ */
+export interface VoiceSettings {
+  /** 音色 ID */
+  voiceType: number;
+  /** 语速，范围 [-2, 6]，0 为正常语速 */
+  speed?: number;
+  /** 音量，范围 [-10, 10]，0 为正常音量 */
+  volume?: number;
+}
@@ -0,0 +1,73 @@
+/**
+ * ASR 工具函数
+ */
+
+import type { AsrEngine, AsrEvent } from '@/types/asr';
+import {
+  SUPPORTED_ASR_ENGINES,
+  DEFAULT_ASR_ENGINE,
+  LANGUAGE_ASR_ENGINE,
+} from '@/constants/asr';
+
+/**
+ * 判断是否为支持的 ASR 引擎
+ */
+export function isAsrEngine(value: unknown): value is AsrEngine {
+  return typeof value === 'string' && (SUPPORTED_ASR_ENGINES as readonly string[]).includes(value);
+}
+
+/**
+ * 根据语言和引擎设置解析实际使用的 ASR 引擎
+ * - 指定了具体引擎时直接使用
+ * - 未指定或为 auto 时按语言选择，未知语言使用默认引擎
+ *
+ * @param language 界面语言（zh / en）
+ * @param engine 引擎设置（auto 或具体引擎）
+ * @returns 引擎；engine 不合法时返回 null
+ */
+export function resolveAsrEngine(language?: string | null, engine?: string | null): AsrEngine | null {
+  if (engine && engine !== 'auto') {
+    return isAsrEngine(engine) ? engine : null;
+  }
+
+  if (language && Object.hasOwn(LANGUAGE_ASR_ENGINE, language)) {
+    return LANGUAGE_ASR_ENGINE[language as keyof typeof LANGUAGE_ASR_ENGINE];
+  }
+
+  return DEFAULT_ASR_ENGINE;
+}
+
+/**
+ * 把 /api/asr/realtime 返回的同源路径转换为 WebSocket 地址（按页面协议使用 ws / wss）
+ */
+export function toWebSocketUrl(path: string): string {
+  const url = new URL(path, window.location.href);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+}
+
+/**
+ * 解析 ASR 代理下发的识别事件
+ * @returns 事件；不是合法的 AsrEvent 时返回 null
+ */
+export function parseAsrEvent(data: unknown): AsrEvent | null {
+  if (typeof data !== 'string') return null;
+
+  let event: AsrEvent;
+  try {
+    event = JSON.parse(data);
+  } catch {
+    return null;
+  }
+
+  switch (event?.type) {
+    case 'partial':
+    case 'final':
+      return typeof event.text === 'string' ? event : null;
+    case 'endpoint':
+    case 'error':
+      return event;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,129 @@
+import type { ConversationRecord, ConversationSummary, Message, TranscriptFormat } from '@/types/chat';
+
+/**
+ * 会话记录工具：校验、摘要、导出（前端 IndexedDB 与服务端 /api/conversations 共用）
+ */
+
+/** 会话 ID 最大长度 */
+const MAX_CONVERSATION_ID_LENGTH = 128;
+/** 会话 ID 允许的字符（服务端磁盘存储以 ID 作为文件名） */
+const CONVERSATION_ID_PATTERN = /^[\w-]+$/;
+/** 单个会话最多保存的消息数 */
+const MAX_MESSAGES = 1000;
+/** 单条消息保存的最大字数（超出部分截断） */
+const MAX_MESSAGE_CHARS = 8000;
+/** 列表预览的最大字数 */
+const PREVIEW_LENGTH = 40;
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  user: '访客',
+  ai: '数字人',
+};
+
+const LANGUAGE_LABELS: Record<ConversationRecord['language'], string> = {
+  zh: '中文',
+  en: 'English',
+};
+
+/**
+ * 校验会话 ID
+ */
+export function isConversationId(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= MAX_CONVERSATION_ID_LENGTH && CONVERSATION_ID_PATTERN.test(value);
+}
+
+function isMessage(value: unknown): value is Message {
+  if (!value || typeof value !== 'object') return false;
+  const { id, role, content, status, timestamp } = value as Record<string, unknown>;
+  return (
+    typeof id === 'string' &&
+    (role === 'user' || role === 'ai') &&
+    typeof content === 'string' &&
+    (status === undefined || status === 'loading' || status === 'success' || status === 'error') &&
+    typeof timestamp === 'number' &&
+    Number.isFinite(timestamp)
+  );
+}
+
+/**
+ * 校验会话记录
+ * 超长的消息截断到 MAX_MESSAGE_CHARS，不拒绝整条记录
+ * @returns 规范化后的记录；格式错误时返回 null
+ */
+export function parseConversationRecord(value: unknown): ConversationRecord | null {
+  if (!value || typeof value !== 'object') return null;
+  const { id, language, startedAt, updatedAt, messages } = value as Record<string, unknown>;
+
+  if (!isConversationId(id)) return null;
+  if (language !== 'zh' && language !== 'en') return null;
+  if (typeof startedAt !== 'number' || !Number.isFinite(startedAt)) return null;
+  if (typeof updatedAt !== 'number' || !Number.isFinite(updatedAt)) return null;
+  if (!Array.isArray(messages) || messages.length > MAX_MESSAGES || !messages.every(isMessage)) return null;
+
+  return {
+    id,
+    language,
+    startedAt,
+    updatedAt,
+    messages: messages.map(({ id, role, content, status, timestamp }) => ({
+      id,
+      role,
+      content: content.length > MAX_MESSAGE_CHARS ? content.slice(0, MAX_MESSAGE_CHARS) : content,
+      status,
+      timestamp,
+    })),
+  };
+}
+
+/**
+ * 生成会话列表项
+ */
+export function summarizeConversation(record: ConversationRecord): ConversationSummary {
+  const firstQuestion = record.messages.find((msg) => msg.role === 'user')?.content ?? '';
+  return {
+    id: record.id,
+    language: record.language,
+    startedAt: record.startedAt,
+    updatedAt: record.updatedAt,
+    messageCount: record.messages.length,
+    preview: firstQuestion.length > PREVIEW_LENGTH ? `${firstQuestion.slice(0, PREVIEW_LENGTH)}…` : firstQuestion,
+  };
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleString('zh-CN', { hour12: false });
+}
+
+/**
+ * 生成 Markdown 对话记录（多个会话按开始时间排列）
+ */
+export function toMarkdownTranscript(records: ConversationRecord[]): string {
+  return records
+    .map((record) => {
+      const lines = [
+        `## 会话 ${record.id}`,
+        '',
+        `- 开始时间：${formatTime(record.startedAt)}`,
+        `- 最后更新：${formatTime(record.updatedAt)}`,
+        `- 语言：${LANGUAGE_LABELS[record.language]}`,
+        `- 消息数：${record.messages.length}`,
+        '',
+      ];
+      for (const msg of record.messages) {
+        const status = msg.status === 'error' ? '（失败）' : '';
+        lines.push(`**${ROLE_LABELS[msg.role]}** ${formatTime(msg.timestamp)}${status}`, '', msg.content || '（空）', '');
+      }
+      return lines.join('\n');
+    })
+    .join('\n---\n\n');
+}
+
+/**
+ * 按格式生成对话记录文件内容
+ */
+export function formatTranscript(records: ConversationRecord[], format: TranscriptFormat): string {
+  if (format === 'markdown') {
+    return `# 对话记录\n\n导出时间：${formatTime(Date.now())}\n\n${toMarkdownTranscript(records)}`;
+  }
+  return JSON.stringify({ exportedAt: new Date().toISOString(), conversations: records }, null, 2);
+}
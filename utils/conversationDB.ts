@@ -0,0 +1,89 @@
+import type { ConversationRecord } from '@/types/chat';
+
+/**
+ * 会话记录本地存储（IndexedDB）
+ * 每个会话一条记录，以会话 ID 为主键，updatedAt 建索引用于按时间列出
+ */
+
+const DB_NAME = 'x-mozi';
+const DB_VERSION = 1;
+const STORE_NAME = 'conversations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * 打开数据库（单例，失败后下次调用重试）
+ */
+function openDB(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('当前环境不支持 IndexedDB'));
+  }
+
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+}
+
+/**
+ * 在事务中执行一个请求
+ */
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDB();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const req = fn(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * 保存会话（已存在则覆盖）
+ */
+export async function saveConversation(record: ConversationRecord): Promise<void> {
+  await run('readwrite', (store) => store.put(record));
+}
+
+/**
+ * 读取会话
+ */
+export async function getConversation(id: string): Promise<ConversationRecord | null> {
+  const record = await run<ConversationRecord | undefined>('readonly', (store) => store.get(id));
+  return record ?? null;
+}
+
+/**
+ * 列出所有会话（最近更新的在前）
+ */
+export async function listConversations(): Promise<ConversationRecord[]> {
+  const records = await run<ConversationRecord[]>('readonly', (store) => store.index('updatedAt').getAll());
+  return records.reverse();
+}
+
+/**
+ * 删除会话
+ */
+export async function deleteConversation(id: string): Promise<void> {
+  await run('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * 清空所有会话
+ */
+export async function clearConversations(): Promise<void> {
+  await run('readwrite', (store) => store.clear());
+}
@@ -0,0 +1,176 @@
+/**
+ * Lip-sync 画布渲染核心
+ * Worker（OffscreenCanvas）与主线程降级方案共用：解码 JPEG 帧，并按音频时钟绘制
+ */
+
+/** 画布（Worker 内为 OffscreenCanvas） */
+export type LipsyncCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/** 画布尺寸与帧率 */
+export interface LipsyncCanvasSize {
+  width: number;
+  height: number;
+  fps: number;
+}
+
+/** 待解码的帧（JPEG 字节） */
+export interface LipsyncFrameInput {
+  index: number;
+  bytes: Uint8Array;
+}
+
+/**
+ * 音频时钟快照
+ * 渲染端据此自行外推播放位置，主线程卡顿时嘴型帧不受影响
+ */
+export interface LipsyncClock {
+  /** 快照时刻的音频播放位置（秒） */
+  audioTime: number;
+  /** 快照时刻（见 clockNow，跨线程可比） */
+  timestamp: number;
+  /** 音频是否在走（stretch 暂停音频时为 false） */
+  running: boolean;
+}
+
+/**
+ * 帧渲染器
+ */
+export interface LipsyncFrameRenderer {
+  /** 清空已解码的帧并停止绘制；传入 size 时同时调整画布尺寸 */
+  reset(size?: LipsyncCanvasSize): void;
+  /** 解码一批帧，解码完成后 resolve */
+  decode(frames: LipsyncFrameInput[]): Promise<void>;
+  /** 立即绘制指定帧（播放前预渲染首帧） */
+  drawFrame(index: number): void;
+  /** 更新音频时钟；传入 null 停止绘制循环（保持当前画面） */
+  setClock(clock: LipsyncClock | null): void;
+  /** 释放资源 */
+  dispose(): void;
+}
+
+/** Worker 请求消息 */
+export type LipsyncWorkerRequest =
+  | { type: 'init'; canvas: OffscreenCanvas }
+  | { type: 'reset'; size?: LipsyncCanvasSize }
+  | { type: 'decode'; id: number; frames: LipsyncFrameInput[] }
+  | { type: 'draw'; index: number }
+  | { type: 'clock'; clock: LipsyncClock | null }
+  | { type: 'dispose' };
+
+/** Worker 响应消息 */
+export type LipsyncWorkerResponse = { type: 'decoded'; id: number };
+
+/**
+ * 当前时间（毫秒）
+ * Worker 与主线程的 performance.now() 起点不同，加上 timeOrigin 后可直接比较
+ */
+export function clockNow(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * 创建画布渲染器
+ * @param canvas 主线程 canvas 或 Worker 内的 OffscreenCanvas
+ */
+export function createCanvasRenderer(canvas: LipsyncCanvas): LipsyncFrameRenderer {
+  const ctx = canvas.getContext('2d') as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null;
+
+  let bitmaps: Array<ImageBitmap | undefined> = [];
+  let fps = 25;
+  let currentFrame = -1;
+  let clock: LipsyncClock | null = null;
+  let cancelLoop: (() => void) | null = null;
+  // reset 后自增，丢弃上一句仍在解码的帧
+  let generation = 0;
+
+  // Worker 中部分浏览器没有 requestAnimationFrame，退化为定时器
+  const scheduleTick = (callback: () => void): (() => void) => {
+    if (typeof requestAnimationFrame === 'function') {
+      const id = requestAnimationFrame(callback);
+      return () => cancelAnimationFrame(id);
+    }
+    const timer = setTimeout(callback, 16);
+    return () => clearTimeout(timer);
+  };
+
+  const drawFrame = (index: number) => {
+    const bitmap = bitmaps[index];
+    if (!ctx || !bitmap || index === currentFrame) return;
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    currentFrame = index;
+  };
+
+  const tick = () => {
+    cancelLoop = null;
+    if (!clock) return;
+
+    const elapsed = clock.running
+      ? clock.audioTime + (clockNow() - clock.timestamp) / 1000
+      : clock.audioTime;
+    // 目标帧未解码（或解码失败）时不绘制，画面保持上一帧
+    drawFrame(Math.max(0, Math.floor(elapsed * fps)));
+
+    cancelLoop = scheduleTick(tick);
+  };
+
+  const stopLoop = () => {
+    cancelLoop?.();
+    cancelLoop = null;
+  };
+
+  const reset = (size?: LipsyncCanvasSize) => {
+    generation++;
+    stopLoop();
+    clock = null;
+    bitmaps.forEach((bitmap) => bitmap?.close());
+    bitmaps = [];
+    currentFrame = -1;
+
+    if (size) {
+      canvas.width = size.width;
+      canvas.height = size.height;
+      fps = size.fps;
+    }
+  };
+
+  return {
+    reset,
+
+    async decode(frames) {
+      const decodeGeneration = generation;
+      const decoded = await Promise.all(
+        frames.map(({ bytes }) =>
+          createImageBitmap(new Blob([bytes as Uint8Array<ArrayBuffer>], { type: 'image/jpeg' }))
+            .catch(() => undefined)
+        )
+      );
+
+      if (decodeGeneration !== generation) {
+        decoded.forEach((bitmap) => bitmap?.close());
+        return;
+      }
+
+      frames.forEach(({ index }, i) => {
+        bitmaps[index] = decoded[i];
+      });
+    },
+
+    drawFrame,
+
+    setClock(nextClock) {
+      clock = nextClock;
+      if (!clock) {
+        stopLoop();
+      } else if (!cancelLoop) {
+        tick();
+      }
+    },
+
+    dispose() {
+      reset();
+    },
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Lip-sync 二进制帧协议
+ * 服务端与浏览器共用，替代「SSE + JSON + base64 JPEG」的传输方式
+ *
+ * 每条消息：[类型 1 字节][负载长度 4 字节，大端][负载]
+ * - 事件消息（MESSAGE_EVENT）：负载为 UTF-8 JSON（start / status / info / complete / error）
+ * - 帧消息（MESSAGE_FRAME）：负载为 [帧序号 uint32][进度 float32][JPEG 字节]
+ */
+
+/** 二进制流的 Content-Type */
+export const LIPSYNC_BINARY_CONTENT_TYPE = 'application/x-lipsync-frames';
+
+/** 消息类型：JSON 事件 */
+const MESSAGE_EVENT = 0x01;
+/** 消息类型：JPEG 帧 */
+const MESSAGE_FRAME = 0x02;
+
+/** 消息头长度（类型 + 负载长度） */
+const MESSAGE_HEADER_BYTES = 5;
+/** 帧头长度（帧序号 + 进度） */
+const FRAME_HEADER_BYTES = 8;
+
+/** 解析出的帧 */
+export interface LipsyncBinaryFrame {
+  index: number;
+  progress: number;
+  /** JPEG 字节 */
+  bytes: Uint8Array;
+}
+
+/** 解析回调 */
+export interface LipsyncFrameParserHandlers {
+  onEvent: (event: unknown) => void;
+  onFrame: (frame: LipsyncBinaryFrame) => void;
+}
+
+/**
+ * 编码一条 JSON 事件消息
+ */
+export function encodeEventMessage(event: unknown): Uint8Array {
+  const payload = new TextEncoder().encode(JSON.stringify(event));
+  const message = new Uint8Array(MESSAGE_HEADER_BYTES + payload.length);
+  const view = new DataView(message.buffer);
+  view.setUint8(0, MESSAGE_EVENT);
+  view.setUint32(1, payload.length);
+  message.set(payload, MESSAGE_HEADER_BYTES);
+  return message;
+}
+
+/**
+ * 编码一条帧消息
+ */
+export function encodeFrameMessage(index: number, progress: number, jpeg: Uint8Array): Uint8Array {
+  const payloadLength = FRAME_HEADER_BYTES + jpeg.length;
+  const message = new Uint8Array(MESSAGE_HEADER_BYTES + payloadLength);
+  const view = new DataView(message.buffer);
+  view.setUint8(0, MESSAGE_FRAME);
+  view.setUint32(1, payloadLength);
+  view.setUint32(MESSAGE_HEADER_BYTES, index);
+  view.setFloat32(MESSAGE_HEADER_BYTES + 4, progress);
+  message.set(jpeg, MESSAGE_HEADER_BYTES + FRAME_HEADER_BYTES);
+  return message;
+}
+
+/**
+ * 创建流式解析器
+ * 网络分片可能在任意位置截断消息，未读完的部分会保留到下一次 push
+ */
+export function createLipsyncFrameParser(handlers: LipsyncFrameParserHandlers) {
+  const decoder = new TextDecoder();
+  let buffer: Uint8Array = new Uint8Array(0);
+
+  const push = (chunk: Uint8Array) => {
+    // 拼接上次剩余的字节
+    if (buffer.length) {
+      const merged = new Uint8Array(buffer.length + chunk.length);
+      merged.set(buffer);
+      merged.set(chunk, buffer.length);
+      buffer = merged;
+    } else {
+      buffer = chunk;
+    }
+
+    let offset = 0;
+    while (buffer.length - offset >= MESSAGE_HEADER_BYTES) {
+      const view = new DataView(buffer.buffer, buffer.byteOffset + offset);
+      const type = view.getUint8(0);
+      const payloadLength = view.getUint32(1);
+      const end = offset + MESSAGE_HEADER_BYTES + payloadLength;
+      if (buffer.length < end) break;
+
+      const payload = buffer.subarray(offset + MESSAGE_HEADER_BYTES, end);
+
+      if (type === MESSAGE_FRAME) {
+        const frameView = new DataView(payload.buffer, payload.byteOffset, FRAME_HEADER_BYTES);
+        handlers.onFrame({
+          index: frameView.getUint32(0),
+          progress: frameView.getFloat32(4),
+          // 复制一份，避免持有整个网络缓冲区
+          bytes: payload.slice(FRAME_HEADER_BYTES),
+        });
+      } else if (type === MESSAGE_EVENT) {
+        try {
+          handlers.onEvent(JSON.parse(decoder.decode(payload)));
+        } catch (e) {
+          console.error('解析 lip-sync 事件失败:', e);
+        }
+      } else {
+        console.warn('未知的 lip-sync 消息类型:', type);
+      }
+
+      offset = end;
+    }
+
+    buffer = offset ? buffer.slice(offset) : buffer;
+  };
+
+  /** 流结束时是否还有未完整的消息 */
+  const hasPendingBytes = () => buffer.length > 0;
+
+  return { push, hasPendingBytes };
+}
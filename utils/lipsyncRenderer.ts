@@ -0,0 +1,126 @@
+/**
+ * Lip-sync 渲染器（主线程入口）
+ * 支持 OffscreenCanvas 时把 lipsync-canvas 交给 Worker 解码和绘制，
+ * 避免 React 渲染、动画等主线程任务导致嘴型掉帧；否则在主线程渲染
+ */
+
+import {
+  createCanvasRenderer,
+  type LipsyncFrameRenderer,
+  type LipsyncWorkerRequest,
+  type LipsyncWorkerResponse,
+} from '@/utils/lipsyncCanvas';
+
+/** 当前 canvas 及其渲染器（canvas 只能转移一次，需要复用） */
+let current: { canvas: HTMLCanvasElement; renderer: LipsyncFrameRenderer } | null = null;
+
+/**
+ * 取出可转移的缓冲区（只转移独占整个 ArrayBuffer 的帧，避免误伤共享缓冲）
+ */
+function collectTransferables(request: LipsyncWorkerRequest): Transferable[] {
+  if (request.type !== 'decode') return [];
+
+  const buffers = new Set<ArrayBuffer>();
+  for (const { bytes } of request.frames) {
+    if (
+      bytes.buffer instanceof ArrayBuffer &&
+      bytes.byteOffset === 0 &&
+      bytes.byteLength === bytes.buffer.byteLength
+    ) {
+      buffers.add(bytes.buffer);
+    }
+  }
+  return [...buffers];
+}
+
+/**
+ * 创建 Worker 渲染器
+ */
+function createWorkerRenderer(canvas: HTMLCanvasElement): LipsyncFrameRenderer {
+  const worker = new Worker(new URL('../workers/lipsyncRenderer.worker.ts', import.meta.url));
+  const offscreen = canvas.transferControlToOffscreen();
+
+  const pending = new Map<number, () => void>();
+  let nextDecodeId = 0;
+
+  const post = (request: LipsyncWorkerRequest, transfer: Transferable[] = []) => {
+    worker.postMessage(request, transfer);
+  };
+
+  // Worker 异常时释放等待中的解码请求，避免播放器一直缓冲
+  const releasePending = () => {
+    pending.forEach((resolve) => resolve());
+    pending.clear();
+  };
+
+  worker.onmessage = (event: MessageEvent<LipsyncWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'decoded') {
+      pending.get(message.id)?.();
+      pending.delete(message.id);
+    }
+  };
+
+  worker.onerror = (event) => {
+    console.error('Lip-sync 渲染 Worker 错误:', event.message);
+    releasePending();
+  };
+
+  post({ type: 'init', canvas: offscreen }, [offscreen]);
+
+  return {
+    reset(size) {
+      post({ type: 'reset', size });
+    },
+
+    decode(frames) {
+      return new Promise<void>((resolve) => {
+        const id = ++nextDecodeId;
+        pending.set(id, resolve);
+        const request: LipsyncWorkerRequest = { type: 'decode', id, frames };
+        // 帧字节直接转移给 Worker，不做拷贝
+        post(request, collectTransferables(request));
+      });
+    },
+
+    drawFrame(index) {
+      post({ type: 'draw', index });
+    },
+
+    setClock(clock) {
+      post({ type: 'clock', clock });
+    },
+
+    dispose() {
+      post({ type: 'dispose' });
+      releasePending();
+      worker.terminate();
+    },
+  };
+}
+
+/**
+ * 获取 canvas 对应的渲染器
+ * 同一个 canvas 复用同一个渲染器；canvas 重新挂载后为新的元素创建渲染器
+ */
+export function getLipsyncRenderer(canvas: HTMLCanvasElement): LipsyncFrameRenderer {
+  if (current?.canvas === canvas) {
+    return current.renderer;
+  }
+
+  current?.renderer.dispose();
+
+  let renderer: LipsyncFrameRenderer | null = null;
+  if (typeof Worker !== 'undefined' && typeof canvas.transferControlToOffscreen === 'function') {
+    try {
+      renderer = createWorkerRenderer(canvas);
+      console.log('Lip-sync 使用 Worker + OffscreenCanvas 渲染');
+    } catch (error) {
+      console.warn('Lip-sync Worker 渲染不可用，回退到主线程渲染:', error);
+    }
+  }
+  renderer ??= createCanvasRenderer(canvas);
+
+  current = { canvas, renderer };
+  return renderer;
+}
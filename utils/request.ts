@@ -173,12 +173,13 @@ export const request = {
    * 流式请求 (用于 SSE)
    * 注意：axios 不直接支持 SSE，这里使用 fetch
    * @param signal 外部 AbortSignal，用于取消请求（如用户打断）
+   * @param onEvent 不含 content 的其他事件（如回复的动作标签）
    */
   async stream(
     url: string,
     data: unknown,
     onMessage: (content: string) => void,
-    config?: { timeout?: number; signal?: AbortSignal }
+    config?: { timeout?: number; signal?: AbortSignal; onEvent?: (event: Record<string, unknown>) => void }
   ): Promise<void> {
     // 如果有外部 signal，使用它；否则创建内部 controller 用于超时
     const internalController = new AbortController();
@@ -236,9 +237,11 @@ export const request = {
             if (data === '[DONE]') break;
 
             try {
-              const { content } = JSON.parse(data);
-              if (content) {
-                onMessage(content);
+              const event = JSON.parse(data);
+              if (event.content) {
+                onMessage(event.content);
+              } else {
+                config?.onEvent?.(event);
               }
             } catch {
               // 忽略解析错误
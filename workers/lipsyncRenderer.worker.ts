@@ -0,0 +1,46 @@
+/**
+ * Lip-sync 渲染 Worker
+ * 持有 lipsync-canvas 转移来的 OffscreenCanvas，在 Worker 线程解码 JPEG 帧并按音频时钟绘制
+ */
+
+import {
+  createCanvasRenderer,
+  type LipsyncFrameRenderer,
+  type LipsyncWorkerRequest,
+  type LipsyncWorkerResponse,
+} from '@/utils/lipsyncCanvas';
+
+let renderer: LipsyncFrameRenderer | null = null;
+
+function reply(message: LipsyncWorkerResponse) {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<LipsyncWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      renderer?.dispose();
+      renderer = createCanvasRenderer(message.canvas);
+      break;
+    case 'reset':
+      renderer?.reset(message.size);
+      break;
+    case 'decode':
+      await renderer?.decode(message.frames);
+      reply({ type: 'decoded', id: message.id });
+      break;
+    case 'draw':
+      renderer?.drawFrame(message.index);
+      break;
+    case 'clock':
+      renderer?.setClock(message.clock);
+      break;
+    case 'dispose':
+      renderer?.dispose();
+      renderer = null;
+      self.close();
+      break;
+  }
+};